@@ -0,0 +1,93 @@
+/**
+ * Time the read queries against a large synthetic Things database.
+ *
+ *   bun run bench [todos]    (default 5000 to-dos)
+ *
+ * Builds the database in a temp directory with src/db/fixture.ts, so it runs
+ * anywhere — no Things install needed. Numbers are medians over several runs.
+ */
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { buildThingsFixture, daysFromToday, type FixtureTask } from "../src/db/fixture";
+
+const TODOS = Number(process.argv[2] ?? 5000);
+const RUNS = 20;
+
+// ─── Synthetic Database ───
+
+const areas = Array.from({ length: 10 }, (_, i) => ({ uuid: `area-${i}`, title: `Area ${i}` }));
+const tagTitles = Array.from({ length: 60 }, (_, i) => `tag-${i}`);
+
+const tasks: FixtureTask[] = Array.from({ length: 40 }, (_, i) => ({
+  uuid: `project-${i}`,
+  title: `Project ${i}`,
+  type: "project",
+  area: areas[i % areas.length].uuid,
+  tags: [tagTitles[i % tagTitles.length]],
+}));
+
+// Deterministic spread: about half done, an eighth each in Today and Someday
+for (let i = 0; i < TODOS; i++) {
+  const done = i % 2 === 0;
+  tasks.push({
+    uuid: `todo-${i}`,
+    title: `To-do number ${i}`,
+    notes: i % 3 === 0 ? `Some notes for to-do ${i}` : "",
+    status: done ? (i % 10 === 0 ? "canceled" : "completed") : "incomplete",
+    start: i % 8 === 1 ? "someday" : "anytime",
+    startDate: i % 8 === 3 ? daysFromToday(0) : undefined,
+    project: i % 4 === 1 ? `project-${i % 40}` : undefined,
+    area: i % 4 === 3 ? areas[i % areas.length].uuid : undefined,
+    tags: tagTitles.filter((_, t) => (i + t * 7) % 23 === 0).slice(0, 3),
+    checklist: Array.from({ length: i % 6 }, (_, c) => ({ title: `Step ${c}` })),
+  });
+}
+
+const dir = mkdtempSync(join(tmpdir(), "things-bridge-bench-"));
+process.env.THINGS_DB_PATH = join(dir, "main.sqlite");
+buildThingsFixture(process.env.THINGS_DB_PATH, { areas, tasks });
+
+// Imported after THINGS_DB_PATH is set — config reads it at load time
+const queries = await import("../src/db/queries");
+const { closeDb } = await import("../src/db/connection");
+
+// ─── Benchmarks ───
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+function bench(name: string, run: () => { items: unknown[] } | unknown[]): void {
+  const count = (result: { items: unknown[] } | unknown[]) =>
+    Array.isArray(result) ? result.length : result.items.length;
+  let rows = count(run()); // warm-up, also calibrates dates
+  const times: number[] = [];
+  for (let i = 0; i < RUNS; i++) {
+    const start = performance.now();
+    rows = count(run());
+    times.push(performance.now() - start);
+  }
+  console.log(`${name.padEnd(34)} ${median(times).toFixed(2).padStart(9)} ms  ${String(rows).padStart(6)} rows`);
+}
+
+console.log(`${TODOS} to-dos, ${RUNS} runs each\n`);
+bench("list anytime", () => queries.getTodosByList("anytime"));
+bench("list anytime (page of 100)", () =>
+  queries.getTodosByList("anytime", { limit: 100, after: null })
+);
+bench("list today", () => queries.getTodosByList("today"));
+bench("list someday", () => queries.getTodosByList("someday"));
+bench("list logbook", () => queries.getTodosByList("logbook"));
+bench("todos by tag", () => queries.getTodosByTag("tag-0", { includeDescendants: false }));
+bench("filter by tags", () =>
+  queries.filterTodos({ tags: ["tag-1", "tag-2"], status: ["incomplete", "completed"] })
+);
+bench("search", () => queries.searchTodos("number 1"));
+bench("projects", () => queries.getProjects());
+bench("project detail", () => [queries.getProjectByUuid("project-1")]);
+bench("areas", () => queries.getAreas());
+
+closeDb();
+rmSync(dir, { recursive: true, force: true });
@@ -1,140 +1,215 @@
-import type { CreateTodoRequest, CreateProjectRequest, UpdateTodoRequest } from "../types";
+import { config } from "../config";
+import { getChecklistForTask, getTodoByUuid, findHeading } from "../db/queries";
+import type { WriteBackend, BatchOutcome } from "../backend";
+import { WriteError, toWriteError } from "../backend/errors";
+import {
+  createTodoScript,
+  scheduleTodoScript,
+  updateTodoScript,
+  whenToList,
+  moveTodoScript,
+  completeTodoScript,
+  cancelTodoScript,
+  deleteTodoScript,
+  checklistUrl,
+  headingUrl,
+  createProjectScript,
+  completeProjectScript,
+  deleteProjectScript,
+  restoreTodoScript,
+  restoreProjectScript,
+  createAreaScript,
+  updateAreaScript,
+  deleteAreaScript,
+  createTagScript,
+  updateTagScript,
+  deleteTagScript,
+  batchScript,
+  parseBatchOutput,
+} from "./scripts";
+import type {
+  CreateTodoRequest,
+  CreateProjectRequest,
+  UpdateTodoRequest,
+  CreateAreaRequest,
+  UpdateAreaRequest,
+  CreateTagRequest,
+  UpdateTagRequest,
+  ChecklistItemInput,
+  BatchOperation,
+  Todo,
+  Project,
+} from "../types";
 
 // ─── AppleScript Execution ───
 
+/** Extra attempts for a transient failure, and the delay before the first */
+const SCRIPT_RETRIES = 2;
+const SCRIPT_RETRY_BASE_MS = 1000;
+
 /**
- * Execute an AppleScript string via osascript.
- * Returns stdout on success, throws on error.
+ * Spawn a command, killing it after THINGS_BRIDGE_SCRIPT_TIMEOUT.
+ * Returns exit code and output; throws a "timeout" WriteError if killed.
  */
-async function runAppleScript(script: string): Promise<string> {
-  const proc = Bun.spawn(["osascript", "-e", script], {
-    stdout: "pipe",
-    stderr: "pipe",
-  });
+async function spawnWithTimeout(
+  cmd: string[],
+  what: string
+): Promise<{ exitCode: number; stdout: string; stderr: string }> {
+  const proc = Bun.spawn(cmd, { stdout: "pipe", stderr: "pipe" });
+
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    proc.kill();
+  }, config.scriptTimeout * 1000);
 
   const exitCode = await proc.exited;
+  clearTimeout(timer);
+  if (timedOut) {
+    throw new WriteError("timeout", `${what} timed out after ${config.scriptTimeout}s`);
+  }
+
   const stdout = await new Response(proc.stdout).text();
   const stderr = await new Response(proc.stderr).text();
+  return { exitCode, stdout, stderr };
+}
 
-  if (exitCode !== 0) {
-    throw new Error(`AppleScript failed (exit ${exitCode}): ${stderr.trim()}`);
+/**
+ * Execute an AppleScript string via osascript.
+ * Returns stdout on success, throws a classified WriteError on failure.
+ *
+ * Transient failures — Things not running yet, a timed-out Apple event — are
+ * retried with backoff. A script that creates something isn't retried after
+ * a timeout, since Things may have run it anyway: pass `idempotent: false`.
+ */
+async function runAppleScript(
+  script: string,
+  options: { idempotent?: boolean } = {}
+): Promise<string> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const { exitCode, stdout, stderr } = await spawnWithTimeout(
+        ["osascript", "-e", script],
+        "AppleScript"
+      );
+      if (exitCode !== 0) {
+        throw toWriteError(new Error(`AppleScript failed (exit ${exitCode}): ${stderr.trim()}`));
+      }
+      return stdout.trim();
+    } catch (err) {
+      const error = toWriteError(err);
+      const retryable =
+        error.code === "things_not_running" ||
+        (error.code === "timeout" && options.idempotent !== false);
+      if (!retryable || attempt >= SCRIPT_RETRIES) throw error;
+      await Bun.sleep(SCRIPT_RETRY_BASE_MS * 2 ** attempt);
+    }
   }
-
-  return stdout.trim();
 }
 
-// ─── Escaping ───
+// ─── Things URL Scheme ───
 
-/** Escape a string for use inside AppleScript double quotes */
-function escapeAS(str: string): string {
-  return str.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+/**
+ * Open a Things URL scheme command in the background via `open -g`.
+ * Used for features AppleScript doesn't expose (checklist items, headings).
+ * Things processes the URL asynchronously — `open` returns before the
+ * change lands in the database.
+ */
+async function runThingsUrl(url: string): Promise<void> {
+  const { exitCode, stderr } = await spawnWithTimeout(["open", "-g", url], "Things URL");
+  if (exitCode !== 0) {
+    throw new WriteError("write_failed", `Things URL failed (exit ${exitCode}): ${stderr.trim()}`);
+  }
 }
 
-// ─── To-Do Operations ───
+/** Poll interval and upper bound when waiting for a URL command to land */
+const URL_SYNC_POLL_MS = 100;
+const URL_SYNC_TIMEOUT_MS = 3000;
 
-/** Create a new to-do in Things 3. Returns the name of the created to-do. */
-export async function createTodo(req: CreateTodoRequest): Promise<string> {
-  const props: string[] = [`name:"${escapeAS(req.title)}"`];
-
-  if (req.notes) {
-    props.push(`notes:"${escapeAS(req.notes)}"`);
+/**
+ * Wait until a URL command's effect is visible in the database. Returns
+ * false if it still isn't when the wait runs out.
+ */
+async function waitForUrlSync(applied: () => boolean): Promise<boolean> {
+  const deadline = Date.now() + URL_SYNC_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    if (applied()) return true;
+    await Bun.sleep(URL_SYNC_POLL_MS);
   }
+  return applied();
+}
 
-  if (req.deadline) {
-    props.push(`due date:date "${escapeAS(req.deadline)}"`);
+function requireThingsAuthToken(feature: string): string {
+  if (!config.thingsAuthToken) {
+    throw new WriteError("invalid_input", `THINGS_AUTH_TOKEN is not set — required for ${feature}`);
   }
+  return config.thingsAuthToken;
+}
 
-  if (req.tags && req.tags.length > 0) {
-    props.push(`tag names:"${escapeAS(req.tags.join(", "))}"`);
-  }
+// ─── To-Do Operations ───
 
-  // Determine the target list/location
-  // Built-in Things lists that can be used as targets
-  const builtInLists: Record<string, string> = {
-    inbox: "Inbox",
-    today: "Today",
-    anytime: "Anytime",
-    someday: "Someday",
-    upcoming: "Upcoming",
-  };
-
-  let location = "";
-  if (req.when && builtInLists[req.when.toLowerCase()]) {
-    location = ` at beginning of list "${builtInLists[req.when.toLowerCase()]}"`;
-  } else if (req.list) {
-    const listLower = req.list.toLowerCase();
-    if (builtInLists[listLower]) {
-      // Treat "inbox", "today" etc. as built-in lists, not project names
-      location = ` at beginning of list "${builtInLists[listLower]}"`;
-    } else {
-      // Treat as a project name
-      location = ` at beginning of project "${escapeAS(req.list)}"`;
+/** Create a new to-do in Things 3. Returns the UUID of the created to-do. */
+export async function createTodo(req: CreateTodoRequest): Promise<string> {
+  // Resolve the heading first so a bad title fails before anything is created
+  let headingUuid: string | null = null;
+  if (req.heading) {
+    const heading = req.list ? findHeading(req.list, req.heading) : null;
+    if (!heading) {
+      throw new WriteError("not_found", `Heading "${req.heading}" not found in project "${req.list}"`);
     }
+    headingUuid = heading.uuid;
   }
-  // No location = defaults to Things Inbox
 
-  const script = `tell application "Things3"
-  set newToDo to make new to do with properties {${props.join(", ")}}${location}
-  return name of newToDo
-end tell`;
-
-  const result = await runAppleScript(script);
+  const uuid = await runAppleScript(createTodoScript(req), { idempotent: false });
 
   // If a specific date was given (not today/anytime/someday), schedule it
-  if (req.when && !["today", "tomorrow", "evening", "anytime", "someday"].includes(req.when)) {
-    const scheduleScript = `tell application "Things3"
-  set toDo to to do named "${escapeAS(req.title)}"
-  schedule toDo for date "${escapeAS(req.when)}"
-end tell`;
+  const scheduleScript = req.when ? scheduleTodoScript(uuid, req.when) : null;
+  if (scheduleScript) {
     await runAppleScript(scheduleScript).catch(() => {
       // Scheduling might fail if the date format is not recognized
     });
-  } else if (req.when === "tomorrow") {
-    const scheduleScript = `tell application "Things3"
-  set toDo to to do named "${escapeAS(req.title)}"
-  schedule toDo for (current date) + 1 * days
-end tell`;
-    await runAppleScript(scheduleScript).catch(() => {});
   }
 
-  // Add checklist items if provided
-  if (req.checklist && req.checklist.length > 0) {
-    // Checklist items aren't directly supported via make, use URL scheme
-    // For now, append them to notes as a workaround
-    const checklistText = req.checklist.map((item) => `- ${item}`).join("\\n");
-    const notesScript = `tell application "Things3"
-  set toDo to to do named "${escapeAS(req.title)}"
-  set notes of toDo to (notes of toDo) & "\\n${escapeAS(checklistText)}"
-end tell`;
-    await runAppleScript(notesScript).catch(() => {});
+  await finishCreatedTodo(uuid, req, headingUuid);
+  return uuid;
+}
+
+/**
+ * File a new to-do under its heading and add its checklist. Neither is
+ * exposed to AppleScript, so both go through the URL scheme.
+ */
+async function finishCreatedTodo(
+  uuid: string,
+  req: CreateTodoRequest,
+  headingUuid: string | null
+): Promise<void> {
+  if (headingUuid) {
+    const token = requireThingsAuthToken("headings");
+    await runThingsUrl(headingUrl(uuid, headingUuid, token));
+    await waitForUrlSync(() => getTodoByUuid(uuid)?.heading === headingUuid);
   }
 
-  return result;
+  if (req.checklist && req.checklist.length > 0) {
+    await setChecklist(
+      uuid,
+      req.checklist.map((title) => ({ title, status: "incomplete" }))
+    );
+  }
 }
 
 /** Complete a to-do by its UUID */
 export async function completeTodo(identifier: string): Promise<void> {
-  const script = `tell application "Things3"
-  set status of to do id "${escapeAS(identifier)}" to completed
-end tell`;
-  await runAppleScript(script);
+  await runAppleScript(completeTodoScript(identifier));
 }
 
 /** Cancel a to-do */
 export async function cancelTodo(identifier: string): Promise<void> {
-  const script = `tell application "Things3"
-  set status of to do id "${escapeAS(identifier)}" to canceled
-end tell`;
-  await runAppleScript(script);
+  await runAppleScript(cancelTodoScript(identifier));
 }
 
 /** Delete (trash) a to-do */
 export async function deleteTodo(identifier: string): Promise<void> {
-  // Use move to Trash — works for both incomplete and completed to-dos
-  const script = `tell application "Things3"
-  move to do id "${escapeAS(identifier)}" to list "Trash"
-end tell`;
-  await runAppleScript(script);
+  await runAppleScript(deleteTodoScript(identifier));
 }
 
 /** Update a to-do's properties */
@@ -142,92 +217,202 @@ export async function updateTodo(
   uuid: string,
   req: UpdateTodoRequest
 ): Promise<void> {
-  const commands: string[] = [
-    `set toDo to to do id "${escapeAS(uuid)}"`,
-  ];
-
-  if (req.title) {
-    commands.push(`set name of toDo to "${escapeAS(req.title)}"`);
-  }
-  if (req.notes !== undefined) {
-    commands.push(`set notes of toDo to "${escapeAS(req.notes)}"`);
-  }
-  if (req.tags) {
-    commands.push(
-      `set tag names of toDo to "${escapeAS(req.tags.join(", "))}"`
-    );
-  }
-  if (req.deadline) {
-    commands.push(`set due date of toDo to date "${escapeAS(req.deadline)}"`);
-  }
-
-  const script = `tell application "Things3"
-  ${commands.join("\n  ")}
-end tell`;
-  await runAppleScript(script);
+  await runAppleScript(updateTodoScript(uuid, req));
 
   // Handle when/scheduling
-  if (req.when) {
-    if (req.when === "today") {
-      await moveTodoToList(uuid, "Today");
-    } else if (req.when === "someday") {
-      await moveTodoToList(uuid, "Someday");
-    } else if (req.when === "anytime") {
-      await moveTodoToList(uuid, "Anytime");
-    }
+  const list = req.when ? whenToList(req.when) : null;
+  if (list) {
+    await moveTodo(uuid, list);
   }
 }
 
-/** Move a to-do to a built-in list */
-async function moveTodoToList(uuid: string, list: string): Promise<void> {
-  const script = `tell application "Things3"
-  move to do id "${escapeAS(uuid)}" to list "${escapeAS(list)}"
-end tell`;
-  await runAppleScript(script);
+/** Move a to-do to a built-in list or a project */
+export async function moveTodo(uuid: string, destination: string): Promise<void> {
+  await runAppleScript(moveTodoScript(uuid, destination));
 }
 
-// ─── Project Operations ───
+// ─── Checklist Operations ───
 
-/** Create a new project */
-export async function createProject(req: CreateProjectRequest): Promise<string> {
-  const props: string[] = [`name:"${escapeAS(req.title)}"`];
+/**
+ * Replace a to-do's checklist with the given items, in order.
+ * Goes through the Things JSON URL command, which requires THINGS_AUTH_TOKEN.
+ * Things assigns fresh UUIDs to every item when the checklist is rewritten.
+ * Resolves true once the database reflects the new checklist, false if it
+ * doesn't yet after a timeout.
+ */
+export async function setChecklist(
+  uuid: string,
+  items: ChecklistItemInput[]
+): Promise<boolean> {
+  const token = requireThingsAuthToken("checklist items");
+  await runThingsUrl(checklistUrl(uuid, items, token));
+
+  // Wait for Things to apply the change so callers can read it back
+  return waitForUrlSync(() => {
+    const current = getChecklistForTask(uuid);
+    return (
+      current.length === items.length &&
+      current.every(
+        (item, i) =>
+          item.title === items[i].title && item.status === items[i].status
+      )
+    );
+  });
+}
 
-  if (req.notes) {
-    props.push(`notes:"${escapeAS(req.notes)}"`);
-  }
-  if (req.tags && req.tags.length > 0) {
-    props.push(`tag names:"${escapeAS(req.tags.join(", "))}"`);
+// ─── Undo ───
+
+/**
+ * Put a to-do back the way `before` had it, out of the Trash if need be.
+ * Its heading and checklist follow through the URL scheme when they differ.
+ */
+export async function restoreTodo(uuid: string, before: Todo): Promise<void> {
+  await runAppleScript(restoreTodoScript(uuid, before));
+
+  const current = getTodoByUuid(uuid);
+  if (before.heading && current?.heading !== before.heading) {
+    const token = requireThingsAuthToken("headings");
+    await runThingsUrl(headingUrl(uuid, before.heading, token));
+    await waitForUrlSync(() => getTodoByUuid(uuid)?.heading === before.heading);
   }
 
-  let location = "";
-  if (req.area) {
-    location = ` at beginning of area "${escapeAS(req.area)}"`;
+  const checklist = current?.checklist ?? [];
+  const checklistChanged =
+    checklist.length !== before.checklist.length ||
+    checklist.some(
+      (item, i) =>
+        item.title !== before.checklist[i].title ||
+        item.status !== before.checklist[i].status
+    );
+  if (checklistChanged) {
+    await setChecklist(
+      uuid,
+      before.checklist.map(({ title, status }) => ({ title, status }))
+    );
   }
+}
 
-  const script = `tell application "Things3"
-  set newProject to make new project with properties {${props.join(", ")}}${location}
-  return name of newProject
-end tell`;
+/** Put a project back the way `before` had it, out of the Trash if need be */
+export async function restoreProject(uuid: string, before: Project): Promise<void> {
+  await runAppleScript(restoreProjectScript(uuid, before));
+}
 
-  const result = await runAppleScript(script);
+// ─── Batch Operations ───
 
-  // Create child to-dos if provided
-  if (req.todos && req.todos.length > 0) {
-    for (const todoTitle of req.todos) {
-      const todoScript = `tell application "Things3"
-  make new to do with properties {name:"${escapeAS(todoTitle)}"} at beginning of project "${escapeAS(req.title)}"
-end tell`;
-      await runAppleScript(todoScript).catch(() => {});
+/**
+ * Run to-do operations in order through one osascript process. Headings and
+ * checklists of created to-dos follow through the URL scheme once the script
+ * is done; if that fails, the create reports the error alongside its UUID.
+ */
+export async function runBatch(
+  ops: BatchOperation[],
+  stopOnError: boolean
+): Promise<BatchOutcome[]> {
+  if (ops.length === 0) return [];
+
+  const output = await runAppleScript(batchScript(ops, stopOnError), {
+    idempotent: !ops.some((op) => op.op === "create"),
+  });
+  const outcomes: BatchOutcome[] = parseBatchOutput(output, ops.length).map(
+    (result) => ({ status: result.status, uuid: result.id, error: result.error })
+  );
+
+  for (const [i, op] of ops.entries()) {
+    const outcome = outcomes[i];
+    if (op.op !== "create" || outcome.status !== "ok" || !outcome.uuid) continue;
+    const heading = op.data.heading && op.data.list
+      ? findHeading(op.data.list, op.data.heading)
+      : null;
+    try {
+      await finishCreatedTodo(outcome.uuid, op.data, heading?.uuid ?? null);
+    } catch (err) {
+      outcome.status = "error";
+      outcome.error = `Created, but ${err instanceof Error ? err.message : String(err)}`;
     }
   }
+  return outcomes;
+}
+
+// ─── Project Operations ───
 
-  return result;
+/** Create a new project and its child to-dos. Returns the UUID of the project. */
+export async function createProject(req: CreateProjectRequest): Promise<string> {
+  return runAppleScript(createProjectScript(req), { idempotent: false });
 }
 
 /** Complete a project */
 export async function completeProject(uuid: string): Promise<void> {
-  const script = `tell application "Things3"
-  set status of project id "${escapeAS(uuid)}" to completed
-end tell`;
-  await runAppleScript(script);
+  await runAppleScript(completeProjectScript(uuid));
+}
+
+/** Delete (trash) a project along with its to-dos */
+export async function deleteProject(uuid: string): Promise<void> {
+  await runAppleScript(deleteProjectScript(uuid));
+}
+
+// ─── Area Operations ───
+
+/** Create a new area. Returns the UUID of the created area. */
+export async function createArea(req: CreateAreaRequest): Promise<string> {
+  return runAppleScript(createAreaScript(req), { idempotent: false });
+}
+
+/** Rename an area and/or replace its tags */
+export async function updateArea(
+  uuid: string,
+  req: UpdateAreaRequest
+): Promise<void> {
+  await runAppleScript(updateAreaScript(uuid, req));
+}
+
+/** Delete an area (its contents go to the Trash) */
+export async function deleteArea(uuid: string): Promise<void> {
+  await runAppleScript(deleteAreaScript(uuid));
+}
+
+// ─── Tag Operations ───
+
+/** Create a new tag. Returns the UUID of the created tag. */
+export async function createTag(req: CreateTagRequest): Promise<string> {
+  return runAppleScript(createTagScript(req), { idempotent: false });
 }
+
+/** Rename, re-parent, and/or change the shortcut of a tag */
+export async function updateTag(
+  uuid: string,
+  req: UpdateTagRequest
+): Promise<void> {
+  await runAppleScript(updateTagScript(uuid, req));
+}
+
+/** Delete a tag and the tags nested under it */
+export async function deleteTag(uuid: string): Promise<void> {
+  await runAppleScript(deleteTagScript(uuid));
+}
+
+// ─── Backend ───
+
+/** The production write backend: osascript + the Things URL scheme */
+export const appleScriptBackend: WriteBackend = {
+  name: "applescript",
+  canWriteChecklists: Boolean(config.thingsAuthToken),
+  createTodo,
+  updateTodo,
+  completeTodo,
+  cancelTodo,
+  moveTodo,
+  deleteTodo,
+  setChecklist,
+  restoreTodo,
+  runBatch,
+  createProject,
+  completeProject,
+  deleteProject,
+  restoreProject,
+  createArea,
+  updateArea,
+  deleteArea,
+  createTag,
+  updateTag,
+  deleteTag,
+};
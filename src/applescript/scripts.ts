@@ -0,0 +1,545 @@
+import type {
+  CreateTodoRequest,
+  CreateProjectRequest,
+  UpdateTodoRequest,
+  CreateAreaRequest,
+  UpdateAreaRequest,
+  CreateTagRequest,
+  UpdateTagRequest,
+  ChecklistItemInput,
+  BatchOperation,
+  Todo,
+  Project,
+} from "../types";
+
+// ─── Escaping ───
+
+/** Escape a string for use inside AppleScript double quotes */
+export function escapeAS(str: string): string {
+  return str.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+}
+
+// ─── Locations ───
+
+/** Built-in Things lists that can be used as targets */
+export const BUILT_IN_LISTS: Record<string, string> = {
+  inbox: "Inbox",
+  today: "Today",
+  anytime: "Anytime",
+  someday: "Someday",
+  upcoming: "Upcoming",
+};
+
+/** `when` values that are handled without scheduling to a specific date */
+export const RELATIVE_WHENS = ["today", "tomorrow", "evening", "anytime", "someday"];
+
+/**
+ * Resolve the `at ...` clause for a new to-do.
+ * `when` naming a built-in list wins over `list`; `list` is either a
+ * built-in list or a project title. No location = Things Inbox.
+ */
+function todoLocation(req: CreateTodoRequest): string {
+  if (req.when && BUILT_IN_LISTS[req.when.toLowerCase()]) {
+    return ` at beginning of list "${BUILT_IN_LISTS[req.when.toLowerCase()]}"`;
+  }
+  if (req.list) {
+    const listLower = req.list.toLowerCase();
+    if (BUILT_IN_LISTS[listLower]) {
+      // Treat "inbox", "today" etc. as built-in lists, not project names
+      return ` at beginning of list "${BUILT_IN_LISTS[listLower]}"`;
+    }
+    // Treat as a project name
+    return ` at beginning of project "${escapeAS(req.list)}"`;
+  }
+  return "";
+}
+
+// ─── To-Do Scripts ───
+
+/** `make new to do ...` with its properties and location, assigned to `variable` */
+function makeTodoCommand(variable: string, req: CreateTodoRequest): string {
+  const props: string[] = [`name:"${escapeAS(req.title)}"`];
+
+  if (req.notes) {
+    props.push(`notes:"${escapeAS(req.notes)}"`);
+  }
+
+  if (req.deadline) {
+    props.push(`due date:date "${escapeAS(req.deadline)}"`);
+  }
+
+  if (req.tags && req.tags.length > 0) {
+    props.push(`tag names:"${escapeAS(req.tags.join(", "))}"`);
+  }
+
+  return `set ${variable} to make new to do with properties {${props.join(", ")}}${todoLocation(req)}`;
+}
+
+/** Create a to-do; the script returns the new to-do's id */
+export function createTodoScript(req: CreateTodoRequest): string {
+  return `tell application "Things3"
+  ${makeTodoCommand("newToDo", req)}
+  return id of newToDo
+end tell`;
+}
+
+/** The `schedule` command for "tomorrow" or a date; null for relative whens */
+function scheduleCommand(variable: string, when: string): string | null {
+  if (when === "tomorrow") {
+    return `schedule ${variable} for (current date) + 1 * days`;
+  }
+  if (RELATIVE_WHENS.includes(when) || BUILT_IN_LISTS[when.toLowerCase()]) {
+    return null;
+  }
+  return `schedule ${variable} for date "${escapeAS(when)}"`;
+}
+
+/**
+ * Schedule a freshly created to-do when `when` is "tomorrow" or a date.
+ * Returns null when the location clause already covered `when`.
+ */
+export function scheduleTodoScript(uuid: string, when: string): string | null {
+  const command = scheduleCommand("toDo", when);
+  if (!command) return null;
+  return `tell application "Things3"
+  set toDo to to do id "${escapeAS(uuid)}"
+  ${command}
+end tell`;
+}
+
+/** `set ... of` commands for the properties an update gives */
+function updateTodoCommands(variable: string, req: UpdateTodoRequest): string[] {
+  const commands: string[] = [];
+
+  if (req.title) {
+    commands.push(`set name of ${variable} to "${escapeAS(req.title)}"`);
+  }
+  if (req.notes !== undefined) {
+    commands.push(`set notes of ${variable} to "${escapeAS(req.notes)}"`);
+  }
+  if (req.tags) {
+    commands.push(
+      `set tag names of ${variable} to "${escapeAS(req.tags.join(", "))}"`
+    );
+  }
+  if (req.deadline) {
+    commands.push(`set due date of ${variable} to date "${escapeAS(req.deadline)}"`);
+  }
+  return commands;
+}
+
+/** Set a to-do's properties (title, notes, tags, deadline) */
+export function updateTodoScript(uuid: string, req: UpdateTodoRequest): string {
+  const commands: string[] = [
+    `set toDo to to do id "${escapeAS(uuid)}"`,
+    ...updateTodoCommands("toDo", req),
+  ];
+
+  return `tell application "Things3"
+  ${commands.join("\n  ")}
+end tell`;
+}
+
+/** The built-in list an update's `when` moves the to-do to, if any */
+export function whenToList(when: string): string | null {
+  switch (when) {
+    case "today":
+      return "Today";
+    case "someday":
+      return "Someday";
+    case "anytime":
+      return "Anytime";
+    default:
+      return null;
+  }
+}
+
+/** The `move` target for a built-in list ("today", "Someday", ...) or a project title */
+function moveTarget(destination: string): string {
+  const builtIn = BUILT_IN_LISTS[destination.toLowerCase()];
+  return builtIn ? `list "${builtIn}"` : `project "${escapeAS(destination)}"`;
+}
+
+/** Move a to-do to a built-in list ("today", "Someday", ...) or a project title */
+export function moveTodoScript(uuid: string, destination: string): string {
+  return `tell application "Things3"
+  move to do id "${escapeAS(uuid)}" to ${moveTarget(destination)}
+end tell`;
+}
+
+export function completeTodoScript(uuid: string): string {
+  return `tell application "Things3"
+  set status of to do id "${escapeAS(uuid)}" to completed
+end tell`;
+}
+
+export function cancelTodoScript(uuid: string): string {
+  return `tell application "Things3"
+  set status of to do id "${escapeAS(uuid)}" to canceled
+end tell`;
+}
+
+export function deleteTodoScript(uuid: string): string {
+  // Use move to Trash — works for both incomplete and completed to-dos
+  return `tell application "Things3"
+  move to do id "${escapeAS(uuid)}" to list "Trash"
+end tell`;
+}
+
+// ─── Batch Scripts ───
+
+/** Commands for one batch operation; they leave the to-do in `theToDo` */
+function batchOperationCommands(op: BatchOperation): string[] {
+  switch (op.op) {
+    case "create": {
+      const commands = [makeTodoCommand("theToDo", op.data)];
+      const schedule = op.data.when ? scheduleCommand("theToDo", op.data.when) : null;
+      // Scheduling failures are ignored, as for a single create
+      if (schedule) commands.push("try", `  ${schedule}`, "end try");
+      return commands;
+    }
+    case "update": {
+      const commands = [
+        `set theToDo to to do id "${escapeAS(op.uuid)}"`,
+        ...updateTodoCommands("theToDo", op.data),
+      ];
+      const list = op.data.when ? whenToList(op.data.when) : null;
+      if (list) commands.push(`move theToDo to list "${list}"`);
+      return commands;
+    }
+    case "complete":
+      return [
+        `set theToDo to to do id "${escapeAS(op.uuid)}"`,
+        `set status of theToDo to completed`,
+      ];
+    case "move":
+      return [
+        `set theToDo to to do id "${escapeAS(op.uuid)}"`,
+        `move theToDo to ${moveTarget(op.list)}`,
+      ];
+  }
+}
+
+/**
+ * Compile to-do operations into a single script that runs them in order.
+ * Each one reports a line: "ok<tab>id", "error<tab>message", or "skipped"
+ * once an earlier operation failed and `stopOnError` is set.
+ */
+export function batchScript(ops: BatchOperation[], stopOnError: boolean): string {
+  const lines = ["set results to {}"];
+  if (stopOnError) lines.push("set failed to false");
+  for (const op of ops) {
+    const body = [
+      "try",
+      ...batchOperationCommands(op).map((command) => `  ${command}`),
+      `  set end of results to "ok" & tab & (id of theToDo)`,
+      "on error errMsg",
+      `  set end of results to "error" & tab & errMsg`,
+      ...(stopOnError ? ["  set failed to true"] : []),
+      "end try",
+    ];
+    if (stopOnError) {
+      lines.push(
+        "if failed then",
+        `  set end of results to "skipped"`,
+        "else",
+        ...body.map((line) => `  ${line}`),
+        "end if"
+      );
+    } else {
+      lines.push(...body);
+    }
+  }
+  lines.push("set AppleScript's text item delimiters to linefeed", "return results as text");
+
+  return `tell application "Things3"
+  ${lines.join("\n  ")}
+end tell`;
+}
+
+/** One operation's outcome as reported by a batch script */
+export interface BatchScriptResult {
+  status: "ok" | "error" | "skipped";
+  id?: string;
+  error?: string;
+}
+
+/**
+ * Read a batch script's output back into one result per operation. Error
+ * messages can span lines, so anything that doesn't start a new result
+ * belongs to the one before it.
+ */
+export function parseBatchOutput(output: string, count: number): BatchScriptResult[] {
+  const results: BatchScriptResult[] = [];
+  for (const line of output.split("\n")) {
+    const [status, ...rest] = line.split("\t");
+    if (status === "ok") {
+      results.push({ status, id: rest.join("\t") });
+    } else if (status === "error") {
+      results.push({ status, error: rest.join("\t") });
+    } else if (status === "skipped") {
+      results.push({ status });
+    } else if (results.at(-1)?.error !== undefined) {
+      results.at(-1)!.error += `\n${line}`;
+    }
+  }
+  if (results.length !== count) {
+    throw new Error(`Batch script reported ${results.length} results for ${count} operations`);
+  }
+  return results;
+}
+
+// ─── Things URLs ───
+
+/**
+ * Things JSON URL that updates a single to-do. Used for what AppleScript
+ * can't reach (checklist items, headings); updates require the auth token.
+ */
+function updateTodoUrl(
+  uuid: string,
+  attributes: Record<string, unknown>,
+  authToken: string
+): string {
+  const data = [{ type: "to-do", operation: "update", id: uuid, attributes }];
+  return thingsUrl("json", {
+    "auth-token": authToken,
+    data: JSON.stringify(data),
+  });
+}
+
+/** Replace a to-do's checklist */
+export function checklistUrl(
+  uuid: string,
+  items: ChecklistItemInput[],
+  authToken: string
+): string {
+  return updateTodoUrl(
+    uuid,
+    {
+      "checklist-items": items.map((item) => ({
+        type: "checklist-item",
+        attributes: {
+          title: item.title,
+          completed: item.status === "completed",
+          canceled: item.status === "canceled",
+        },
+      })),
+    },
+    authToken
+  );
+}
+
+/** File a to-do under a heading of the project it's already in */
+export function headingUrl(
+  uuid: string,
+  headingUuid: string,
+  authToken: string
+): string {
+  return updateTodoUrl(uuid, { "heading-id": headingUuid }, authToken);
+}
+
+function thingsUrl(command: string, params: Record<string, string>): string {
+  const query = Object.entries(params)
+    .map(([key, value]) => `${key}=${encodeURIComponent(value)}`)
+    .join("&");
+  return `things:///${command}?${query}`;
+}
+
+// ─── Project Scripts ───
+
+/**
+ * Create a project and its child to-dos in one script; returns the new
+ * project's id. A child to-do that fails doesn't stop the others.
+ */
+export function createProjectScript(req: CreateProjectRequest): string {
+  const props: string[] = [`name:"${escapeAS(req.title)}"`];
+
+  if (req.notes) {
+    props.push(`notes:"${escapeAS(req.notes)}"`);
+  }
+  if (req.tags && req.tags.length > 0) {
+    props.push(`tag names:"${escapeAS(req.tags.join(", "))}"`);
+  }
+
+  let location = "";
+  if (req.area) {
+    location = ` at beginning of area "${escapeAS(req.area)}"`;
+  }
+
+  const commands = [
+    `set newProject to make new project with properties {${props.join(", ")}}${location}`,
+  ];
+  for (const title of req.todos ?? []) {
+    commands.push(
+      "try",
+      `  make new to do with properties {name:"${escapeAS(title)}"} at beginning of newProject`,
+      "end try"
+    );
+  }
+
+  return `tell application "Things3"
+  ${commands.join("\n  ")}
+  return id of newProject
+end tell`;
+}
+
+export function completeProjectScript(uuid: string): string {
+  return `tell application "Things3"
+  set status of project id "${escapeAS(uuid)}" to completed
+end tell`;
+}
+
+export function deleteProjectScript(uuid: string): string {
+  return `tell application "Things3"
+  move project id "${escapeAS(uuid)}" to list "Trash"
+end tell`;
+}
+
+// ─── Restore Scripts ───
+
+const STATUS_VALUES: Record<Todo["status"], string> = {
+  incomplete: "open",
+  completed: "completed",
+  canceled: "canceled",
+};
+
+/**
+ * Commands that put a to-do or project back the way `before` had it: its
+ * properties, its place (project, area or start list — which also takes it
+ * out of the Trash), its schedule and its status.
+ */
+function restoreCommands(variable: string, before: Todo | Project): string[] {
+  const project = "project" in before ? before.project : null;
+  const container = project
+    ? `project id "${escapeAS(project)}"`
+    : before.area
+      ? `area id "${escapeAS(before.area)}"`
+      : `list "${before.start ?? "Anytime"}"`;
+
+  const commands = [
+    `set name of ${variable} to "${escapeAS(before.title)}"`,
+    `set notes of ${variable} to "${escapeAS(before.notes)}"`,
+    `set tag names of ${variable} to "${escapeAS(before.tags.join(", "))}"`,
+    before.deadline
+      ? `set due date of ${variable} to date "${escapeAS(before.deadline)}"`
+      : `set due date of ${variable} to missing value`,
+    `move ${variable} to ${container}`,
+  ];
+  if (before.startDate) {
+    commands.push(`schedule ${variable} for date "${escapeAS(before.startDate)}"`);
+  } else if (before.start === "Someday" && (project || before.area)) {
+    commands.push(`move ${variable} to list "Someday"`);
+  }
+  commands.push(`set status of ${variable} to ${STATUS_VALUES[before.status]}`);
+  return commands;
+}
+
+/** Put a to-do back the way it was (heading and checklist go through URLs) */
+export function restoreTodoScript(uuid: string, before: Todo): string {
+  return `tell application "Things3"
+  set toDo to to do id "${escapeAS(uuid)}"
+  ${restoreCommands("toDo", before).join("\n  ")}
+end tell`;
+}
+
+/** Put a project back the way it was */
+export function restoreProjectScript(uuid: string, before: Project): string {
+  return `tell application "Things3"
+  set theProject to project id "${escapeAS(uuid)}"
+  ${restoreCommands("theProject", before).join("\n  ")}
+end tell`;
+}
+
+// ─── Area Scripts ───
+
+/** Create an area; the script returns the new area's id */
+export function createAreaScript(req: CreateAreaRequest): string {
+  const props: string[] = [`name:"${escapeAS(req.title)}"`];
+
+  if (req.tags && req.tags.length > 0) {
+    props.push(`tag names:"${escapeAS(req.tags.join(", "))}"`);
+  }
+
+  return `tell application "Things3"
+  set newArea to make new area with properties {${props.join(", ")}}
+  return id of newArea
+end tell`;
+}
+
+/** Rename an area and/or replace its tags */
+export function updateAreaScript(uuid: string, req: UpdateAreaRequest): string {
+  const commands: string[] = [`set theArea to area id "${escapeAS(uuid)}"`];
+
+  if (req.title) {
+    commands.push(`set name of theArea to "${escapeAS(req.title)}"`);
+  }
+  if (req.tags) {
+    commands.push(
+      `set tag names of theArea to "${escapeAS(req.tags.join(", "))}"`
+    );
+  }
+
+  return `tell application "Things3"
+  ${commands.join("\n  ")}
+end tell`;
+}
+
+/** Delete an area — Things moves its projects and to-dos to the Trash */
+export function deleteAreaScript(uuid: string): string {
+  return `tell application "Things3"
+  delete area id "${escapeAS(uuid)}"
+end tell`;
+}
+
+// ─── Tag Scripts ───
+
+/** Create a tag (optionally nested under a parent); the script returns its id */
+export function createTagScript(req: CreateTagRequest): string {
+  const props: string[] = [`name:"${escapeAS(req.title)}"`];
+
+  if (req.shortcut) {
+    props.push(`keyboard shortcut:"${escapeAS(req.shortcut)}"`);
+  }
+
+  const commands = [`set newTag to make new tag with properties {${props.join(", ")}}`];
+  if (req.parent) {
+    commands.push(`set parent tag of newTag to tag "${escapeAS(req.parent)}"`);
+  }
+
+  return `tell application "Things3"
+  ${commands.join("\n  ")}
+  return id of newTag
+end tell`;
+}
+
+/** Rename, re-parent, and/or change the shortcut of a tag */
+export function updateTagScript(uuid: string, req: UpdateTagRequest): string {
+  const commands: string[] = [`set theTag to tag id "${escapeAS(uuid)}"`];
+
+  if (req.title) {
+    commands.push(`set name of theTag to "${escapeAS(req.title)}"`);
+  }
+  if (req.parent !== undefined) {
+    commands.push(
+      req.parent === null
+        ? `set parent tag of theTag to missing value`
+        : `set parent tag of theTag to tag "${escapeAS(req.parent)}"`
+    );
+  }
+  if (req.shortcut !== undefined) {
+    commands.push(
+      `set keyboard shortcut of theTag to "${escapeAS(req.shortcut ?? "")}"`
+    );
+  }
+
+  return `tell application "Things3"
+  ${commands.join("\n  ")}
+end tell`;
+}
+
+/** Delete a tag — Things deletes its nested tags with it */
+export function deleteTagScript(uuid: string): string {
+  return `tell application "Things3"
+  delete tag id "${escapeAS(uuid)}"
+end tell`;
+}
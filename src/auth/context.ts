@@ -0,0 +1,24 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { ROOT_TOKEN } from "./tokens";
+import type { ApiToken } from "../types";
+
+// ─── Request Context ───
+
+// The token a request was authorized with, carried through everything the
+// request does so queries can apply its area/tag visibility without every
+// function taking it as a parameter.
+
+const storage = new AsyncLocalStorage<ApiToken>();
+
+/** Run `task` on behalf of `token` */
+export function runAsToken<T>(token: ApiToken, task: () => T): T {
+  return storage.run(token, task);
+}
+
+/**
+ * The token the current request was authorized with. Outside a request
+ * (snapshots, webhook deliveries) nothing is hidden.
+ */
+export function currentToken(): ApiToken {
+  return storage.getStore() ?? ROOT_TOKEN;
+}
@@ -0,0 +1,73 @@
+import { describe, test, expect, afterAll, spyOn } from "bun:test";
+import * as crypto from "crypto";
+import { startTestBridge, stopTestBridge, send, TEST_TOKEN } from "../testing";
+
+// ─── Fixture ───
+
+await startTestBridge({
+  areas: [
+    { uuid: "area-work", title: "Work" },
+    { uuid: "area-home", title: "Home" },
+  ],
+  tasks: [
+    { uuid: "anytime-1", title: "Read a book", start: "anytime", area: "area-home" },
+    { uuid: "today-1", title: "Write report", start: "anytime", area: "area-work" },
+  ],
+});
+
+const { authenticateToken, ROOT_TOKEN } = await import("./tokens");
+
+afterAll(stopTestBridge);
+
+async function createToken(body: unknown): Promise<string> {
+  const created = await send("POST", "/v1/tokens", body);
+  expect(created.status).toBe(201);
+  return (await created.json()).data.secret;
+}
+
+// ─── Scoped Tokens ───
+
+describe("scoped tokens", () => {
+  test("a token limited to an area sees and files only there, within its scopes", async () => {
+    const secret = await createToken({ name: "family-agent", scopes: ["read", "write"], areas: ["Home"] });
+    const as = (method: string, path: string, body?: unknown) =>
+      send(method, path, body, { token: secret });
+
+    expect((await as("GET", "/v1/todos/anytime-1")).status).toBe(200);
+    expect((await as("GET", "/v1/todos/today-1")).status).toBe(404);
+    const areas = await (await as("GET", "/v1/areas")).json();
+    expect(areas.data.map((area: { title: string }) => area.title)).toEqual(["Home"]);
+
+    expect((await as("DELETE", "/v1/todos/anytime-1")).status).toBe(403);
+    expect((await as("POST", "/v1/todos", { title: "Sneak in", list: "Work" })).status).toBe(404);
+    expect((await as("POST", "/v1/todos", { title: "Sneak in", list: "inbox" })).status).toBe(403);
+    expect((await as("GET", "/v1/tokens")).status).toBe(403);
+  });
+
+  test("revoked and unknown tokens are refused", async () => {
+    const created = await send("POST", "/v1/tokens", { name: "short-lived", scopes: ["read"] });
+    const { id, secret } = (await created.json()).data;
+    expect((await send("GET", "/v1/areas", undefined, { token: secret })).status).toBe(200);
+
+    expect((await send("DELETE", `/v1/tokens/${id}`)).status).toBe(200);
+    expect((await send("GET", "/v1/areas", undefined, { token: secret })).status).toBe(403);
+    expect((await send("GET", "/v1/areas", undefined, { token: null })).status).toBe(401);
+  });
+});
+
+// ─── Secrets ───
+
+describe("THINGS_BRIDGE_TOKEN", () => {
+  test("is compared in constant time, whatever the length of what's sent", () => {
+    const compare = spyOn(crypto, "timingSafeEqual");
+    try {
+      expect(authenticateToken(TEST_TOKEN)).toBe(ROOT_TOKEN);
+      for (const guess of ["", "test-tok", "test-tokeN", `${TEST_TOKEN}-and-more`]) {
+        expect(authenticateToken(guess)).toBeNull();
+      }
+      expect(compare).toHaveBeenCalledTimes(5);
+    } finally {
+      compare.mockRestore();
+    }
+  });
+});
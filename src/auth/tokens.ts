@@ -0,0 +1,170 @@
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from "crypto";
+import { config } from "../config";
+import { getStateDb } from "../state/db";
+import { queryPage } from "../pagination";
+import type { ApiToken, CreateTokenRequest, Page, PageRequest, TokenScope } from "../types";
+
+// ─── Constants ───
+
+export const TOKEN_SCOPES: TokenScope[] = ["read", "write", "delete", "admin"];
+
+/** THINGS_BRIDGE_TOKEN: every scope, everything visible */
+export const ROOT_TOKEN: ApiToken = {
+  id: "root",
+  name: "THINGS_BRIDGE_TOKEN",
+  scopes: ["admin"],
+  areas: [],
+  excludeAreas: [],
+  tags: [],
+  excludeTags: [],
+  rateLimits: {},
+  createdAt: new Date(0).toISOString(),
+  lastUsedAt: null,
+};
+
+/** last_used_at is only written once a minute per token */
+const LAST_USED_RESOLUTION_SECONDS = 60;
+
+// ─── Row Mapping ───
+
+interface TokenRow {
+  id: string;
+  name: string;
+  secret_hash: string;
+  scopes: string;
+  areas: string;
+  exclude_areas: string;
+  tags: string;
+  exclude_tags: string;
+  rate_limits: string;
+  created_at: number;
+  last_used_at: number | null;
+}
+
+function isoFromUnix(unix: number | null): string | null {
+  return unix === null ? null : new Date(unix * 1000).toISOString();
+}
+
+function mapToken(row: TokenRow): ApiToken {
+  return {
+    id: row.id,
+    name: row.name,
+    scopes: JSON.parse(row.scopes),
+    areas: JSON.parse(row.areas),
+    excludeAreas: JSON.parse(row.exclude_areas),
+    tags: JSON.parse(row.tags),
+    excludeTags: JSON.parse(row.exclude_tags),
+    rateLimits: JSON.parse(row.rate_limits),
+    createdAt: isoFromUnix(row.created_at)!,
+    lastUsedAt: isoFromUnix(row.last_used_at),
+  };
+}
+
+function hashSecret(secret: string): string {
+  return createHash("sha256").update(secret).digest("hex");
+}
+
+const nowUnix = () => Date.now() / 1000;
+
+// ─── Scopes & Visibility ───
+
+/** Whether a token holds a scope; admin holds them all */
+export function hasScope(token: ApiToken, scope: TokenScope): boolean {
+  return token.scopes.includes("admin") || token.scopes.includes(scope);
+}
+
+/** Whether a token is limited to some areas or tags */
+export function isRestricted(
+  token: Pick<ApiToken, "areas" | "excludeAreas" | "tags" | "excludeTags">
+): boolean {
+  return (
+    token.areas.length > 0 ||
+    token.excludeAreas.length > 0 ||
+    token.tags.length > 0 ||
+    token.excludeTags.length > 0
+  );
+}
+
+// ─── Registry ───
+
+export function listTokens(page?: PageRequest): Page<ApiToken> {
+  const rows = queryPage<TokenRow>(
+    getStateDb(),
+    `SELECT * FROM api_tokens`,
+    [{ column: "created_at" }, { column: "id" }],
+    [],
+    page
+  );
+  return { ...rows, items: rows.items.map(mapToken) };
+}
+
+export function getToken(id: string): ApiToken | null {
+  const row = getStateDb()
+    .query<TokenRow, [string]>(`SELECT * FROM api_tokens WHERE id = ?`)
+    .get(id);
+  return row ? mapToken(row) : null;
+}
+
+export function getTokenByName(name: string): ApiToken | null {
+  const row = getStateDb()
+    .query<TokenRow, [string]>(`SELECT * FROM api_tokens WHERE name = ?`)
+    .get(name);
+  return row ? mapToken(row) : null;
+}
+
+/** Register a token; its secret is returned here and never again */
+export function createToken(input: CreateTokenRequest): { token: ApiToken; secret: string } {
+  const id = randomUUID();
+  const secret = `tb_${randomBytes(32).toString("base64url")}`;
+  getStateDb()
+    .query(
+      `INSERT INTO api_tokens
+         (id, name, secret_hash, scopes, areas, exclude_areas, tags, exclude_tags,
+          rate_limits, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(
+      id,
+      input.name,
+      hashSecret(secret),
+      JSON.stringify(input.scopes),
+      JSON.stringify(input.areas ?? []),
+      JSON.stringify(input.excludeAreas ?? []),
+      JSON.stringify(input.tags ?? []),
+      JSON.stringify(input.excludeTags ?? []),
+      JSON.stringify(input.rateLimits ?? {}),
+      nowUnix()
+    );
+  return { token: getToken(id)!, secret };
+}
+
+/** Revoke a token; false if there's no such token */
+export function deleteToken(id: string): boolean {
+  const { changes } = getStateDb()
+    .query(`DELETE FROM api_tokens WHERE id = ?`)
+    .run(id);
+  return changes > 0;
+}
+
+/** Compare secrets in constant time (digests, so lengths match too) */
+function secretsMatch(a: string, b: string): boolean {
+  return timingSafeEqual(createHash("sha256").update(a).digest(), createHash("sha256").update(b).digest());
+}
+
+/** The token a bearer secret belongs to, or null */
+export function authenticateToken(secret: string): ApiToken | null {
+  if (config.token && secretsMatch(secret, config.token)) return ROOT_TOKEN;
+
+  const db = getStateDb();
+  const row = db
+    .query<TokenRow, [string]>(`SELECT * FROM api_tokens WHERE secret_hash = ?`)
+    .get(hashSecret(secret));
+  if (!row) return null;
+
+  const now = nowUnix();
+  if (row.last_used_at === null || row.last_used_at < now - LAST_USED_RESOLUTION_SECONDS) {
+    db.query(`UPDATE api_tokens SET last_used_at = ? WHERE id = ?`).run(now, row.id);
+    row.last_used_at = now;
+  }
+  return mapToken(row);
+}
@@ -0,0 +1,78 @@
+import { currentToken } from "./context";
+import { isRestricted } from "./tokens";
+import { findArea, findProject, filterVisible, getProjectSummary } from "../db/queries";
+import { BUILT_IN_LISTS } from "../applescript/scripts";
+import type { Todo } from "../types";
+
+// ─── Placement ───
+
+/** Why a write was refused: 404 for targets the token can't see, else 403 */
+export interface PlacementError {
+  status: 403 | 404;
+  error: string;
+}
+
+// Reads are filtered in SQL, but writes go through AppleScript, which sees
+// everything. These checks keep a token limited to some areas or tags from
+// filing anything where it couldn't see it afterwards.
+
+/** Why the current token can't file an item there, or null if it may */
+function placementError(area: string | null, tags: string[]): PlacementError | null {
+  const token = currentToken();
+  const forbidden = (reason: string): PlacementError => ({
+    status: 403,
+    error: `Token "${token.name}" ${reason}`,
+  });
+  if (token.areas.length > 0 && !area) return forbidden("can only file items in its areas");
+  if (area && !filterVisible("area", [area]).has(area)) {
+    return forbidden("can't file items in that area");
+  }
+  if (token.tags.length > 0 && !tags.some((tag) => token.tags.includes(tag))) {
+    return forbidden(`needs one of these tags: ${token.tags.join(", ")}`);
+  }
+  const excluded = tags.find((tag) => token.excludeTags.includes(tag));
+  return excluded ? forbidden(`can't use the tag: ${excluded}`) : null;
+}
+
+/**
+ * Check a to-do may be filed in `list` (a built-in list, or a project or
+ * area title) with `tags`. Built-in lists and no list keep its current place.
+ */
+export function checkTodoPlacement(
+  list: string | undefined,
+  tags: string[],
+  current?: Todo
+): PlacementError | null {
+  if (!isRestricted(currentToken())) return null;
+
+  // The Inbox takes a to-do out of its project and area
+  if (list?.toLowerCase() === "inbox") return placementError(null, tags);
+  if (!list || BUILT_IN_LISTS[list.toLowerCase()]) {
+    const project = current?.project ? getProjectSummary(current.project) : null;
+    return placementError(current?.area ?? project?.area ?? null, [
+      ...tags,
+      ...(project?.tags ?? []),
+    ]);
+  }
+
+  const found = findProject(list);
+  if (found) {
+    const project = getProjectSummary(found.uuid)!;
+    return placementError(project.area, [...tags, ...project.tags]);
+  }
+  const area = findArea(list);
+  if (area) return placementError(area.uuid, tags);
+  return { status: 404, error: `Project not found: ${list}` };
+}
+
+/** Check a project may be created in `area` (a title) with `tags` */
+export function checkProjectPlacement(
+  area: string | undefined,
+  tags: string[]
+): PlacementError | null {
+  if (!isRestricted(currentToken())) return null;
+
+  const found = area ? findArea(area) : null;
+  if (area && !found) return { status: 404, error: `Area not found: ${area}` };
+  return placementError(found?.uuid ?? null, tags);
+}
@@ -0,0 +1,63 @@
+// ─── Write Errors ───
+
+/** Why a write failed, as reported to API clients in `code` */
+export type WriteErrorCode =
+  | "things_not_running"
+  | "timeout"
+  | "not_found"
+  | "invalid_input"
+  | "permission_denied"
+  | "write_failed";
+
+/** HTTP status for each code */
+export const WRITE_ERROR_STATUS: Record<WriteErrorCode, number> = {
+  things_not_running: 503,
+  timeout: 504,
+  not_found: 404,
+  invalid_input: 400,
+  permission_denied: 503,
+  write_failed: 500,
+};
+
+/** A failed write, classified so callers can tell transient failures from real ones */
+export class WriteError extends Error {
+  constructor(
+    readonly code: WriteErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = "WriteError";
+  }
+
+  /** Nothing reached Things, or it may not have — worth trying again */
+  get transient(): boolean {
+    return this.code === "things_not_running" || this.code === "timeout";
+  }
+}
+
+/**
+ * AppleScript error numbers, as they end osascript's stderr
+ * ("... Can't get to do id "x". (-1728)").
+ */
+const APPLESCRIPT_ERRORS: Record<number, WriteErrorCode> = {
+  [-600]: "things_not_running", // application isn't running
+  [-609]: "things_not_running", // connection is invalid (Things quit mid-event)
+  [-10810]: "things_not_running", // Launch Services couldn't launch it
+  [-1712]: "timeout", // AppleEvent timed out
+  [-1728]: "not_found", // can't get object
+  [-1719]: "not_found", // invalid index
+  [-30720]: "invalid_input", // invalid date and time
+  [-1700]: "invalid_input", // can't make into type
+  [-1743]: "permission_denied", // not authorized to send Apple events
+};
+
+/** Classify an error from a backend; anything unrecognised is `write_failed` */
+export function toWriteError(err: unknown): WriteError {
+  if (err instanceof WriteError) return err;
+  const message = err instanceof Error ? err.message : String(err);
+  const number = message.match(/\((-\d+)\)\s*$/)?.[1];
+  return new WriteError(
+    (number && APPLESCRIPT_ERRORS[Number(number)]) || "write_failed",
+    message
+  );
+}
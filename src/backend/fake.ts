@@ -0,0 +1,693 @@
+import { Database } from "bun:sqlite";
+import { config } from "../config";
+import { createThingsSchema } from "../db/schema";
+import { stringToThingsScheduleDate, findHeading, getTodoByUuid } from "../db/queries";
+import {
+  createTodoScript,
+  scheduleTodoScript,
+  updateTodoScript,
+  whenToList,
+  moveTodoScript,
+  completeTodoScript,
+  cancelTodoScript,
+  deleteTodoScript,
+  checklistUrl,
+  headingUrl,
+  createProjectScript,
+  completeProjectScript,
+  deleteProjectScript,
+  restoreTodoScript,
+  restoreProjectScript,
+  createAreaScript,
+  updateAreaScript,
+  deleteAreaScript,
+  createTagScript,
+  updateTagScript,
+  deleteTagScript,
+  batchScript,
+  BUILT_IN_LISTS,
+} from "../applescript/scripts";
+import { WriteError } from "./errors";
+import type { WriteBackend, BatchOutcome } from ".";
+import type {
+  CreateTodoRequest,
+  CreateProjectRequest,
+  UpdateTodoRequest,
+  CreateAreaRequest,
+  UpdateAreaRequest,
+  CreateTagRequest,
+  UpdateTagRequest,
+  ChecklistItemInput,
+  BatchOperation,
+  Todo,
+  Project,
+} from "../types";
+
+// ─── Fake Write Backend ───
+
+/** A command the AppleScript backend would have sent to the Mac */
+export interface SentCommand {
+  kind: "applescript" | "url";
+  body: string;
+}
+
+export interface FakeBackend extends WriteBackend {
+  /** Every script/URL that would have been executed, in order */
+  readonly sent: SentCommand[];
+}
+
+/** Task status/type values — same encoding as db/queries.ts */
+const STATUS = { INCOMPLETE: 0, CANCELED: 2, COMPLETED: 3 } as const;
+const TYPE = { TODO: 0, PROJECT: 1 } as const;
+const START = { Inbox: 0, Anytime: 1, Someday: 2 } as const;
+
+/** Status names (to-dos, projects, checklist items) to values */
+const STATUS_VALUES = {
+  incomplete: STATUS.INCOMPLETE,
+  canceled: STATUS.CANCELED,
+  completed: STATUS.COMPLETED,
+} as const;
+
+function nowUnix(): number {
+  return Date.now() / 1000;
+}
+
+/** Today as YYYY-MM-DD (UTC, matching the read side's calibration) */
+function todayString(offsetDays = 0): string {
+  return new Date(Date.now() + offsetDays * 86400000)
+    .toISOString()
+    .split("T")[0];
+}
+
+/**
+ * Create a backend that applies every mutation directly to a SQLite file laid
+ * out like the Things database, and records the scripts the AppleScript
+ * backend would have run. Point THINGS_DB_PATH at the same file so reads see
+ * the writes — this runs the whole HTTP API without a Mac.
+ */
+export function createFakeBackend(dbPath: string): FakeBackend {
+  const db = new Database(dbPath, { create: true });
+  createThingsSchema(db);
+
+  const sent: SentCommand[] = [];
+
+  function record(kind: SentCommand["kind"], body: string): void {
+    sent.push({ kind, body });
+  }
+
+  // ─── Lookups (mirror AppleScript's "Can't get ..." errors) ───
+
+  function requireTask(uuid: string, type: number): void {
+    const row = db
+      .query<{ uuid: string }, [string, number]>(
+        `SELECT uuid FROM TMTask WHERE uuid = ? AND type = ?`
+      )
+      .get(uuid, type);
+    if (!row) {
+      const kind = type === TYPE.PROJECT ? "project" : "to do";
+      throw new Error(`Can't get ${kind} id "${uuid}". (-1728)`);
+    }
+  }
+
+  function projectByTitle(title: string): string {
+    const row = db
+      .query<{ uuid: string }, [string]>(
+        `SELECT uuid FROM TMTask
+         WHERE type = ${TYPE.PROJECT} AND trashed = 0 AND title = ?
+         ORDER BY creationDate DESC LIMIT 1`
+      )
+      .get(title);
+    if (!row) throw new Error(`Can't get project "${title}". (-1728)`);
+    return row.uuid;
+  }
+
+  function areaByTitle(title: string): string {
+    const row = db
+      .query<{ uuid: string }, [string]>(
+        `SELECT uuid FROM TMArea WHERE title = ? LIMIT 1`
+      )
+      .get(title);
+    if (!row) throw new Error(`Can't get area "${title}". (-1728)`);
+    return row.uuid;
+  }
+
+  function scheduleValue(date: string): number {
+    const value = stringToThingsScheduleDate(date);
+    if (Number.isNaN(value)) {
+      throw new Error(`Invalid date and time date "${date}". (-30720)`);
+    }
+    return value;
+  }
+
+  // ─── Mutations ───
+
+  function touch(uuid: string): void {
+    db.query(`UPDATE TMTask SET userModificationDate = ? WHERE uuid = ?`).run(
+      nowUnix(),
+      uuid
+    );
+  }
+
+  /** Find a tag by title, creating it like `set tag names` does */
+  function tagUuid(name: string): string {
+    const tag = db
+      .query<{ uuid: string }, [string]>(`SELECT uuid FROM TMTag WHERE title = ?`)
+      .get(name);
+    if (tag) return tag.uuid;
+    const uuid = crypto.randomUUID();
+    db.query(`INSERT INTO TMTag (uuid, title) VALUES (?, ?)`).run(uuid, name);
+    return uuid;
+  }
+
+  /** Replace a task's tags */
+  function setTags(uuid: string, names: string[]): void {
+    db.query(`DELETE FROM TMTaskTag WHERE tasks = ?`).run(uuid);
+    for (const name of names) {
+      db.query(`INSERT INTO TMTaskTag (tasks, tags) VALUES (?, ?)`).run(
+        uuid,
+        tagUuid(name)
+      );
+    }
+  }
+
+  /** Replace an area's tags */
+  function setAreaTags(uuid: string, names: string[]): void {
+    db.query(`DELETE FROM TMAreaTag WHERE areas = ?`).run(uuid);
+    for (const name of names) {
+      db.query(`INSERT INTO TMAreaTag (areas, tags) VALUES (?, ?)`).run(
+        uuid,
+        tagUuid(name)
+      );
+    }
+  }
+
+  function tagByTitle(title: string): string {
+    const row = db
+      .query<{ uuid: string }, [string]>(`SELECT uuid FROM TMTag WHERE title = ?`)
+      .get(title);
+    if (!row) throw new Error(`Can't get tag "${title}". (-1728)`);
+    return row.uuid;
+  }
+
+  function requireTag(uuid: string): void {
+    const row = db
+      .query<{ uuid: string }, [string]>(`SELECT uuid FROM TMTag WHERE uuid = ?`)
+      .get(uuid);
+    if (!row) throw new Error(`Can't get tag id "${uuid}". (-1728)`);
+  }
+
+  function requireArea(uuid: string): void {
+    const row = db
+      .query<{ uuid: string }, [string]>(`SELECT uuid FROM TMArea WHERE uuid = ?`)
+      .get(uuid);
+    if (!row) throw new Error(`Can't get area id "${uuid}". (-1728)`);
+  }
+
+  /** Put a task in a built-in list or project, the way `move ... to` would */
+  function placeTask(uuid: string, destination: string): void {
+    switch (BUILT_IN_LISTS[destination.toLowerCase()]) {
+      case "Inbox":
+        db.query(
+          `UPDATE TMTask SET start = 0, startDate = NULL, startBucket = 0,
+             project = NULL, heading = NULL WHERE uuid = ?`
+        ).run(uuid);
+        break;
+      case "Today":
+        scheduleTask(uuid, todayString());
+        break;
+      case "Anytime":
+      case "Upcoming":
+        db.query(
+          `UPDATE TMTask SET start = 1, startDate = NULL, startBucket = 0 WHERE uuid = ?`
+        ).run(uuid);
+        break;
+      case "Someday":
+        db.query(
+          `UPDATE TMTask SET start = 2, startDate = NULL, startBucket = 0 WHERE uuid = ?`
+        ).run(uuid);
+        break;
+      default:
+        // Project — leaves the Inbox, keeps any existing schedule
+        db.query(
+          `UPDATE TMTask SET project = ?, heading = NULL,
+             start = CASE WHEN start = 0 THEN 1 ELSE start END
+           WHERE uuid = ?`
+        ).run(projectByTitle(destination), uuid);
+    }
+  }
+
+  /** Future dates stay in the Someday start until they arrive, as in Things */
+  function scheduleTask(uuid: string, date: string): void {
+    const start = date > todayString() ? 2 : 1;
+    db.query(
+      `UPDATE TMTask SET start = ?, startDate = ?, startBucket = 0 WHERE uuid = ?`
+    ).run(start, scheduleValue(date), uuid);
+  }
+
+  function setStatus(uuid: string, status: number): void {
+    db.query(
+      `UPDATE TMTask SET status = ?, stopDate = ?, userModificationDate = ? WHERE uuid = ?`
+    ).run(status, status === STATUS.INCOMPLETE ? null : nowUnix(), nowUnix(), uuid);
+  }
+
+  function insertTask(
+    type: number,
+    props: { title: string; notes?: string; deadline?: string; area?: string; project?: string }
+  ): string {
+    const uuid = crypto.randomUUID();
+    const now = nowUnix();
+    db.query(
+      `INSERT INTO TMTask
+         (uuid, type, status, trashed, title, notes, start, startBucket,
+          deadline, area, project, creationDate, userModificationDate)
+       VALUES (?, ?, ${STATUS.INCOMPLETE}, 0, ?, ?, ?, 0, ?, ?, ?, ?, ?)`
+    ).run(
+      uuid,
+      type,
+      props.title,
+      props.notes ?? "",
+      props.project || type === TYPE.PROJECT ? 1 : 0,
+      props.deadline ? scheduleValue(props.deadline) : null,
+      props.area ?? null,
+      props.project ?? null,
+      now,
+      now
+    );
+    return uuid;
+  }
+
+  // ─── WriteBackend ───
+
+  async function setChecklist(
+    uuid: string,
+    items: ChecklistItemInput[]
+  ): Promise<boolean> {
+    record("url", checklistUrl(uuid, items, config.thingsAuthToken));
+    requireTask(uuid, TYPE.TODO);
+    const now = nowUnix();
+    db.transaction(() => {
+      db.query(`DELETE FROM TMChecklistItem WHERE task = ?`).run(uuid);
+      items.forEach((item, index) => {
+        const status = STATUS_VALUES[item.status];
+        db.query(
+          `INSERT INTO TMChecklistItem
+             (uuid, task, title, status, "index", stopDate, creationDate, userModificationDate)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+        ).run(
+          crypto.randomUUID(),
+          uuid,
+          item.title,
+          status,
+          index,
+          status === STATUS.INCOMPLETE ? null : now,
+          now,
+          now
+        );
+      });
+    })();
+    touch(uuid);
+    return true;
+  }
+
+  function resolveHeading(req: CreateTodoRequest): string | null {
+    if (!req.heading) return null;
+    const heading = req.list ? findHeading(req.list, req.heading) : null;
+    if (!heading) {
+      throw new WriteError("not_found", `Heading "${req.heading}" not found in project "${req.list}"`);
+    }
+    return heading.uuid;
+  }
+
+  /** What the create script does: insert, tag and place the to-do */
+  function applyCreate(req: CreateTodoRequest): string {
+    const uuid = insertTask(TYPE.TODO, {
+      title: req.title,
+      notes: req.notes,
+      deadline: req.deadline,
+    });
+    if (req.tags && req.tags.length > 0) setTags(uuid, req.tags);
+    const destination =
+      req.when && BUILT_IN_LISTS[req.when.toLowerCase()] ? req.when : req.list;
+    if (destination) placeTask(uuid, destination);
+    return uuid;
+  }
+
+  function applySchedule(uuid: string, when: string): void {
+    const date = when === "tomorrow" ? todayString(1) : when;
+    // Scheduling failures are ignored, as in the AppleScript backend
+    if (!Number.isNaN(stringToThingsScheduleDate(date))) {
+      scheduleTask(uuid, date);
+    }
+  }
+
+  /** The URL-scheme half of a create: heading, then checklist */
+  async function finishCreatedTodo(
+    uuid: string,
+    req: CreateTodoRequest,
+    headingUuid: string | null
+  ): Promise<void> {
+    if (headingUuid) {
+      record("url", headingUrl(uuid, headingUuid, config.thingsAuthToken));
+      // Things moves the project link onto the heading
+      db.query(`UPDATE TMTask SET project = NULL, heading = ? WHERE uuid = ?`).run(
+        headingUuid,
+        uuid
+      );
+    }
+
+    if (req.checklist && req.checklist.length > 0) {
+      await setChecklist(
+        uuid,
+        req.checklist.map((title) => ({ title, status: "incomplete" }))
+      );
+    }
+  }
+
+  function applyUpdate(uuid: string, req: UpdateTodoRequest): void {
+    requireTask(uuid, TYPE.TODO);
+    if (req.title) {
+      db.query(`UPDATE TMTask SET title = ? WHERE uuid = ?`).run(req.title, uuid);
+    }
+    if (req.notes !== undefined) {
+      db.query(`UPDATE TMTask SET notes = ? WHERE uuid = ?`).run(req.notes, uuid);
+    }
+    if (req.tags) setTags(uuid, req.tags);
+    if (req.deadline) {
+      db.query(`UPDATE TMTask SET deadline = ? WHERE uuid = ?`).run(
+        scheduleValue(req.deadline),
+        uuid
+      );
+    }
+    touch(uuid);
+  }
+
+  function applyMove(uuid: string, destination: string): void {
+    requireTask(uuid, TYPE.TODO);
+    placeTask(uuid, destination);
+    touch(uuid);
+  }
+
+  async function moveTodo(uuid: string, destination: string): Promise<void> {
+    record("applescript", moveTodoScript(uuid, destination));
+    applyMove(uuid, destination);
+  }
+
+  /** What the restore scripts do: properties, place, schedule, status, out of the Trash */
+  function applyRestore(uuid: string, type: number, before: Todo | Project): void {
+    requireTask(uuid, type);
+    const heading = "heading" in before ? before.heading : null;
+    const project = !heading && "project" in before ? before.project : null;
+    db.query(
+      `UPDATE TMTask SET title = ?, notes = ?, deadline = ?, start = ?, startDate = ?,
+         startBucket = 0, area = ?, project = ?, heading = ?, trashed = 0
+       WHERE uuid = ?`
+    ).run(
+      before.title,
+      before.notes,
+      before.deadline ? scheduleValue(before.deadline) : null,
+      START[before.start ?? "Anytime"],
+      before.startDate ? scheduleValue(before.startDate) : null,
+      heading || project ? null : before.area,
+      project,
+      heading,
+      uuid
+    );
+    setTags(uuid, before.tags);
+    setStatus(uuid, STATUS_VALUES[before.status]);
+  }
+
+  /** Apply one batch operation the way its compiled commands would */
+  function applyBatchOperation(op: BatchOperation): string {
+    switch (op.op) {
+      case "create": {
+        const uuid = applyCreate(op.data);
+        if (op.data.when) applySchedule(uuid, op.data.when);
+        return uuid;
+      }
+      case "update": {
+        applyUpdate(op.uuid, op.data);
+        const list = op.data.when ? whenToList(op.data.when) : null;
+        if (list) applyMove(op.uuid, list);
+        return op.uuid;
+      }
+      case "complete":
+        requireTask(op.uuid, TYPE.TODO);
+        setStatus(op.uuid, STATUS.COMPLETED);
+        return op.uuid;
+      case "move":
+        applyMove(op.uuid, op.list);
+        return op.uuid;
+    }
+  }
+
+  return {
+    name: "fake",
+    canWriteChecklists: true,
+    sent,
+
+    async createTodo(req: CreateTodoRequest): Promise<string> {
+      const headingUuid = resolveHeading(req);
+
+      record("applescript", createTodoScript(req));
+      const uuid = applyCreate(req);
+
+      const scheduleScript = req.when ? scheduleTodoScript(uuid, req.when) : null;
+      if (scheduleScript && req.when) {
+        record("applescript", scheduleScript);
+        applySchedule(uuid, req.when);
+      }
+
+      await finishCreatedTodo(uuid, req, headingUuid);
+      return uuid;
+    },
+
+    async updateTodo(uuid: string, req: UpdateTodoRequest): Promise<void> {
+      record("applescript", updateTodoScript(uuid, req));
+      applyUpdate(uuid, req);
+
+      const list = req.when ? whenToList(req.when) : null;
+      if (list) await moveTodo(uuid, list);
+    },
+
+    async completeTodo(uuid: string): Promise<void> {
+      record("applescript", completeTodoScript(uuid));
+      requireTask(uuid, TYPE.TODO);
+      setStatus(uuid, STATUS.COMPLETED);
+    },
+
+    async cancelTodo(uuid: string): Promise<void> {
+      record("applescript", cancelTodoScript(uuid));
+      requireTask(uuid, TYPE.TODO);
+      setStatus(uuid, STATUS.CANCELED);
+    },
+
+    moveTodo,
+
+    async deleteTodo(uuid: string): Promise<void> {
+      record("applescript", deleteTodoScript(uuid));
+      requireTask(uuid, TYPE.TODO);
+      db.query(`UPDATE TMTask SET trashed = 1 WHERE uuid = ?`).run(uuid);
+      touch(uuid);
+    },
+
+    setChecklist,
+
+    async restoreTodo(uuid: string, before: Todo): Promise<void> {
+      record("applescript", restoreTodoScript(uuid, before));
+      const current = getTodoByUuid(uuid);
+      applyRestore(uuid, TYPE.TODO, before);
+
+      if (before.heading && current?.heading !== before.heading) {
+        record("url", headingUrl(uuid, before.heading, config.thingsAuthToken));
+      }
+      const checklist = current?.checklist ?? [];
+      const checklistChanged =
+        checklist.length !== before.checklist.length ||
+        checklist.some(
+          (item, i) =>
+            item.title !== before.checklist[i].title ||
+            item.status !== before.checklist[i].status
+        );
+      if (checklistChanged) {
+        await setChecklist(
+          uuid,
+          before.checklist.map(({ title, status }) => ({ title, status }))
+        );
+      }
+    },
+
+    async runBatch(ops: BatchOperation[], stopOnError: boolean): Promise<BatchOutcome[]> {
+      if (ops.length === 0) return [];
+      record("applescript", batchScript(ops, stopOnError));
+
+      const outcomes: BatchOutcome[] = [];
+      let failed = false;
+      for (const op of ops) {
+        if (failed) {
+          outcomes.push({ status: "skipped" });
+          continue;
+        }
+        try {
+          outcomes.push({ status: "ok", uuid: applyBatchOperation(op) });
+        } catch (err) {
+          outcomes.push({
+            status: "error",
+            error: err instanceof Error ? err.message : String(err),
+          });
+          failed = stopOnError;
+        }
+      }
+
+      for (const [i, op] of ops.entries()) {
+        const outcome = outcomes[i];
+        if (op.op !== "create" || outcome.status !== "ok") continue;
+        const heading = op.data.heading && op.data.list
+          ? findHeading(op.data.list, op.data.heading)
+          : null;
+        try {
+          await finishCreatedTodo(outcome.uuid!, op.data, heading?.uuid ?? null);
+        } catch (err) {
+          outcome.status = "error";
+          outcome.error = `Created, but ${err instanceof Error ? err.message : String(err)}`;
+        }
+      }
+      return outcomes;
+    },
+
+    async createProject(req: CreateProjectRequest): Promise<string> {
+      record("applescript", createProjectScript(req));
+      const uuid = insertTask(TYPE.PROJECT, {
+        title: req.title,
+        notes: req.notes,
+        area: req.area ? areaByTitle(req.area) : undefined,
+      });
+      if (req.tags && req.tags.length > 0) setTags(uuid, req.tags);
+
+      for (const todoTitle of req.todos ?? []) {
+        insertTask(TYPE.TODO, { title: todoTitle, project: uuid });
+      }
+      return uuid;
+    },
+
+    async completeProject(uuid: string): Promise<void> {
+      record("applescript", completeProjectScript(uuid));
+      requireTask(uuid, TYPE.PROJECT);
+      setStatus(uuid, STATUS.COMPLETED);
+    },
+
+    async deleteProject(uuid: string): Promise<void> {
+      record("applescript", deleteProjectScript(uuid));
+      requireTask(uuid, TYPE.PROJECT);
+      // The project, its headings, and the to-dos in either
+      db.query(
+        `UPDATE TMTask SET trashed = 1, userModificationDate = ?2
+         WHERE uuid = ?1
+            OR project = ?1
+            OR heading IN (SELECT uuid FROM TMTask WHERE project = ?1)`
+      ).run(uuid, nowUnix());
+    },
+
+    async restoreProject(uuid: string, before: Project): Promise<void> {
+      record("applescript", restoreProjectScript(uuid, before));
+      applyRestore(uuid, TYPE.PROJECT, before);
+    },
+
+    async createArea(req: CreateAreaRequest): Promise<string> {
+      record("applescript", createAreaScript(req));
+      const uuid = crypto.randomUUID();
+      const index =
+        db.query<{ next: number }, []>(
+          `SELECT COALESCE(MAX("index"), -1) + 1 AS next FROM TMArea`
+        ).get()?.next ?? 0;
+      db.query(
+        `INSERT INTO TMArea (uuid, title, visible, "index") VALUES (?, ?, 1, ?)`
+      ).run(uuid, req.title, index);
+      if (req.tags && req.tags.length > 0) setAreaTags(uuid, req.tags);
+      return uuid;
+    },
+
+    async updateArea(uuid: string, req: UpdateAreaRequest): Promise<void> {
+      record("applescript", updateAreaScript(uuid, req));
+      requireArea(uuid);
+      if (req.title) {
+        db.query(`UPDATE TMArea SET title = ? WHERE uuid = ?`).run(req.title, uuid);
+      }
+      if (req.tags) setAreaTags(uuid, req.tags);
+    },
+
+    async deleteArea(uuid: string): Promise<void> {
+      record("applescript", deleteAreaScript(uuid));
+      requireArea(uuid);
+      db.transaction(() => {
+        // The area's projects, loose to-dos, and everything inside those projects
+        db.query(
+          `UPDATE TMTask SET trashed = 1, userModificationDate = ?2
+           WHERE area = ?1
+              OR project IN (SELECT uuid FROM TMTask WHERE area = ?1)
+              OR heading IN (
+                SELECT h.uuid FROM TMTask h
+                JOIN TMTask p ON h.project = p.uuid
+                WHERE p.area = ?1
+              )`
+        ).run(uuid, nowUnix());
+        db.query(`DELETE FROM TMAreaTag WHERE areas = ?`).run(uuid);
+        db.query(`DELETE FROM TMArea WHERE uuid = ?`).run(uuid);
+      })();
+    },
+
+    async createTag(req: CreateTagRequest): Promise<string> {
+      record("applescript", createTagScript(req));
+      const parent = req.parent ? tagByTitle(req.parent) : null;
+      const uuid = crypto.randomUUID();
+      const index =
+        db.query<{ next: number }, []>(
+          `SELECT COALESCE(MAX("index"), -1) + 1 AS next FROM TMTag`
+        ).get()?.next ?? 0;
+      db.query(
+        `INSERT INTO TMTag (uuid, title, shortcut, parent, "index") VALUES (?, ?, ?, ?, ?)`
+      ).run(uuid, req.title, req.shortcut ?? null, parent, index);
+      return uuid;
+    },
+
+    async updateTag(uuid: string, req: UpdateTagRequest): Promise<void> {
+      record("applescript", updateTagScript(uuid, req));
+      requireTag(uuid);
+      if (req.title) {
+        db.query(`UPDATE TMTag SET title = ? WHERE uuid = ?`).run(req.title, uuid);
+      }
+      if (req.parent !== undefined) {
+        const parent = req.parent === null ? null : tagByTitle(req.parent);
+        db.query(`UPDATE TMTag SET parent = ? WHERE uuid = ?`).run(parent, uuid);
+      }
+      if (req.shortcut !== undefined) {
+        db.query(`UPDATE TMTag SET shortcut = ? WHERE uuid = ?`).run(
+          req.shortcut || null,
+          uuid
+        );
+      }
+    },
+
+    async deleteTag(uuid: string): Promise<void> {
+      record("applescript", deleteTagScript(uuid));
+      requireTag(uuid);
+      db.transaction(() => {
+        // The tag and everything nested under it, untagged from tasks and areas
+        const doomed = `
+          WITH RECURSIVE doomed(uuid) AS (
+            SELECT ?1
+            UNION
+            SELECT child.uuid FROM TMTag child JOIN doomed ON child.parent = doomed.uuid
+          )`;
+        db.query(
+          `${doomed} DELETE FROM TMTaskTag WHERE tags IN (SELECT uuid FROM doomed)`
+        ).run(uuid);
+        db.query(
+          `${doomed} DELETE FROM TMAreaTag WHERE tags IN (SELECT uuid FROM doomed)`
+        ).run(uuid);
+        db.query(
+          `${doomed} DELETE FROM TMTag WHERE uuid IN (SELECT uuid FROM doomed)`
+        ).run(uuid);
+      })();
+    },
+  };
+}
@@ -0,0 +1,102 @@
+import { config } from "../config";
+import { appleScriptBackend } from "../applescript/executor";
+import { createFakeBackend } from "./fake";
+import { serializeWrites } from "./queue";
+import type {
+  CreateTodoRequest,
+  CreateProjectRequest,
+  UpdateTodoRequest,
+  CreateAreaRequest,
+  UpdateAreaRequest,
+  CreateTagRequest,
+  UpdateTagRequest,
+  ChecklistItemInput,
+  BatchOperation,
+  BatchOperationResult,
+  Todo,
+  Project,
+} from "../types";
+
+// ─── Write Backend ───
+
+/**
+ * Everything that changes Things data goes through a write backend.
+ * Reads always come straight from SQLite (`db/queries.ts`).
+ */
+export interface WriteBackend {
+  readonly name: string;
+  /**
+   * Whether checklist items and headings can be written. AppleScript can't
+   * set them, so that backend goes through the Things URL scheme, which
+   * needs THINGS_AUTH_TOKEN; the fake writes them directly.
+   */
+  readonly canWriteChecklists: boolean;
+
+  /** Create a to-do. Returns its UUID. */
+  createTodo(req: CreateTodoRequest): Promise<string>;
+  updateTodo(uuid: string, req: UpdateTodoRequest): Promise<void>;
+  completeTodo(uuid: string): Promise<void>;
+  cancelTodo(uuid: string): Promise<void>;
+  /** Move a to-do to a built-in list ("today", "someday", ...) or a project title */
+  moveTodo(uuid: string, destination: string): Promise<void>;
+  /** Move a to-do to the Trash */
+  deleteTodo(uuid: string): Promise<void>;
+  /**
+   * Replace a to-do's checklist. Resolves true once it can be read back, or
+   * false if Things hadn't applied it when the wait ran out.
+   */
+  setChecklist(uuid: string, items: ChecklistItemInput[]): Promise<boolean>;
+  /**
+   * Run to-do operations in order in a single round-trip; outcomes line up
+   * with `ops`. With `stopOnError`, everything after a failure is skipped.
+   */
+  runBatch(ops: BatchOperation[], stopOnError: boolean): Promise<BatchOutcome[]>;
+  /** Put a to-do back the way `before` had it, out of the Trash if need be (undo) */
+  restoreTodo(uuid: string, before: Todo): Promise<void>;
+
+  /** Create a project (and its child to-dos). Returns its UUID. */
+  createProject(req: CreateProjectRequest): Promise<string>;
+  completeProject(uuid: string): Promise<void>;
+  /** Move a project and its to-dos to the Trash */
+  deleteProject(uuid: string): Promise<void>;
+  /** Put a project back the way `before` had it, out of the Trash if need be (undo) */
+  restoreProject(uuid: string, before: Project): Promise<void>;
+
+  /** Create an area. Returns its UUID. */
+  createArea(req: CreateAreaRequest): Promise<string>;
+  updateArea(uuid: string, req: UpdateAreaRequest): Promise<void>;
+  /** Delete an area; its projects and to-dos go to the Trash */
+  deleteArea(uuid: string): Promise<void>;
+
+  /** Create a tag. Returns its UUID. */
+  createTag(req: CreateTagRequest): Promise<string>;
+  updateTag(uuid: string, req: UpdateTagRequest): Promise<void>;
+  /** Delete a tag along with the tags nested under it */
+  deleteTag(uuid: string): Promise<void>;
+}
+
+/** What happened to one operation of a batch */
+export type BatchOutcome = Pick<BatchOperationResult, "status" | "uuid" | "error">;
+
+let backend: WriteBackend | null = null;
+
+/**
+ * Get the configured write backend (THINGS_BRIDGE_BACKEND).
+ * Lazily initialized and reused, like the read connection. Calls are
+ * serialized through the write queue (`queue.ts`).
+ */
+export function getBackend(): WriteBackend {
+  if (!backend) {
+    backend = serializeWrites(
+      config.backend === "fake"
+        ? createFakeBackend(config.dbPath)
+        : appleScriptBackend
+    );
+  }
+  return backend;
+}
+
+/** Swap the write backend (tests, embedding); it's serialized like the default */
+export function setBackend(next: WriteBackend): void {
+  backend = serializeWrites(next);
+}
@@ -0,0 +1,46 @@
+import { describe, test, expect } from "bun:test";
+import { enqueueWrite, getWriteQueueDepth } from "./queue";
+import { toWriteError, WRITE_ERROR_STATUS } from "./errors";
+
+// ─── Write Queue ───
+
+describe("write queue", () => {
+  test("writes run one at a time, and failures are classified", async () => {
+    const order: string[] = [];
+    const slow = enqueueWrite(async () => {
+      await Bun.sleep(20);
+      order.push("slow");
+      throw new Error(`Things3 got an error: Application isn't running. (-600)`);
+    });
+    const fast = enqueueWrite(async () => {
+      order.push("fast");
+    });
+    expect(getWriteQueueDepth()).toBe(2);
+
+    const failure = toWriteError(await slow.catch((err) => err));
+    await fast;
+    expect(order).toEqual(["slow", "fast"]);
+    expect(getWriteQueueDepth()).toBe(0);
+    expect(failure.code).toBe("things_not_running");
+    expect(WRITE_ERROR_STATUS[failure.code]).toBe(503);
+    expect(toWriteError(new Error(`Can't get to do id "x". (-1728)`)).code).toBe("not_found");
+    expect(toWriteError(new Error("Something else")).code).toBe("write_failed");
+  });
+
+  test("a queued task's own writes go straight through", async () => {
+    const order: string[] = [];
+    const outer = enqueueWrite(async () => {
+      order.push("read");
+      await enqueueWrite(async () => {
+        order.push("write");
+      });
+      order.push("done");
+    });
+    const next = enqueueWrite(async () => {
+      order.push("next");
+    });
+
+    await Promise.all([outer, next]);
+    expect(order).toEqual(["read", "write", "done", "next"]);
+  });
+});
@@ -0,0 +1,93 @@
+import { AsyncLocalStorage } from "async_hooks";
+import type { WriteBackend } from ".";
+import { WriteError } from "./errors";
+
+// ─── Write Queue ───
+
+// Writes run one at a time, in arrival order. Things handles one Apple event
+// at a time anyway, and a write that waits for a URL command to land must not
+// have another request's script interleaved with it.
+
+let tail: Promise<unknown> = Promise.resolve();
+let depth = 0;
+const running = new AsyncLocalStorage<true>();
+
+/**
+ * Run `task` once every write queued before it has settled. A task can read,
+ * edit and write back as one step: writes it makes itself go straight
+ * through rather than waiting behind it.
+ */
+export function enqueueWrite<T>(task: () => Promise<T>): Promise<T> {
+  if (running.getStore()) return task();
+  depth++;
+  const run = tail.then(() => running.run(true, task)).finally(() => {
+    depth--;
+  });
+  // A failed write mustn't stop the ones behind it
+  tail = run.catch(() => {});
+  return run;
+}
+
+/** Writes queued or running right now */
+export function getWriteQueueDepth(): number {
+  return depth;
+}
+
+/** Wrap every method of a backend so each call goes through the queue */
+export function serializeWrites<B extends WriteBackend>(backend: B): B {
+  const wrapped: Record<string, unknown> = {};
+  for (const [name, value] of Object.entries(backend)) {
+    wrapped[name] =
+      typeof value === "function"
+        ? (...args: unknown[]) => {
+            if (deferring.getStore()) {
+              return Promise.reject(
+                new WriteError("things_not_running", "Deferred to the offline queue")
+              );
+            }
+            calls.getStore()?.push(describeCall(name, args));
+            return enqueueWrite(() => value.apply(backend, args));
+          }
+        : value;
+  }
+  return wrapped as B;
+}
+
+// ─── Deferred Writes ───
+
+const deferring = new AsyncLocalStorage<true>();
+
+/**
+ * Run `task` with every backend call failing as if Things weren't running.
+ * The request is still validated and checked against the database; only the
+ * write itself is left for the offline queue.
+ */
+export function deferWrites<T>(task: () => Promise<T>): Promise<T> {
+  return deferring.run(true, task);
+}
+
+// ─── Call Log ───
+
+// Every backend call passes through serializeWrites, so this is where the
+// audit log learns which scripts a request ran.
+
+const calls = new AsyncLocalStorage<string[]>();
+
+/** A backend call in one line: "moveTodo(<uuid>, today)", objects elided */
+function describeCall(name: string, args: unknown[]): string {
+  const described = args.map((arg) => {
+    if (typeof arg === "string") return arg.length > 80 ? `${arg.slice(0, 80)}…` : arg;
+    if (Array.isArray(arg)) return `[${arg.length}]`;
+    return typeof arg === "object" && arg !== null ? "{…}" : String(arg);
+  });
+  return `${name}(${described.join(", ")})`;
+}
+
+/** Run `task`, collecting every backend call it makes */
+export async function collectWrites<T>(
+  task: () => Promise<T>
+): Promise<{ result: T; writes: string[] }> {
+  const writes: string[] = [];
+  const result = await calls.run(writes, task);
+  return { result, writes };
+}
@@ -0,0 +1,69 @@
+#!/usr/bin/env bun
+import { join } from "path";
+import { config } from "./config";
+import { initTls } from "./tls";
+
+// ─── Commands ───
+
+const USAGE = `Usage:
+  things-bridge [serve]              Start the server
+  things-bridge init-tls [options]   Generate a self-signed CA and server certificate
+
+init-tls options:
+  --dir <path>    Where to write them (default: THINGS_BRIDGE_DATA_DIR/tls)
+  --host <name>   Another host name or IP the server is reached by (repeatable)
+  --force         Replace existing certificates`;
+
+/** things-bridge init-tls — returns the exit code */
+function runInitTls(args: string[]): number {
+  let dir = join(config.dataDir, "tls");
+  const hosts: string[] = [];
+  let force = false;
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--force") {
+      force = true;
+    } else if ((arg === "--dir" || arg === "--host") && args[i + 1]) {
+      if (arg === "--dir") dir = args[++i];
+      else hosts.push(args[++i]);
+    } else {
+      console.error(`Unknown option: ${arg}\n\n${USAGE}`);
+      return 1;
+    }
+  }
+
+  let result;
+  try {
+    result = initTls({ dir, hosts, force });
+  } catch (err) {
+    console.error(`❌ ${err instanceof Error ? err.message : err}`);
+    return 1;
+  }
+
+  console.log(`✅ Certificates written to ${dir}
+
+Valid for: ${result.hosts.join(", ")}
+
+Add to .env:
+  THINGS_BRIDGE_TLS_CERT=${result.cert}
+  THINGS_BRIDGE_TLS_KEY=${result.key}
+
+On each client, trust ${result.caCert} (e.g. curl --cacert ca.crt), or pin:
+  CA certificate     SHA-256 ${result.caFingerprint}
+  Server certificate SHA-256 ${result.fingerprint}
+
+Keep ca.key private — anyone holding it can impersonate the bridge.`);
+  return 0;
+}
+
+const [command = "serve", ...args] = process.argv.slice(2);
+switch (command) {
+  case "serve":
+    await import("./index");
+    break;
+  case "init-tls":
+    process.exit(runInitTls(args));
+  default:
+    console.error(`Unknown command: ${command}\n\n${USAGE}`);
+    process.exit(1);
+}
@@ -51,7 +51,33 @@ export const config = {
   port: Number(process.env.THINGS_BRIDGE_PORT ?? 18790),
   host: process.env.THINGS_BRIDGE_HOST ?? "0.0.0.0",
   token: process.env.THINGS_BRIDGE_TOKEN ?? "",
+  /** Things URL scheme auth token (Settings → General → Enable Things URLs → Manage) */
+  thingsAuthToken: process.env.THINGS_AUTH_TOKEN ?? "",
   dbPath: process.env.THINGS_DB_PATH ?? DEFAULT_DB_PATH,
+  /** Write backend: "applescript" (default) or "fake" (SQLite-only, for testing off a Mac) */
+  backend: process.env.THINGS_BRIDGE_BACKEND ?? "applescript",
+  /** Where the bridge keeps its own files (search index, ...) — never inside Things' container */
+  dataDir: process.env.THINGS_BRIDGE_DATA_DIR ?? join(process.env.HOME ?? "~", ".things-bridge"),
+  /** Longest a single osascript call may run before it's killed, in seconds */
+  scriptTimeout: Number(process.env.THINGS_BRIDGE_SCRIPT_TIMEOUT ?? 15),
+  /** Journal writes that find Things unreachable and replay them later, instead of failing */
+  offlineQueue: process.env.THINGS_BRIDGE_OFFLINE_QUEUE === "true",
+  /** How long a response is kept for replay under its Idempotency-Key, in seconds */
+  idempotencyTtl: Number(process.env.THINGS_BRIDGE_IDEMPOTENCY_TTL ?? 86400),
+  /** Days audit entries are kept before they are pruned (0: forever) */
+  auditRetentionDays: Number(process.env.THINGS_BRIDGE_AUDIT_RETENTION_DAYS ?? 365),
+  /** Days change log entries, and so sync tokens, are kept before they are pruned (0: forever) */
+  changeLogRetentionDays: Number(process.env.THINGS_BRIDGE_CHANGE_LOG_RETENTION_DAYS ?? 30),
+  /** Requests per minute each token may make, by route class (0: unlimited) */
+  rateLimits: {
+    reads: Number(process.env.THINGS_BRIDGE_RATE_LIMIT_READS ?? 600),
+    writes: Number(process.env.THINGS_BRIDGE_RATE_LIMIT_WRITES ?? 60),
+  },
+  /** PEM certificate and key to serve HTTPS with; plain HTTP when unset */
+  tlsCert: process.env.THINGS_BRIDGE_TLS_CERT ?? "",
+  tlsKey: process.env.THINGS_BRIDGE_TLS_KEY ?? "",
+  /** Failed auth attempts from one IP before it's locked out (0: never) */
+  authFailureLimit: Number(process.env.THINGS_BRIDGE_AUTH_FAILURE_LIMIT ?? 10),
 } as const;
 
 export function validateConfig(): string[] {
@@ -63,7 +89,50 @@ export function validateConfig(): string[] {
     );
   }
 
-  if (!existsSync(config.dbPath)) {
+  if (config.backend !== "applescript" && config.backend !== "fake") {
+    errors.push(
+      `THINGS_BRIDGE_BACKEND must be "applescript" or "fake" (got "${config.backend}")`
+    );
+  }
+
+  if (!(config.scriptTimeout > 0)) {
+    errors.push(
+      `THINGS_BRIDGE_SCRIPT_TIMEOUT must be a positive number of seconds (got "${process.env.THINGS_BRIDGE_SCRIPT_TIMEOUT}")`
+    );
+  }
+
+  if (!(config.idempotencyTtl > 0)) {
+    errors.push(
+      `THINGS_BRIDGE_IDEMPOTENCY_TTL must be a positive number of seconds (got "${process.env.THINGS_BRIDGE_IDEMPOTENCY_TTL}")`
+    );
+  }
+
+  for (const [name, value] of [
+    ["THINGS_BRIDGE_RATE_LIMIT_READS", config.rateLimits.reads],
+    ["THINGS_BRIDGE_RATE_LIMIT_WRITES", config.rateLimits.writes],
+    ["THINGS_BRIDGE_AUTH_FAILURE_LIMIT", config.authFailureLimit],
+    ["THINGS_BRIDGE_AUDIT_RETENTION_DAYS", config.auditRetentionDays],
+    ["THINGS_BRIDGE_CHANGE_LOG_RETENTION_DAYS", config.changeLogRetentionDays],
+  ] as const) {
+    if (!Number.isInteger(value) || value < 0) {
+      errors.push(`${name} must be a whole number, 0 to turn it off (got "${process.env[name]}")`);
+    }
+  }
+
+  if (Boolean(config.tlsCert) !== Boolean(config.tlsKey)) {
+    errors.push("THINGS_BRIDGE_TLS_CERT and THINGS_BRIDGE_TLS_KEY must be set together");
+  }
+  for (const [name, path] of [
+    ["THINGS_BRIDGE_TLS_CERT", config.tlsCert],
+    ["THINGS_BRIDGE_TLS_KEY", config.tlsKey],
+  ] as const) {
+    if (path && !existsSync(path)) {
+      errors.push(`${name} not found: ${path}\n  Generate a certificate with: bun run init-tls`);
+    }
+  }
+
+  // The fake backend creates its database on first use
+  if (config.backend !== "fake" && !existsSync(config.dbPath)) {
     errors.push(
       `Things 3 database not found at: ${config.dbPath}\n` +
         "  Is Things 3 installed? Set THINGS_DB_PATH to override."
@@ -1,5 +1,6 @@
 import { Database } from "bun:sqlite";
 import { config } from "../config";
+import { databaseFingerprint } from "./fingerprint";
 
 let db: Database | null = null;
 
@@ -16,6 +17,18 @@ export function getDb(): Database {
   return db;
 }
 
+/**
+ * An opaque value that changes whenever the Things database does: the file
+ * fingerprint, plus SQLite's data_version, which moves on every commit by
+ * another connection even when mtime and size happen not to.
+ */
+export function getDbVersion(): string {
+  const { data_version } = getDb()
+    .query<{ data_version: number }, []>("PRAGMA data_version")
+    .get()!;
+  return `${databaseFingerprint(config.dbPath)}|${data_version}`;
+}
+
 /**
  * Close the database connection (for graceful shutdown).
  */
@@ -0,0 +1,248 @@
+import type { SQLQueryBindings } from "bun:sqlite";
+import type { Todo, TodoFilter, ThingsList } from "../types";
+
+// ─── Constants ───
+
+/** Task status/type values — same encoding as db/queries.ts */
+const STATUS = { INCOMPLETE: 0, CANCELED: 2, COMPLETED: 3 } as const;
+const TYPE = { TODO: 0 } as const;
+
+const STATUS_VALUES: Record<Todo["status"], number> = {
+  incomplete: STATUS.INCOMPLETE,
+  completed: STATUS.COMPLETED,
+  canceled: STATUS.CANCELED,
+};
+
+export const THINGS_LISTS: ThingsList[] = [
+  "inbox",
+  "today",
+  "upcoming",
+  "anytime",
+  "someday",
+  "logbook",
+];
+
+/** Query parameters that switch GET /v1/todos from a plain list to a filter */
+const FILTER_PARAMS = [
+  "tags",
+  "tagMatch",
+  "area",
+  "project",
+  "status",
+  "deadlineBefore",
+  "deadlineAfter",
+  "startFrom",
+  "startTo",
+  "modifiedSince",
+  "hasDeadline",
+  "repeating",
+  "inList",
+] as const;
+
+// ─── Parsing ───
+
+function isDate(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value));
+}
+
+function splitList(value: string): string[] {
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Read filter parameters from a query string. Returns null when none are
+ * present, or an error message when one is malformed.
+ */
+export function parseTodoFilter(
+  params: URLSearchParams
+): TodoFilter | null | string {
+  if (!FILTER_PARAMS.some((name) => params.has(name))) return null;
+
+  const filter: TodoFilter = {};
+
+  const tags = params.get("tags");
+  if (tags !== null) filter.tags = splitList(tags);
+
+  const tagMatch = params.get("tagMatch");
+  if (tagMatch !== null) {
+    if (tagMatch !== "any" && tagMatch !== "all") {
+      return "tagMatch must be one of: any, all";
+    }
+    filter.tagMatch = tagMatch;
+  }
+
+  const area = params.get("area");
+  if (area) filter.area = area;
+  const project = params.get("project");
+  if (project) filter.project = project;
+
+  const status = params.get("status");
+  if (status !== null) {
+    const values = splitList(status);
+    const invalid = values.find((value) => !(value in STATUS_VALUES));
+    if (invalid !== undefined || values.length === 0) {
+      return `Invalid status. Valid options: ${Object.keys(STATUS_VALUES).join(", ")}`;
+    }
+    filter.status = values as Todo["status"][];
+  }
+
+  for (const name of ["deadlineBefore", "deadlineAfter", "startFrom", "startTo"] as const) {
+    const value = params.get(name);
+    if (value === null) continue;
+    if (!isDate(value)) return `${name} must be a date (YYYY-MM-DD)`;
+    filter[name] = value;
+  }
+
+  const modifiedSince = params.get("modifiedSince");
+  if (modifiedSince !== null) {
+    if (Number.isNaN(Date.parse(modifiedSince))) {
+      return "modifiedSince must be an ISO 8601 date or date-time";
+    }
+    filter.modifiedSince = modifiedSince;
+  }
+
+  for (const name of ["hasDeadline", "repeating"] as const) {
+    const value = params.get(name);
+    if (value === null) continue;
+    if (value !== "true" && value !== "false") return `${name} must be true or false`;
+    filter[name] = value === "true";
+  }
+
+  const inList = params.get("inList") ?? params.get("list");
+  if (inList !== null) {
+    if (!THINGS_LISTS.includes(inList as ThingsList)) {
+      return `Invalid list. Valid options: ${THINGS_LISTS.join(", ")}`;
+    }
+    filter.inList = inList as ThingsList;
+  }
+
+  return filter;
+}
+
+// ─── Compiling ───
+
+export interface CompiledFilter {
+  where: string; // starts with WHERE; columns refer to BASE_TASK_SELECT aliases
+  params: SQLQueryBindings[];
+}
+
+/**
+ * Membership of a built-in list as a single condition. Mirrors the rules in
+ * getTodosByList, including repeating templates whose next instance is due.
+ * `today` is today's date in the Things startDate encoding.
+ */
+function listCondition(
+  list: ThingsList,
+  today: number
+): { sql: string; params: SQLQueryBindings[] } {
+  const open = `t.status = ${STATUS.INCOMPLETE}`;
+  const activeTemplate = `(t.rt1_recurrenceRule IS NOT NULL AND t.rt1_instanceCreationPaused = 0)`;
+
+  switch (list) {
+    case "inbox":
+      return {
+        sql: `${open} AND t.start = 0 AND t.startDate IS NULL AND t.startBucket = 0
+              AND t.project IS NULL AND t.heading IS NULL`,
+        params: [],
+      };
+    case "today":
+      // Same ±1 day leniency as the list view
+      return {
+        sql: `${open} AND ((t.start = 1 AND t.startDate IS NOT NULL)
+              OR (${activeTemplate} AND t.rt1_nextInstanceStartDate >= ?
+                  AND t.rt1_nextInstanceStartDate < ?))`,
+        params: [today - 86400, today + 86400],
+      };
+    case "upcoming":
+      return {
+        sql: `${open} AND (t.startDate > ?
+              OR (${activeTemplate} AND t.rt1_nextInstanceStartDate > ?))`,
+        params: [today, today],
+      };
+    case "anytime":
+      return { sql: `${open} AND t.start = 1 AND t.startBucket = 0`, params: [] };
+    case "someday":
+      return { sql: `${open} AND t.start = 2 AND t.startDate IS NULL`, params: [] };
+    case "logbook":
+      return {
+        sql: `t.status IN (${STATUS.COMPLETED}, ${STATUS.CANCELED})`,
+        params: [],
+      };
+  }
+}
+
+/**
+ * Compile a filter into one parameterised WHERE clause over BASE_TASK_SELECT.
+ * `encodeDate` converts YYYY-MM-DD to the Things startDate/deadline encoding.
+ * Only open to-dos match unless `status` or `inList` says otherwise.
+ */
+export function compileTodoFilter(
+  filter: TodoFilter,
+  encodeDate: (date: string) => number
+): CompiledFilter {
+  const conditions: string[] = [`t.type = ${TYPE.TODO}`, `t.trashed = 0`];
+  const params: SQLQueryBindings[] = [];
+
+  const add = (sql: string, ...values: SQLQueryBindings[]) => {
+    conditions.push(sql);
+    params.push(...values);
+  };
+  const placeholders = (count: number) => Array(count).fill("?").join(", ");
+
+  if (filter.inList) {
+    const today = encodeDate(new Date().toISOString().split("T")[0]);
+    const list = listCondition(filter.inList, today);
+    add(`(${list.sql})`, ...list.params);
+  }
+
+  if (filter.status && filter.status.length > 0) {
+    add(
+      `t.status IN (${placeholders(filter.status.length)})`,
+      ...filter.status.map((status) => STATUS_VALUES[status])
+    );
+  } else if (!filter.inList) {
+    add(`t.status = ${STATUS.INCOMPLETE}`);
+  }
+
+  if (filter.tags && filter.tags.length > 0) {
+    const tagged = `
+      SELECT COUNT(DISTINCT tag.uuid) FROM TMTaskTag tt
+      JOIN TMTag tag ON tt.tags = tag.uuid
+      WHERE tt.tasks = t.uuid AND tag.title IN (${placeholders(filter.tags.length)})`;
+    add(
+      filter.tagMatch === "all"
+        ? `(${tagged}) = ${new Set(filter.tags).size}`
+        : `(${tagged}) > 0`,
+      ...filter.tags
+    );
+  }
+
+  if (filter.area) add(`(a.uuid = ? OR a.title = ?)`, filter.area, filter.area);
+  if (filter.project) {
+    add(`(p.uuid = ? OR p.title = ?)`, filter.project, filter.project);
+  }
+
+  if (filter.deadlineAfter) add(`t.deadline >= ?`, encodeDate(filter.deadlineAfter));
+  if (filter.deadlineBefore) add(`t.deadline <= ?`, encodeDate(filter.deadlineBefore));
+  if (filter.startFrom) add(`t.startDate >= ?`, encodeDate(filter.startFrom));
+  if (filter.startTo) add(`t.startDate <= ?`, encodeDate(filter.startTo));
+
+  if (filter.modifiedSince) {
+    add(`t.userModificationDate >= ?`, Date.parse(filter.modifiedSince) / 1000);
+  }
+  if (filter.hasDeadline !== undefined) {
+    add(filter.hasDeadline ? `t.deadline IS NOT NULL` : `t.deadline IS NULL`);
+  }
+  if (filter.repeating !== undefined) {
+    add(
+      filter.repeating
+        ? `t.rt1_recurrenceRule IS NOT NULL`
+        : `t.rt1_recurrenceRule IS NULL`
+    );
+  }
+
+  return { where: `WHERE ${conditions.join("\n  AND ")}`, params };
+}
@@ -0,0 +1,15 @@
+import { existsSync, statSync } from "fs";
+
+/**
+ * Cheap change marker for an SQLite database: mtime and size of the main
+ * file and its WAL. Things commits to the WAL, so both are needed.
+ */
+export function databaseFingerprint(dbPath: string): string {
+  return [dbPath, `${dbPath}-wal`]
+    .map((path) => {
+      if (!existsSync(path)) return "-";
+      const stat = statSync(path);
+      return `${stat.mtimeMs}:${stat.size}`;
+    })
+    .join("|");
+}
@@ -0,0 +1,225 @@
+import { Database } from "bun:sqlite";
+import { createThingsSchema } from "./schema";
+
+// ─── Synthetic Things Database ───
+
+/**
+ * Declarative seed data for a synthetic Things database. References between
+ * rows (project, area, heading, tag parent) use UUIDs; tags on tasks and areas
+ * use titles and are created on demand.
+ */
+export interface FixtureSeed {
+  areas?: FixtureArea[];
+  tags?: FixtureTag[];
+  tasks?: FixtureTask[];
+}
+
+export interface FixtureArea {
+  uuid: string;
+  title: string;
+  index?: number;
+  tags?: string[];
+}
+
+export interface FixtureTag {
+  uuid?: string;
+  title: string;
+  shortcut?: string;
+  parent?: string; // parent tag UUID
+  index?: number;
+}
+
+export interface FixtureTask {
+  uuid: string;
+  title: string;
+  type?: "to-do" | "project" | "heading";
+  status?: "incomplete" | "completed" | "canceled";
+  trashed?: boolean;
+  notes?: string;
+  /** TMTask.start — defaults to "anytime" when scheduled or filed, else "inbox" */
+  start?: "inbox" | "anytime" | "someday";
+  startDate?: string; // YYYY-MM-DD
+  evening?: boolean; // startBucket = 1
+  deadline?: string; // YYYY-MM-DD
+  createdAt?: string; // ISO 8601
+  modifiedAt?: string; // ISO 8601
+  completedAt?: string; // ISO 8601
+  project?: string;
+  area?: string;
+  heading?: string;
+  index?: number;
+  todayIndex?: number;
+  tags?: string[];
+  checklist?: { title: string; status?: "incomplete" | "completed" | "canceled" }[];
+  /** Makes the task a repeating template */
+  recurrence?: {
+    /** Frequency name or raw `fu` unit from the plist */
+    frequency: "daily" | "weekly" | "monthly" | "yearly" | number;
+    nextInstanceDate?: string; // YYYY-MM-DD
+    paused?: boolean;
+    /** Store the plist as TEXT rather than a BLOB */
+    asText?: boolean;
+  };
+}
+
+export interface FixtureOptions {
+  /**
+   * Offset added to startDate/deadline values to get Unix seconds. The read
+   * side calibrates this from the data, falling back to the same default.
+   */
+  epochOffset?: number;
+}
+
+/** Fallback offset used by db/queries.ts when there's nothing to calibrate from */
+export const DEFAULT_EPOCH_OFFSET = 1637712000;
+
+const STATUS = { incomplete: 0, canceled: 2, completed: 3 } as const;
+const TYPE = { "to-do": 0, project: 1, heading: 2 } as const;
+const START = { inbox: 0, anytime: 1, someday: 2 } as const;
+const FREQUENCY_UNIT = { daily: 4, weekly: 256, monthly: 16, yearly: 2048 } as const;
+
+/** YYYY-MM-DD for today (UTC) shifted by the given number of days */
+export function daysFromToday(days: number): string {
+  return new Date(Date.now() + days * 86400000).toISOString().split("T")[0];
+}
+
+function isoToUnix(iso: string | undefined): number | null {
+  return iso ? Date.parse(iso) / 1000 : null;
+}
+
+function recurrencePlist(fu: number): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">
+<plist version="1.0">
+<dict>
+  <key>fu</key>
+  <integer>${fu}</integer>
+  <key>fa</key>
+  <integer>1</integer>
+</dict>
+</plist>`;
+}
+
+/**
+ * Write a Things-shaped SQLite database to `path` and seed it.
+ * Point THINGS_DB_PATH at the result to run the bridge against it.
+ */
+export function buildThingsFixture(
+  path: string,
+  seed: FixtureSeed,
+  options: FixtureOptions = {}
+): void {
+  const offset = options.epochOffset ?? DEFAULT_EPOCH_OFFSET;
+  const db = new Database(path, { create: true });
+  createThingsSchema(db);
+
+  const scheduleValue = (date: string | undefined): number | null =>
+    date ? Date.parse(`${date}T00:00:00Z`) / 1000 - offset : null;
+
+  const tagUuids = new Map<string, string>();
+  const tagUuid = (title: string): string => {
+    let uuid = tagUuids.get(title);
+    if (!uuid) {
+      uuid = `tag-${title}`;
+      db.query(`INSERT INTO TMTag (uuid, title) VALUES (?, ?)`).run(uuid, title);
+      tagUuids.set(title, uuid);
+    }
+    return uuid;
+  };
+
+  db.transaction(() => {
+    for (const [i, tag] of (seed.tags ?? []).entries()) {
+      const uuid = tag.uuid ?? `tag-${tag.title}`;
+      db.query(
+        `INSERT INTO TMTag (uuid, title, shortcut, parent, "index") VALUES (?, ?, ?, ?, ?)`
+      ).run(uuid, tag.title, tag.shortcut ?? null, tag.parent ?? null, tag.index ?? i);
+      tagUuids.set(tag.title, uuid);
+    }
+
+    for (const [i, area] of (seed.areas ?? []).entries()) {
+      db.query(
+        `INSERT INTO TMArea (uuid, title, visible, "index") VALUES (?, ?, 1, ?)`
+      ).run(area.uuid, area.title, area.index ?? i);
+      for (const title of area.tags ?? []) {
+        db.query(`INSERT INTO TMAreaTag (areas, tags) VALUES (?, ?)`).run(
+          area.uuid,
+          tagUuid(title)
+        );
+      }
+    }
+
+    for (const [i, task] of (seed.tasks ?? []).entries()) {
+      const filed = task.startDate || task.project || task.area || task.heading;
+      const start = task.start ?? (filed || task.type === "project" ? "anytime" : "inbox");
+      const status = task.status ?? "incomplete";
+      const createdAt = isoToUnix(task.createdAt) ?? Date.now() / 1000 - (i + 1) * 3600;
+      const recurrence = task.recurrence;
+      const fu =
+        recurrence === undefined
+          ? null
+          : typeof recurrence.frequency === "number"
+            ? recurrence.frequency
+            : FREQUENCY_UNIT[recurrence.frequency];
+      const plist = fu === null ? null : recurrencePlist(fu);
+
+      db.query(
+        `INSERT INTO TMTask
+           (uuid, title, type, status, trashed, notes, start, startDate, startBucket,
+            deadline, creationDate, userModificationDate, stopDate,
+            project, area, heading, "index", todayIndex,
+            rt1_recurrenceRule, rt1_nextInstanceStartDate, rt1_instanceCreationPaused)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      ).run(
+        task.uuid,
+        task.title,
+        TYPE[task.type ?? "to-do"],
+        STATUS[status],
+        task.trashed ? 1 : 0,
+        task.notes ?? "",
+        START[start],
+        scheduleValue(task.startDate),
+        task.evening ? 1 : 0,
+        scheduleValue(task.deadline),
+        createdAt,
+        isoToUnix(task.modifiedAt) ?? createdAt,
+        isoToUnix(task.completedAt) ??
+          (status === "incomplete" ? null : createdAt + 60),
+        task.project ?? null,
+        task.area ?? null,
+        task.heading ?? null,
+        task.index ?? i,
+        task.todayIndex ?? i,
+        plist === null
+          ? null
+          : recurrence?.asText
+            ? plist
+            : new TextEncoder().encode(plist),
+        scheduleValue(recurrence?.nextInstanceDate),
+        recurrence ? (recurrence.paused ? 1 : 0) : null
+      );
+
+      for (const title of task.tags ?? []) {
+        db.query(`INSERT INTO TMTaskTag (tasks, tags) VALUES (?, ?)`).run(
+          task.uuid,
+          tagUuid(title)
+        );
+      }
+
+      for (const [index, item] of (task.checklist ?? []).entries()) {
+        db.query(
+          `INSERT INTO TMChecklistItem (uuid, task, title, status, "index", creationDate)
+           VALUES (?, ?, ?, ?, ?, ?)`
+        ).run(
+          `${task.uuid}-check-${index}`,
+          task.uuid,
+          item.title,
+          STATUS[item.status ?? "incomplete"],
+          index,
+          createdAt
+        );
+      }
+    }
+  })();
+
+  db.close();
+}
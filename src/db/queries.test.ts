@@ -0,0 +1,477 @@
+import { describe, test, expect, afterAll } from "bun:test";
+import { Database } from "bun:sqlite";
+import { startTestBridge, stopTestBridge, EPOCH_OFFSET, THINGS_PATH } from "../testing";
+import { daysFromToday, type FixtureSeed } from "./fixture";
+import { encodeCursor, decodeCursor } from "../pagination";
+import { parseTodoFilter, THINGS_LISTS } from "./filters";
+import type { ThingsList, TodoFilter, Page, SortKey } from "../types";
+
+// ─── Fixture ───
+
+const today = daysFromToday(0);
+const hoursAgo = (hours: number) =>
+  new Date(Date.now() - hours * 3600000).toISOString();
+
+const seed: FixtureSeed = {
+  areas: [
+    { uuid: "area-work", title: "Work" },
+    { uuid: "area-home", title: "Home", tags: ["Focus"] },
+  ],
+  tags: [
+    { uuid: "tag-places", title: "Places" },
+    { uuid: "tag-home", title: "@home", parent: "tag-places", shortcut: "h" },
+    { uuid: "tag-urgent", title: "Urgent" },
+  ],
+  tasks: [
+    // Inbox
+    {
+      uuid: "inbox-1",
+      title: "Call the dentist",
+      notes: "Ask about the cleaning",
+      tags: ["Urgent", "@home"],
+      checklist: [
+        { title: "Find number" },
+        { title: "Check calendar", status: "completed" },
+      ],
+    },
+    { uuid: "inbox-trashed", title: "Old idea", trashed: true },
+
+    // Today
+    { uuid: "today-1", title: "Write report", startDate: today, todayIndex: 2, area: "area-work", deadline: daysFromToday(1) },
+    { uuid: "today-evening", title: "Stretch", startDate: today, evening: true, todayIndex: 0 },
+    { uuid: "today-overdue", title: "Pay rent", startDate: daysFromToday(-1), todayIndex: 1 },
+
+    // Upcoming (scheduled tasks keep start = Someday until their date)
+    { uuid: "upcoming-1", title: "Dentist appointment", start: "someday", startDate: daysFromToday(3) },
+    { uuid: "upcoming-2", title: "Conference", start: "someday", startDate: daysFromToday(10) },
+
+    // Anytime & Someday
+    { uuid: "anytime-1", title: "Read a book", start: "anytime", area: "area-home" },
+    { uuid: "someday-1", title: "Learn piano", start: "someday" },
+
+    // Logbook
+    { uuid: "logbook-1", title: "Filed taxes", status: "completed", completedAt: hoursAgo(2), tags: ["Urgent"] },
+    { uuid: "logbook-2", title: "Skipped gym", status: "canceled", completedAt: hoursAgo(26) },
+    { uuid: "logbook-trashed", title: "Deleted done", status: "completed", completedAt: hoursAgo(1), trashed: true, tags: ["Urgent"] },
+
+    // Projects
+    { uuid: "project-1", title: "Renovation", type: "project", area: "area-home", tags: ["Focus"] },
+    { uuid: "project-done", title: "Old project", type: "project", status: "completed" },
+    { uuid: "project-trashed", title: "Abandoned", type: "project", trashed: true },
+    { uuid: "project-todo-1", title: "Pick paint", project: "project-1", index: 2 },
+    { uuid: "project-todo-2", title: "Measure walls", project: "project-1", index: 1, tags: ["Urgent"] },
+    { uuid: "project-todo-trashed", title: "Hire decorator", project: "project-1", trashed: true },
+    { uuid: "heading-1", title: "Phase 1", type: "heading", project: "project-1", index: 0 },
+    { uuid: "heading-2", title: "Phase 2", type: "heading", project: "project-1", index: 5 },
+    { uuid: "heading-todo-1", title: "Strip wallpaper", heading: "heading-1", index: 3 },
+
+    // Repeating templates
+    { uuid: "repeat-daily", title: "Water plants", start: "someday", recurrence: { frequency: "daily", nextInstanceDate: today } },
+    { uuid: "repeat-weekly", title: "Weekly review", start: "someday", recurrence: { frequency: "weekly", nextInstanceDate: daysFromToday(2), asText: true } },
+    { uuid: "repeat-paused", title: "Pay invoice", start: "someday", recurrence: { frequency: "monthly", nextInstanceDate: today, paused: true } },
+    { uuid: "repeat-unknown", title: "Odd cadence", start: "someday", recurrence: { frequency: 999, nextInstanceDate: daysFromToday(5) } },
+  ],
+};
+
+// The bridge reads the fixture exactly as it would the real database
+await startTestBridge(seed);
+const queries = await import("./queries");
+
+afterAll(stopTestBridge);
+
+const uuids = (list: ThingsList) =>
+  queries.getTodosByList(list).items.map((todo) => todo.uuid);
+
+// ─── Lists ───
+
+describe("getTodosByList", () => {
+  test("inbox holds unfiled, unscheduled to-dos", () => {
+    expect(uuids("inbox")).toEqual(["inbox-1"]);
+  });
+
+  test("today is ordered by todayIndex, plus templates due today", () => {
+    expect(uuids("today")).toEqual([
+      "today-evening",
+      "today-overdue",
+      "today-1",
+      "repeat-daily",
+    ]);
+  });
+
+  test("upcoming merges scheduled tasks and templates by effective date", () => {
+    expect(uuids("upcoming")).toEqual([
+      "repeat-weekly",
+      "upcoming-1",
+      "repeat-unknown",
+      "upcoming-2",
+    ]);
+  });
+
+  test("anytime excludes the evening bucket, someday and inbox", () => {
+    const anytime = uuids("anytime");
+    expect(anytime).toContain("anytime-1");
+    expect(anytime).toContain("today-1");
+    expect(anytime).toContain("project-todo-1");
+    expect(anytime).not.toContain("today-evening");
+    expect(anytime).not.toContain("someday-1");
+    expect(anytime).not.toContain("inbox-1");
+  });
+
+  test("someday excludes scheduled to-dos", () => {
+    const someday = uuids("someday");
+    expect(someday).toContain("someday-1");
+    expect(someday).not.toContain("upcoming-1");
+    expect(someday).not.toContain("upcoming-2");
+  });
+
+  test("logbook is completed and canceled, newest first, without trash", () => {
+    expect(uuids("logbook")).toEqual(["logbook-1", "logbook-2"]);
+  });
+
+  test("trashed to-dos never appear in a list", () => {
+    const lists: ThingsList[] = ["inbox", "today", "upcoming", "anytime", "someday", "logbook"];
+    for (const list of lists) {
+      expect(uuids(list)).not.toContain("inbox-trashed");
+      expect(uuids(list)).not.toContain("project-todo-trashed");
+    }
+  });
+
+  test("unknown list returns nothing", () => {
+    expect(uuids("nope" as ThingsList)).toEqual([]);
+  });
+});
+
+// ─── Row Mapping ───
+
+describe("dates", () => {
+  test("calibrates the startDate epoch from the most recent scheduled to-do", () => {
+    expect(queries.getTodoByUuid("today-1")?.startDate).toBe(today);
+    expect(queries.getTodoByUuid("today-overdue")?.startDate).toBe(daysFromToday(-1));
+    expect(queries.getTodoByUuid("upcoming-2")?.startDate).toBe(daysFromToday(10));
+  });
+
+  test("deadline uses the same encoding as startDate", () => {
+    expect(queries.getTodoByUuid("today-1")?.deadline).toBe(daysFromToday(1));
+  });
+
+  test("round-trips schedule dates", () => {
+    const value = queries.stringToThingsScheduleDate(today);
+    expect(value + EPOCH_OFFSET).toBe(Date.parse(`${today}T00:00:00Z`) / 1000);
+  });
+
+  test("completion dates are Unix timestamps", () => {
+    const todo = queries.getTodoByUuid("logbook-1");
+    expect(todo?.status).toBe("completed");
+    expect(Date.parse(todo?.completedAt ?? "")).toBeGreaterThan(Date.now() - 3 * 3600000);
+  });
+});
+
+describe("start", () => {
+  test.each([
+    ["inbox-1", "Inbox"],
+    ["today-1", "Anytime"],
+    ["today-evening", "Anytime"],
+    ["anytime-1", "Anytime"],
+    ["someday-1", "Someday"],
+    ["upcoming-1", "Someday"],
+  ])("%s → %s", (uuid, start) => {
+    expect(queries.getTodoByUuid(uuid)?.start).toBe(start as "Inbox");
+  });
+});
+
+describe("repeating templates", () => {
+  test("decodes the frequency from a BLOB plist", () => {
+    const todo = queries.getTodoByUuid("repeat-daily");
+    expect(todo?.repeating).toBe(true);
+    expect(todo?.recurrenceRule).toBe("daily");
+    expect(todo?.nextInstanceDate).toBe(today);
+    // No startDate of its own, so the next instance stands in
+    expect(todo?.startDate).toBe(today);
+  });
+
+  test("decodes the frequency from a TEXT plist", () => {
+    expect(queries.getTodoByUuid("repeat-weekly")?.recurrenceRule).toBe("weekly");
+  });
+
+  test("unknown frequency units are passed through", () => {
+    expect(queries.getTodoByUuid("repeat-unknown")?.recurrenceRule).toBe("every-999");
+  });
+
+  test("paused templates are left out of today", () => {
+    expect(uuids("today")).not.toContain("repeat-paused");
+  });
+
+  test("plain to-dos are not repeating", () => {
+    const todo = queries.getTodoByUuid("today-1");
+    expect(todo?.repeating).toBe(false);
+    expect(todo?.recurrenceRule).toBeNull();
+  });
+});
+
+describe("tags and checklists", () => {
+  test("to-dos carry their tag titles", () => {
+    expect(queries.getTodoByUuid("inbox-1")?.tags.sort()).toEqual(["@home", "Urgent"]);
+  });
+
+  test("checklist items come back in order with status", () => {
+    expect(queries.getTodoByUuid("inbox-1")?.checklist).toEqual([
+      { uuid: "inbox-1-check-0", title: "Find number", status: "incomplete" },
+      { uuid: "inbox-1-check-1", title: "Check calendar", status: "completed" },
+    ]);
+  });
+
+  test("getTags lists every tag by title with shortcuts", () => {
+    const tags = queries.getTags().items;
+    expect(tags.map((tag) => tag.title)).toEqual(["@home", "Focus", "Places", "Urgent"]);
+    expect(tags.find((tag) => tag.title === "@home")?.shortcut).toBe("h");
+  });
+
+  test("getTodosByTag returns open, untrashed to-dos", () => {
+    expect(queries.getTodosByTag("Urgent").items.map((todo) => todo.uuid).sort()).toEqual([
+      "inbox-1",
+      "project-todo-2",
+    ]);
+  });
+
+  test("tags report their parent", () => {
+    expect(queries.getTagByTitle("@home")).toEqual({
+      uuid: "tag-home",
+      title: "@home",
+      shortcut: "h",
+      parent: "tag-places",
+      parentTitle: "Places",
+    });
+  });
+
+  test("getTagTree nests child tags under their parent", () => {
+    const tree = queries.getTagTree();
+    expect(tree.map((tag) => tag.title)).toEqual(["Focus", "Places", "Urgent"]);
+    expect(tree[1].children.map((tag) => tag.title)).toEqual(["@home"]);
+    expect(queries.getTagDescendants("Places").map((tag) => tag.uuid)).toEqual(["tag-home"]);
+  });
+
+  test("getTodosByTag can include to-dos tagged with descendant tags", () => {
+    expect(queries.getTodosByTag("Places").items).toEqual([]);
+    expect(
+      queries.getTodosByTag("Places", { includeDescendants: true }).items.map((todo) => todo.uuid)
+    ).toEqual(["inbox-1"]);
+  });
+});
+
+// ─── Projects, Areas & Search ───
+
+describe("projects", () => {
+  test("getProjects lists open, untrashed projects with live to-do counts", () => {
+    const projects = queries.getProjects().items;
+    expect(projects.map((project) => project.uuid)).toEqual(["project-1"]);
+    expect(projects[0].todoCount).toBe(3);
+    expect(projects[0].areaTitle).toBe("Home");
+    expect(projects[0].tags).toEqual(["Focus"]);
+  });
+
+  test("getProjectByUuid returns loose to-dos in index order", () => {
+    const project = queries.getProjectByUuid("project-1");
+    expect(project?.todos.map((todo) => todo.uuid)).toEqual([
+      "project-todo-2",
+      "project-todo-1",
+    ]);
+  });
+
+  test("getProjectByUuid nests to-dos under their headings", () => {
+    const project = queries.getProjectByUuid("project-1");
+    expect(
+      project?.headings.map((heading) => ({
+        title: heading.title,
+        todos: heading.todos.map((todo) => todo.uuid),
+      }))
+    ).toEqual([
+      { title: "Phase 1", todos: ["heading-todo-1"] },
+      { title: "Phase 2", todos: [] },
+    ]);
+  });
+
+  test("to-dos under a heading resolve their project through it", () => {
+    const todo = queries.getTodoByUuid("heading-todo-1");
+    expect(todo?.heading).toBe("heading-1");
+    expect(todo?.headingTitle).toBe("Phase 1");
+    expect(todo?.project).toBe("project-1");
+    expect(todo?.projectTitle).toBe("Renovation");
+    expect(todo?.areaTitle).toBe("Home");
+  });
+
+  test("findHeading looks up a heading by project and heading title", () => {
+    expect(queries.findHeading("Renovation", "Phase 2")).toEqual({
+      uuid: "heading-2",
+      project: "project-1",
+    });
+    expect(queries.findHeading("Renovation", "Phase 9")).toBeNull();
+  });
+
+  test("project to-dos inherit the project's area", () => {
+    const todo = queries.getTodoByUuid("project-todo-1");
+    expect(todo?.projectTitle).toBe("Renovation");
+    expect(todo?.area).toBe("area-home");
+    expect(todo?.areaTitle).toBe("Home");
+  });
+
+  test("getTodoByUuid only returns to-dos", () => {
+    expect(queries.getTodoByUuid("project-1")).toBeNull();
+    expect(queries.getProjectByUuid("today-1")).toBeNull();
+  });
+});
+
+describe("areas and search", () => {
+  test("getAreas is sorted by title, with tags", () => {
+    expect(queries.getAreas().items).toEqual([
+      { uuid: "area-home", title: "Home", tags: ["Focus"] },
+      { uuid: "area-work", title: "Work", tags: [] },
+    ]);
+  });
+
+  test("getAreaByUuid returns open projects and loose to-dos", () => {
+    const area = queries.getAreaByUuid("area-home");
+    expect(area?.tags).toEqual(["Focus"]);
+    expect(area?.projects.map((project) => project.uuid)).toEqual(["project-1"]);
+    // Project to-dos inherit the area but aren't loose
+    expect(area?.todos.map((todo) => todo.uuid)).toEqual(["anytime-1"]);
+    expect(queries.getAreaByUuid("area-missing")).toBeNull();
+  });
+
+  test("searchTodos matches titles and notes, skipping the trash", () => {
+    const titles = queries.searchTodos("dentist").items.map((todo) => todo.uuid).sort();
+    expect(titles).toEqual(["inbox-1", "upcoming-1"]);
+    expect(queries.searchTodos("cleaning").items.map((todo) => todo.uuid)).toEqual(["inbox-1"]);
+    expect(queries.searchTodos("Old idea").items).toEqual([]);
+  });
+});
+
+// ─── Filters ───
+
+describe("filterTodos", () => {
+  const filtered = (filter: TodoFilter) =>
+    queries.filterTodos(filter).items.map((todo) => todo.uuid).sort();
+
+  test("tags match any by default, or all with tagMatch", () => {
+    expect(filtered({ tags: ["Urgent", "@home"] })).toEqual(["inbox-1", "project-todo-2"]);
+    expect(filtered({ tags: ["Urgent", "@home"], tagMatch: "all" })).toEqual(["inbox-1"]);
+  });
+
+  test("area and project match by title or UUID, through projects and headings", () => {
+    expect(filtered({ area: "Home" })).toEqual([
+      "anytime-1",
+      "heading-todo-1",
+      "project-todo-1",
+      "project-todo-2",
+    ]);
+    expect(filtered({ project: "project-1", tags: ["Urgent"] })).toEqual(["project-todo-2"]);
+  });
+
+  test("date ranges are inclusive", () => {
+    expect(filtered({ hasDeadline: true, deadlineBefore: daysFromToday(1) })).toEqual(["today-1"]);
+    expect(filtered({ deadlineAfter: daysFromToday(2) })).toEqual([]);
+    expect(filtered({ startFrom: daysFromToday(1), startTo: daysFromToday(3) })).toEqual([
+      "upcoming-1",
+    ]);
+  });
+
+  test("status, repeating and modifiedSince", () => {
+    expect(filtered({ status: ["completed", "canceled"] })).toEqual(["logbook-1", "logbook-2"]);
+    expect(filtered({ repeating: true })).toEqual([
+      "repeat-daily",
+      "repeat-paused",
+      "repeat-unknown",
+      "repeat-weekly",
+    ]);
+    expect(filtered({ modifiedSince: daysFromToday(1) })).toEqual([]);
+  });
+
+  test("inList matches the list views", () => {
+    for (const list of THINGS_LISTS) {
+      expect(filtered({ inList: list })).toEqual(uuids(list).sort());
+    }
+  });
+
+  test("parseTodoFilter ignores plain list requests and rejects bad values", () => {
+    expect(parseTodoFilter(new URLSearchParams("list=today"))).toBeNull();
+    expect(parseTodoFilter(new URLSearchParams("list=today&tags=Urgent"))).toEqual({
+      tags: ["Urgent"],
+      inList: "today",
+    });
+    expect(parseTodoFilter(new URLSearchParams("deadlineBefore=soon"))).toBe(
+      "deadlineBefore must be a date (YYYY-MM-DD)"
+    );
+    expect(typeof parseTodoFilter(new URLSearchParams("status=done"))).toBe("string");
+  });
+});
+
+// ─── Pagination ───
+
+describe("pagination", () => {
+  /** Walk a collection page by page, following nextCursor */
+  function walk(
+    fetch: (after: SortKey | null) => Page<{ uuid: string }>,
+    betweenPages?: () => void
+  ): string[] {
+    const seen: string[] = [];
+    let after: SortKey | null = null;
+    do {
+      const page = fetch(after);
+      seen.push(...page.items.map((item) => item.uuid));
+      after = page.nextCursor === null ? null : decodeCursor(page.nextCursor)!.after;
+      if (after !== null) betweenPages?.();
+    } while (after !== null);
+    return seen;
+  }
+
+  test("SQL-paged lists walk in the same order as the full list", () => {
+    const pages = walk((after) => queries.getTodosByList("anytime", { limit: 2, after }));
+    expect(pages).toEqual(uuids("anytime"));
+    expect(queries.getTodosByList("anytime", { limit: 2, after: null }).total).toBe(pages.length);
+  });
+
+  test("lists merged in memory page the same way", () => {
+    expect(walk((after) => queries.getTodosByList("upcoming", { limit: 3, after }))).toEqual(
+      uuids("upcoming")
+    );
+    expect(walk((after) => queries.getTodosByList("today", { limit: 1, after }))).toEqual(
+      uuids("today")
+    );
+  });
+
+  test("rows added ahead of the cursor between pages don't shift the rest", () => {
+    const before = uuids("anytime");
+    const things = new Database(THINGS_PATH);
+    let added = 0;
+    try {
+      const pages = walk(
+        (after) => queries.getTodosByList("anytime", { limit: 1, after }),
+        () => {
+          things
+            .query(
+              `INSERT INTO TMTask (uuid, title, type, status, trashed, start, startBucket, todayIndex)
+               VALUES (?, 'Jumped the queue', 0, 0, 0, 1, 0, ?)`
+            )
+            .run(`paging-${added}`, -100 - added++);
+        }
+      );
+      expect(added).toBeGreaterThan(0);
+      expect(pages).toEqual(before);
+    } finally {
+      things.query(`DELETE FROM TMTask WHERE uuid LIKE 'paging-%'`).run();
+      things.close();
+    }
+  });
+
+  test("the last page has no nextCursor", () => {
+    const page = queries.getProjects({ limit: 10, after: null });
+    expect(page.nextCursor).toBeNull();
+    expect(page.total).toBe(page.items.length);
+  });
+
+  test("cursors that weren't issued by the bridge are rejected", () => {
+    expect(decodeCursor(encodeCursor([2, "abc"]))).toEqual({ after: [2, "abc"] });
+    expect(decodeCursor("not-a-cursor")).toBeNull();
+    expect(decodeCursor(Buffer.from('{"offset":20}').toString("base64url"))).toBeNull();
+    expect(decodeCursor(Buffer.from('{"after":[{}]}').toString("base64url"))).toBeNull();
+  });
+});
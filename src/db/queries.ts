@@ -1,11 +1,24 @@
+import type { Database, SQLQueryBindings } from "bun:sqlite";
 import { getDb } from "./connection";
+import { compareKeys, queryPage, slicePage, type SortColumn } from "../pagination";
+import { compileTodoFilter } from "./filters";
+import { currentToken } from "../auth/context";
+import { isRestricted } from "../auth/tokens";
 import type {
   Todo,
   ChecklistItem,
   Project,
+  ProjectDetail,
   Area,
+  AreaDetail,
   Tag,
+  TagNode,
+  EntityKind,
   ThingsList,
+  TodoFilter,
+  Page,
+  PageRequest,
+  SortKey,
 } from "../types";
 
 // ─── Constants ───
@@ -23,9 +36,10 @@ const START_BUCKET = { ANYTIME: 0, SOMEDAY: 1 } as const;
  * Epoch offset for startDate/deadline fields.
  * These fields use a database-specific epoch (not Unix or Cocoa).
  * We calibrate dynamically at first query by comparing a "today" task's
- * startDate to today's actual date. Fallback: 1637712000 (Nov 24, 2021 UTC).
+ * startDate to today's actual date — again whenever the database is
+ * reopened. Fallback: 1637712000 (Nov 24, 2021 UTC).
  */
-let startDateEpochOffset: number | null = null;
+const startDateEpochOffsets = new WeakMap<Database, number>();
 
 // ─── Helpers ───
 
@@ -79,9 +93,11 @@ function unixToISO(timestamp: number | null): string | null {
  * startDate uses a database-specific epoch. We detect it dynamically.
  */
 function calibrateStartDateEpoch(): number {
-  if (startDateEpochOffset !== null) return startDateEpochOffset;
-
   const db = getDb();
+  const calibrated = startDateEpochOffsets.get(db);
+  if (calibrated !== undefined) return calibrated;
+
+  let offset: number;
   const row = db
     .query<{ startDate: number }, []>(
       `SELECT startDate FROM TMTask
@@ -95,13 +111,14 @@ function calibrateStartDateEpoch(): number {
     const todayMidnightUnix =
       Math.floor(Date.now() / 86400000) * 86400; // today midnight UTC
     const taskDay = Math.floor(row.startDate / 86400);
-    startDateEpochOffset = todayMidnightUnix - taskDay * 86400;
+    offset = todayMidnightUnix - taskDay * 86400;
   } else {
     // Fallback offset (known to work for this database)
-    startDateEpochOffset = 1637712000;
+    offset = 1637712000;
   }
 
-  return startDateEpochOffset;
+  startDateEpochOffsets.set(db, offset);
+  return offset;
 }
 
 /**
@@ -117,41 +134,88 @@ function thingsScheduleDateToString(
   return new Date(unixTimestamp * 1000).toISOString().split("T")[0];
 }
 
-/** Get tags for a given task UUID */
-function getTagsForTask(taskUuid: string): string[] {
-  const db = getDb();
-  const rows = db
-    .query<{ title: string }, [string]>(
-      `SELECT t.title
-       FROM TMTag t
-       JOIN TMTaskTag tt ON tt.tags = t.uuid
-       WHERE tt.tasks = ?`
+/**
+ * Convert a YYYY-MM-DD string to the Things startDate/deadline encoding.
+ * Inverse of thingsScheduleDateToString; NaN if the date doesn't parse.
+ */
+export function stringToThingsScheduleDate(date: string): number {
+  const offset = calibrateStartDateEpoch();
+  const unixMidnight = Math.floor(Date.parse(`${date}T00:00:00Z`) / 1000);
+  return unixMidnight - offset;
+}
+
+// ─── Related Rows (batched) ───
+
+// Tags and checklist items are loaded for a whole result set at once: one
+// query per kind, with the owner UUIDs passed as a single JSON array so the
+// SQL text — and so Bun's cached prepared statement — is the same whatever
+// the batch size.
+
+/** Group rows under their owner UUID, keeping query order within each group */
+function groupByOwner<R extends { owner: string }, V>(
+  rows: R[],
+  value: (row: R) => V
+): Map<string, V[]> {
+  const groups = new Map<string, V[]>();
+  for (const row of rows) {
+    const group = groups.get(row.owner);
+    if (group) group.push(value(row));
+    else groups.set(row.owner, [value(row)]);
+  }
+  return groups;
+}
+
+/** Get tag titles for many tasks, keyed by task UUID */
+function getTagsForTasks(taskUuids: string[]): Map<string, string[]> {
+  if (taskUuids.length === 0) return new Map();
+  const rows = getDb()
+    .query<{ owner: string; title: string }, [string]>(
+      `SELECT tt.tasks AS owner, t.title
+       FROM TMTaskTag tt
+       JOIN TMTag t ON tt.tags = t.uuid
+       WHERE tt.tasks IN (SELECT value FROM json_each(?))`
     )
-    .all(taskUuid);
-  return rows.map((r) => r.title);
+    .all(JSON.stringify(taskUuids));
+  return groupByOwner(rows, (row) => row.title);
 }
 
-/** Get checklist items for a given task UUID */
-function getChecklistForTask(taskUuid: string): ChecklistItem[] {
-  const db = getDb();
-  const rows = db
-    .query<
-      { uuid: string; title: string; status: number },
-      [string]
-    >(
-      `SELECT uuid, title, status
-       FROM TMChecklistItem
-       WHERE task = ?
-       ORDER BY "index" ASC`
+/** Get tag titles for many areas, keyed by area UUID */
+function getTagsForAreas(areaUuids: string[]): Map<string, string[]> {
+  if (areaUuids.length === 0) return new Map();
+  const rows = getDb()
+    .query<{ owner: string; title: string }, [string]>(
+      `SELECT at.areas AS owner, t.title
+       FROM TMAreaTag at
+       JOIN TMTag t ON at.tags = t.uuid
+       WHERE at.areas IN (SELECT value FROM json_each(?))`
+    )
+    .all(JSON.stringify(areaUuids));
+  return groupByOwner(rows, (row) => row.title);
+}
+
+/** Get checklist items for many tasks, keyed by task UUID, in checklist order */
+function getChecklistsForTasks(taskUuids: string[]): Map<string, ChecklistItem[]> {
+  if (taskUuids.length === 0) return new Map();
+  const rows = getDb()
+    .query<{ owner: string; uuid: string; title: string; status: number }, [string]>(
+      `SELECT c.task AS owner, c.uuid, c.title, c.status
+       FROM json_each(?) owners
+       JOIN TMChecklistItem c ON c.task = owners.value
+       ORDER BY owners.key, c."index" ASC`
     )
-    .all(taskUuid);
-  return rows.map((r) => ({
-    uuid: r.uuid,
-    title: r.title,
-    status: statusToString(r.status),
+    .all(JSON.stringify(taskUuids));
+  return groupByOwner(rows, (row) => ({
+    uuid: row.uuid,
+    title: row.title,
+    status: statusToString(row.status),
   }));
 }
 
+/** Get checklist items for a given task UUID */
+export function getChecklistForTask(taskUuid: string): ChecklistItem[] {
+  return getChecklistsForTasks([taskUuid]).get(taskUuid) ?? [];
+}
+
 // ─── Raw row type from SQLite ───
 
 interface RawTaskRow {
@@ -169,12 +233,16 @@ interface RawTaskRow {
   stopDate: number | null;
   project: string | null;
   projectTitle: string | null;
+  heading: string | null;
+  headingTitle: string | null;
   area: string | null;
   areaTitle: string | null;
   reminderTime: number | null;
   rt1_recurrenceRule: unknown;
   rt1_nextInstanceStartDate: number | null;
   rt1_instanceCreationPaused: number | null;
+  index: number | null; // position in its list or project
+  todayIndex: number | null; // position in Today and Anytime
 }
 
 /** Map frequency unit integer from recurrenceRule plist to human-readable string */
@@ -221,7 +289,11 @@ function parseRecurrenceRule(raw: unknown): string | null {
   }
 }
 
-function rowToTodo(row: RawTaskRow): Todo {
+function rowToTodo(
+  row: RawTaskRow,
+  tags: string[],
+  checklist: ChecklistItem[]
+): Todo {
   const isRecurring = row.rt1_recurrenceRule != null;
   const nextInstanceDate = thingsScheduleDateToString(
     row.rt1_nextInstanceStartDate
@@ -250,10 +322,12 @@ function rowToTodo(row: RawTaskRow): Todo {
     completedAt: unixToISO(row.stopDate),
     project: row.project,
     projectTitle: row.projectTitle,
+    heading: row.heading,
+    headingTitle: row.headingTitle,
     area: row.area,
     areaTitle: row.areaTitle,
-    tags: getTagsForTask(row.uuid),
-    checklist: getChecklistForTask(row.uuid),
+    tags,
+    checklist,
     reminderTime: unixToISO(row.reminderTime),
     repeating: isRecurring,
     recurrenceRule: parseRecurrenceRule(row.rt1_recurrenceRule),
@@ -261,8 +335,21 @@ function rowToTodo(row: RawTaskRow): Todo {
   };
 }
 
+/** Map task rows to to-dos, loading tags and checklists for all of them at once */
+function rowsToTodos(rows: RawTaskRow[]): Todo[] {
+  const uuids = rows.map((row) => row.uuid);
+  const tags = getTagsForTasks(uuids);
+  const checklists = getChecklistsForTasks(uuids);
+  return rows.map((row) =>
+    rowToTodo(row, tags.get(row.uuid) ?? [], checklists.get(row.uuid) ?? [])
+  );
+}
+
 // ─── Base query for tasks ───
 
+// To-dos under a heading have no project of their own — Things links them
+// to the heading, and the heading to the project. Resolve through both.
+
 const BASE_TASK_SELECT = `
   SELECT
     t.uuid,
@@ -277,30 +364,195 @@ const BASE_TASK_SELECT = `
     t.creationDate,
     t.userModificationDate,
     t.stopDate,
-    t.project,
+    COALESCE(t.project, h.project) AS project,
     p.title AS projectTitle,
+    t.heading,
+    h.title AS headingTitle,
     COALESCE(t.area, p.area) AS area,
     a.title AS areaTitle,
     t.reminderTime,
     t.rt1_recurrenceRule,
     t.rt1_nextInstanceStartDate,
-    t.rt1_instanceCreationPaused
+    t.rt1_instanceCreationPaused,
+    t."index",
+    t.todayIndex
   FROM TMTask t
-  LEFT JOIN TMTask p ON t.project = p.uuid
+  LEFT JOIN TMTask h ON t.heading = h.uuid
+  LEFT JOIN TMTask p ON COALESCE(t.project, h.project) = p.uuid
   LEFT JOIN TMArea a ON COALESCE(t.area, p.area) = a.uuid
 `;
 
+/**
+ * Count of a project's to-dos (`t`), including those under headings. Split
+ * in two so each half can use the project/heading indexes instead of
+ * scanning every task once per project; CROSS JOIN keeps SQLite from
+ * starting at the (many) to-dos with no project.
+ */
+const PROJECT_TODO_COUNT = `
+  ((SELECT COUNT(*) FROM TMTask sub
+    WHERE sub.project = t.uuid
+      AND sub.type = ${TYPE.TODO}
+      AND sub.trashed = 0)
+   + (SELECT COUNT(*) FROM TMTask sh
+      CROSS JOIN TMTask sub ON sub.heading = sh.uuid
+      WHERE sh.project = t.uuid
+        AND sub.project IS NULL
+        AND sub.type = ${TYPE.TODO}
+        AND sub.trashed = 0))
+`;
+
+// ─── Base query for projects ───
+
+const PROJECT_SELECT = `
+  SELECT
+    t.uuid, t.title, t.type, t.status, t.start, t.notes,
+    t.startDate, t.startBucket, t.deadline,
+    t.creationDate, t.userModificationDate, t.stopDate,
+    NULL AS project, NULL AS projectTitle,
+    NULL AS heading, NULL AS headingTitle,
+    t.area, a.title AS areaTitle,
+    t.reminderTime,
+    t."index", t.todayIndex,
+    ${PROJECT_TODO_COUNT} AS todoCount
+  FROM TMTask t
+  LEFT JOIN TMArea a ON t.area = a.uuid
+`;
+
+type RawProjectRow = RawTaskRow & { todoCount: number };
+
+function rowToProject(row: RawProjectRow, tags: string[]): Project {
+  return {
+    uuid: row.uuid,
+    title: row.title ?? "",
+    status: statusToString(row.status),
+    notes: row.notes ?? "",
+    start: startToString(row.start, row.startBucket, row.startDate),
+    startDate: thingsScheduleDateToString(row.startDate),
+    deadline: thingsScheduleDateToString(row.deadline),
+    createdAt: unixToISO(row.creationDate) ?? "",
+    modifiedAt: unixToISO(row.userModificationDate) ?? "",
+    completedAt: unixToISO(row.stopDate),
+    area: row.area,
+    areaTitle: row.areaTitle,
+    tags,
+    todoCount: row.todoCount,
+  };
+}
+
+/** Map project rows to projects, loading tags for all of them at once */
+function rowsToProjects(rows: RawProjectRow[]): Project[] {
+  const tags = getTagsForTasks(rows.map((row) => row.uuid));
+  return rows.map((row) => rowToProject(row, tags.get(row.uuid) ?? []));
+}
+
+// ─── Visibility ───
+
+// A token limited to some areas or tags (see auth/tokens.ts) only ever sees
+// matching rows: every query below adds one of these conditions, which are
+// "1" for unrestricted tokens. A to-do counts its project's tags as its own.
+
+/** Quote strings as SQL literals — token settings, never request input */
+function sqlList(values: string[]): string {
+  return values.map((value) => `'${value.replace(/'/g, "''")}'`).join(", ");
+}
+
+/** Areas named by UUID or title */
+function areaSet(names: string[]): string {
+  const list = sqlList(names);
+  return `(SELECT uuid FROM TMArea WHERE uuid IN (${list}) OR title IN (${list}))`;
+}
+
+/** Whether one of the tasks `owners` carries one of the tags */
+function hasTag(owners: string, titles: string[]): string {
+  return `EXISTS (SELECT 1 FROM TMTaskTag vt JOIN TMTag vg ON vt.tags = vg.uuid
+    WHERE vt.tasks IN (${owners}) AND vg.title IN (${sqlList(titles)}))`;
+}
+
+/** Condition on a task whose area is `area` and whose tags are those of `owners` */
+function visibleTask(owners: string, area: string): string {
+  const token = currentToken();
+  const conditions: string[] = [];
+  if (token.areas.length > 0) {
+    conditions.push(`${area} IN ${areaSet(token.areas)}`);
+  }
+  if (token.excludeAreas.length > 0) {
+    conditions.push(`(${area} IS NULL OR ${area} NOT IN ${areaSet(token.excludeAreas)})`);
+  }
+  if (token.tags.length > 0) conditions.push(hasTag(owners, token.tags));
+  if (token.excludeTags.length > 0) conditions.push(`NOT ${hasTag(owners, token.excludeTags)}`);
+  return conditions.length > 0 ? `(${conditions.join(" AND ")})` : "1";
+}
+
+/** Visible to-dos in BASE_TASK_SELECT */
+function visibleTodo(): string {
+  return visibleTask("t.uuid, p.uuid", "COALESCE(t.area, p.area)");
+}
+
+/** Visible projects, aliased `alias` */
+function visibleProject(alias = "t"): string {
+  return visibleTask(`${alias}.uuid`, `${alias}.area`);
+}
+
+/** Visible areas, by the SQL for their UUID */
+function visibleArea(uuid: string): string {
+  const token = currentToken();
+  const conditions: string[] = [];
+  if (token.areas.length > 0) conditions.push(`${uuid} IN ${areaSet(token.areas)}`);
+  if (token.excludeAreas.length > 0) {
+    conditions.push(`${uuid} NOT IN ${areaSet(token.excludeAreas)}`);
+  }
+  return conditions.length > 0 ? `(${conditions.join(" AND ")})` : "1";
+}
+
+/** Visible tags, by the SQL for their title */
+function visibleTag(title: string): string {
+  const token = currentToken();
+  const conditions: string[] = [];
+  if (token.tags.length > 0) conditions.push(`${title} IN (${sqlList(token.tags)})`);
+  if (token.excludeTags.length > 0) {
+    conditions.push(`${title} NOT IN (${sqlList(token.excludeTags)})`);
+  }
+  return conditions.length > 0 ? `(${conditions.join(" AND ")})` : "1";
+}
+
+// ─── Pagination ───
+
+/** Paged queries end with the uuid, so rows that tie still have one order */
+const BY_UUID: SortColumn = { column: "uuid" };
+
+/** Most recently modified first */
+const BY_MODIFIED: SortColumn[] = [{ column: "userModificationDate", desc: true }, BY_UUID];
+
+/** Run a paged query against the Things database */
+function thingsPage<R>(
+  select: string,
+  order: SortColumn[],
+  params: SQLQueryBindings[],
+  page?: PageRequest
+): Page<R> {
+  return queryPage<R>(getDb(), select, order, params, page);
+}
+
+function mapPage<R, T>(page: Page<R>, map: (rows: R[]) => T[]): Page<T> {
+  return { ...page, items: map(page.items) };
+}
+
 // ─── Public Query Functions ───
 
-/** Get to-dos from a specific built-in list */
-export function getTodosByList(list: ThingsList): Todo[] {
+/**
+ * Get to-dos from a specific built-in list, one page at a time
+ * (the whole list when `page` is omitted).
+ */
+export function getTodosByList(list: ThingsList, page?: PageRequest): Page<Todo> {
   const db = getDb();
   let where: string;
+  let order: SortColumn[];
 
   switch (list) {
     case "inbox":
       where = `
         WHERE t.type = ${TYPE.TODO}
+          AND ${visibleTodo()}
           AND t.status = ${STATUS.INCOMPLETE}
           AND t.trashed = 0
           AND t.start = 0
@@ -309,6 +561,7 @@ export function getTodosByList(list: ThingsList): Todo[] {
           AND t.project IS NULL
           AND t.heading IS NULL
       `;
+      order = [{ column: "index" }, BY_UUID];
       break;
 
     case "today": {
@@ -326,11 +579,12 @@ export function getTodosByList(list: ThingsList): Todo[] {
         .query<RawTaskRow, []>(
           `${BASE_TASK_SELECT}
            WHERE t.type = ${TYPE.TODO}
+             AND ${visibleTodo()}
              AND t.status = ${STATUS.INCOMPLETE}
              AND t.trashed = 0
              AND t.start = 1
              AND t.startDate IS NOT NULL
-           ORDER BY t.todayIndex ASC`
+           ORDER BY t.todayIndex ASC, t.uuid ASC`
         )
         .all();
 
@@ -339,13 +593,14 @@ export function getTodosByList(list: ThingsList): Todo[] {
         .query<RawTaskRow, [number, number]>(
           `${BASE_TASK_SELECT}
            WHERE t.type = ${TYPE.TODO}
+             AND ${visibleTodo()}
              AND t.status = ${STATUS.INCOMPLETE}
              AND t.trashed = 0
              AND t.rt1_recurrenceRule IS NOT NULL
              AND t.rt1_instanceCreationPaused = 0
              AND t.rt1_nextInstanceStartDate >= ?
              AND t.rt1_nextInstanceStartDate < ?
-           ORDER BY t.rt1_nextInstanceStartDate ASC`
+           ORDER BY t.rt1_nextInstanceStartDate ASC, t.uuid ASC`
         )
         .all(todayStart, todayEnd);
 
@@ -355,7 +610,11 @@ export function getTodosByList(list: ThingsList): Todo[] {
         ...todayRows,
         ...recurringTodayRows.filter((r) => !seenUuids.has(r.uuid)),
       ];
-      return combined.map(rowToTodo);
+      const keyOf = (r: RawTaskRow): SortKey =>
+        seenUuids.has(r.uuid)
+          ? [0, r.todayIndex, r.uuid]
+          : [1, r.rt1_nextInstanceStartDate, r.uuid];
+      return mapPage(slicePage(combined, page, keyOf), rowsToTodos);
     }
 
     case "upcoming": {
@@ -365,25 +624,27 @@ export function getTodosByList(list: ThingsList): Todo[] {
         Math.floor(Date.now() / 86400000) * 86400;
       const todayThingsValue = todayMidnightUnix - offset;
 
-      // Regular future tasks
+      // Regular future tasks — Things keeps these in the Someday start (2)
+      // until their date arrives, then flips them to Anytime (1)
       const regularRows = db
-        .query<RawTaskRow, []>(
+        .query<RawTaskRow, [number]>(
           `${BASE_TASK_SELECT}
            WHERE t.type = ${TYPE.TODO}
+             AND ${visibleTodo()}
              AND t.status = ${STATUS.INCOMPLETE}
              AND t.trashed = 0
-             AND t.start = 1
              AND t.startDate IS NOT NULL
-             AND t.startBucket = 0
+             AND t.startDate > ?
            ORDER BY t.startDate ASC`
         )
-        .all();
+        .all(todayThingsValue);
 
       // Recurring templates that are active (not paused) with a future next instance
       const recurringRows = db
         .query<RawTaskRow, [number]>(
           `${BASE_TASK_SELECT}
            WHERE t.type = ${TYPE.TODO}
+             AND ${visibleTodo()}
              AND t.status = ${STATUS.INCOMPLETE}
              AND t.trashed = 0
              AND t.rt1_recurrenceRule IS NOT NULL
@@ -404,55 +665,75 @@ export function getTodosByList(list: ThingsList): Todo[] {
         }
       }
       // Sort by effective date: use rt1_nextInstanceStartDate for recurring, startDate for regular
-      allRows.sort((a, b) => {
-        const dateA = a.rt1_recurrenceRule
-          ? (a.rt1_nextInstanceStartDate ?? Infinity)
-          : (a.startDate ?? Infinity);
-        const dateB = b.rt1_recurrenceRule
-          ? (b.rt1_nextInstanceStartDate ?? Infinity)
-          : (b.startDate ?? Infinity);
-        return dateA - dateB;
-      });
-      return allRows.map(rowToTodo);
+      const keyOf = (r: RawTaskRow): SortKey => [
+        (r.rt1_recurrenceRule ? r.rt1_nextInstanceStartDate : r.startDate) ??
+          Number.MAX_SAFE_INTEGER,
+        r.uuid,
+      ];
+      allRows.sort((a, b) => compareKeys(keyOf(a), keyOf(b)));
+      return mapPage(slicePage(allRows, page, keyOf), rowsToTodos);
     }
 
     case "anytime":
       where = `
         WHERE t.type = ${TYPE.TODO}
+          AND ${visibleTodo()}
           AND t.status = ${STATUS.INCOMPLETE}
           AND t.trashed = 0
           AND t.start = 1
           AND t.startBucket = ${START_BUCKET.ANYTIME}
-        ORDER BY t.todayIndex ASC
       `;
+      order = [{ column: "todayIndex" }, BY_UUID];
       break;
 
     case "someday":
       where = `
         WHERE t.type = ${TYPE.TODO}
+          AND ${visibleTodo()}
           AND t.status = ${STATUS.INCOMPLETE}
           AND t.trashed = 0
           AND t.start = 2
-        ORDER BY t.creationDate DESC
+          AND t.startDate IS NULL
       `;
+      order = [{ column: "creationDate", desc: true }, BY_UUID];
       break;
 
     case "logbook":
       where = `
         WHERE t.type = ${TYPE.TODO}
+          AND ${visibleTodo()}
           AND t.status IN (${STATUS.COMPLETED}, ${STATUS.CANCELED})
           AND t.trashed = 0
-        ORDER BY t.stopDate DESC
-        LIMIT 50
       `;
+      order = [{ column: "stopDate", desc: true }, BY_UUID];
       break;
 
     default:
       where = `WHERE 1 = 0`;
+      order = [BY_UUID];
   }
 
-  const rows = db.query<RawTaskRow, []>(`${BASE_TASK_SELECT} ${where}`).all();
-  return rows.map(rowToTodo);
+  return mapPage(
+    thingsPage<RawTaskRow>(`${BASE_TASK_SELECT} ${where}`, order, [], page),
+    rowsToTodos
+  );
+}
+
+/**
+ * Get to-dos matching a combination of filters (see db/filters.ts), most
+ * recently modified first.
+ */
+export function filterTodos(filter: TodoFilter, page?: PageRequest): Page<Todo> {
+  const { where, params } = compileTodoFilter(filter, stringToThingsScheduleDate);
+  return mapPage(
+    thingsPage<RawTaskRow>(
+      `${BASE_TASK_SELECT} ${where} AND ${visibleTodo()}`,
+      BY_MODIFIED,
+      params,
+      page
+    ),
+    rowsToTodos
+  );
 }
 
 /** Get a single to-do by UUID */
@@ -461,162 +742,467 @@ export function getTodoByUuid(uuid: string): Todo | null {
   const row = db
     .query<RawTaskRow, [string]>(
       `${BASE_TASK_SELECT}
-       WHERE t.uuid = ? AND t.type = ${TYPE.TODO}`
+       WHERE t.uuid = ? AND t.type = ${TYPE.TODO} AND ${visibleTodo()}`
     )
     .get(uuid);
-  return row ? rowToTodo(row) : null;
+  return row ? rowsToTodos([row])[0] : null;
 }
 
-/** Search to-dos by title or notes */
-export function searchTodos(query: string): Todo[] {
-  const db = getDb();
+/** Whether a task is in the Trash */
+export function isTrashed(uuid: string): boolean {
+  const row = getDb()
+    .query<{ trashed: number }, [string]>(`SELECT trashed FROM TMTask WHERE uuid = ?`)
+    .get(uuid);
+  return row?.trashed === 1;
+}
+
+/** Search to-dos by title or notes, most recently modified first */
+export function searchTodos(query: string, page?: PageRequest): Page<Todo> {
   const pattern = `%${query}%`;
-  const rows = db
-    .query<RawTaskRow, [string, string]>(
-      `${BASE_TASK_SELECT}
-       WHERE t.type = ${TYPE.TODO}
-         AND t.trashed = 0
-         AND (t.title LIKE ? OR t.notes LIKE ?)
-       ORDER BY t.userModificationDate DESC
-       LIMIT 50`
+  const rows = thingsPage<RawTaskRow>(
+    `${BASE_TASK_SELECT}
+     WHERE t.type = ${TYPE.TODO}
+       AND t.trashed = 0
+       AND (t.title LIKE ? OR t.notes LIKE ?)
+       AND ${visibleTodo()}`,
+    BY_MODIFIED,
+    [pattern, pattern],
+    page
+  );
+  return mapPage(rows, rowsToTodos);
+}
+
+/** Get open projects, by title */
+export function getProjects(page?: PageRequest): Page<Project> {
+  const rows = thingsPage<RawProjectRow>(
+    `${PROJECT_SELECT}
+     WHERE t.type = ${TYPE.PROJECT}
+       AND t.trashed = 0
+       AND t.status = ${STATUS.INCOMPLETE}
+       AND ${visibleProject()}`,
+    [{ column: "title" }, BY_UUID],
+    [],
+    page
+  );
+  return mapPage(rows, rowsToProjects);
+}
+
+/** Get a single project by UUID, without its to-dos */
+export function getProjectSummary(uuid: string): Project | null {
+  const db = getDb();
+  const row = db
+    .query<RawProjectRow, [string]>(
+      `${PROJECT_SELECT}
+       WHERE t.uuid = ? AND t.type = ${TYPE.PROJECT} AND ${visibleProject()}`
     )
-    .all(pattern, pattern);
-  return rows.map(rowToTodo);
+    .get(uuid);
+  return row ? rowsToProjects([row])[0] : null;
 }
 
-/** Get all projects */
-export function getProjects(): Project[] {
+/**
+ * Get a single project by UUID with its to-dos. To-dos under a heading are
+ * nested in `headings`; `todos` holds the ones directly in the project.
+ */
+export function getProjectByUuid(uuid: string): ProjectDetail | null {
   const db = getDb();
-  const rows = db
-    .query<
-      RawTaskRow & { todoCount: number },
-      []
-    >(
-      `SELECT
-        t.uuid, t.title, t.type, t.status, t.start, t.notes,
-        t.startDate, t.startBucket, t.deadline,
-        t.creationDate, t.userModificationDate, t.stopDate,
-        NULL AS project, NULL AS projectTitle,
-        t.area, a.title AS areaTitle,
-        t.reminderTime,
-        (SELECT COUNT(*) FROM TMTask sub
-         WHERE sub.project = t.uuid AND sub.type = ${TYPE.TODO} AND sub.trashed = 0) AS todoCount
-       FROM TMTask t
-       LEFT JOIN TMArea a ON t.area = a.uuid
-       WHERE t.type = ${TYPE.PROJECT}
+  const project = getProjectSummary(uuid);
+  if (!project) return null;
+
+  // Get todos in this project, directly or under one of its headings
+  const todoRows = db
+    .query<RawTaskRow, [string]>(
+      `${BASE_TASK_SELECT}
+       WHERE COALESCE(t.project, h.project) = ?
+         AND t.type = ${TYPE.TODO}
          AND t.trashed = 0
-         AND t.status = ${STATUS.INCOMPLETE}
-       ORDER BY t.title ASC`
+         AND ${visibleTodo()}
+       ORDER BY t."index" ASC`
     )
-    .all();
+    .all(uuid);
+  const todos = rowsToTodos(todoRows);
 
-  return rows.map((row) => ({
-    uuid: row.uuid,
-    title: row.title ?? "",
-    status: statusToString(row.status),
-    notes: row.notes ?? "",
-    start: startToString(row.start, row.startBucket, row.startDate),
-    startDate: thingsScheduleDateToString(row.startDate),
-    deadline: thingsScheduleDateToString(row.deadline),
-    createdAt: unixToISO(row.creationDate) ?? "",
-    modifiedAt: unixToISO(row.userModificationDate) ?? "",
-    completedAt: unixToISO(row.stopDate),
-    area: row.area,
-    areaTitle: row.areaTitle,
-    tags: getTagsForTask(row.uuid),
-    todoCount: row.todoCount,
-  }));
+  const headings = db
+    .query<{ uuid: string; title: string | null }, [string]>(
+      `SELECT uuid, title FROM TMTask
+       WHERE project = ? AND type = ${TYPE.HEADING} AND trashed = 0
+       ORDER BY "index" ASC`
+    )
+    .all(uuid)
+    .map((heading) => ({
+      uuid: heading.uuid,
+      title: heading.title ?? "",
+      todos: todos.filter((todo) => todo.heading === heading.uuid),
+    }));
+
+  return {
+    ...project,
+    todos: todos.filter((todo) => todo.heading === null),
+    headings,
+  };
 }
 
-/** Get a single project by UUID with its to-dos */
-export function getProjectByUuid(
-  uuid: string
-): (Project & { todos: Todo[] }) | null {
+/** Get areas, by title */
+export function getAreas(page?: PageRequest): Page<Area> {
+  const rows = thingsPage<{ uuid: string; title: string }>(
+    `SELECT uuid, title FROM TMArea WHERE ${visibleArea("uuid")}`,
+    [{ column: "title" }, BY_UUID],
+    [],
+    page
+  );
+  return mapPage(rows, (areas) => {
+    const tags = getTagsForAreas(areas.map((area) => area.uuid));
+    return areas.map((area) => ({ ...area, tags: tags.get(area.uuid) ?? [] }));
+  });
+}
+
+/** Get a single area with its open projects and loose to-dos */
+export function getAreaByUuid(uuid: string): AreaDetail | null {
   const db = getDb();
-  const row = db
-    .query<
-      RawTaskRow & { todoCount: number },
-      [string]
-    >(
-      `SELECT
-        t.uuid, t.title, t.type, t.status, t.start, t.notes,
-        t.startDate, t.startBucket, t.deadline,
-        t.creationDate, t.userModificationDate, t.stopDate,
-        NULL AS project, NULL AS projectTitle,
-        t.area, a.title AS areaTitle,
-        t.reminderTime,
-        (SELECT COUNT(*) FROM TMTask sub
-         WHERE sub.project = t.uuid AND sub.type = ${TYPE.TODO} AND sub.trashed = 0) AS todoCount
-       FROM TMTask t
-       LEFT JOIN TMArea a ON t.area = a.uuid
-       WHERE t.uuid = ? AND t.type = ${TYPE.PROJECT}`
+  const area = db
+    .query<{ uuid: string; title: string }, [string]>(
+      `SELECT uuid, title FROM TMArea WHERE uuid = ? AND ${visibleArea("uuid")}`
     )
     .get(uuid);
 
-  if (!row) return null;
+  if (!area) return null;
+
+  const projectRows = db
+    .query<RawProjectRow, [string]>(
+      `${PROJECT_SELECT}
+       WHERE t.area = ?
+         AND t.type = ${TYPE.PROJECT}
+         AND t.trashed = 0
+         AND t.status = ${STATUS.INCOMPLETE}
+         AND ${visibleProject()}
+       ORDER BY t."index" ASC`
+    )
+    .all(uuid);
 
-  // Get todos in this project
+  // Loose to-dos: filed directly in the area, not inside one of its projects
   const todoRows = db
     .query<RawTaskRow, [string]>(
       `${BASE_TASK_SELECT}
-       WHERE t.project = ? AND t.type = ${TYPE.TODO} AND t.trashed = 0
+       WHERE t.area = ?
+         AND t.project IS NULL
+         AND t.heading IS NULL
+         AND t.type = ${TYPE.TODO}
+         AND t.trashed = 0
+         AND t.status = ${STATUS.INCOMPLETE}
+         AND ${visibleTodo()}
        ORDER BY t."index" ASC`
     )
     .all(uuid);
 
   return {
-    uuid: row.uuid,
-    title: row.title ?? "",
-    status: statusToString(row.status),
-    notes: row.notes ?? "",
-    start: startToString(row.start, row.startBucket, row.startDate),
-    startDate: thingsScheduleDateToString(row.startDate),
-    deadline: thingsScheduleDateToString(row.deadline),
-    createdAt: unixToISO(row.creationDate) ?? "",
-    modifiedAt: unixToISO(row.userModificationDate) ?? "",
-    completedAt: unixToISO(row.stopDate),
-    area: row.area,
-    areaTitle: row.areaTitle,
-    tags: getTagsForTask(row.uuid),
-    todoCount: row.todoCount,
-    todos: todoRows.map(rowToTodo),
+    uuid: area.uuid,
+    title: area.title ?? "",
+    tags: getTagsForAreas([area.uuid]).get(area.uuid) ?? [],
+    projects: rowsToProjects(projectRows),
+    todos: rowsToTodos(todoRows),
   };
 }
 
-/** Get all areas */
-export function getAreas(): Area[] {
+/** Find an open project by title — the newest, if several share it */
+export function findProject(title: string): { uuid: string } | null {
+  return (
+    getDb()
+      .query<{ uuid: string }, [string]>(
+        `SELECT t.uuid FROM TMTask t
+         WHERE t.type = ${TYPE.PROJECT} AND t.trashed = 0 AND t.title = ?
+           AND ${visibleProject()}
+         ORDER BY t.creationDate DESC
+         LIMIT 1`
+      )
+      .get(title) ?? null
+  );
+}
+
+/** Find an area by title */
+export function findArea(title: string): { uuid: string } | null {
+  return (
+    getDb()
+      .query<{ uuid: string }, [string]>(
+        `SELECT uuid FROM TMArea WHERE title = ? AND ${visibleArea("uuid")} LIMIT 1`
+      )
+      .get(title) ?? null
+  );
+}
+
+/** Find a heading by title inside a project (by project title) */
+export function findHeading(
+  projectTitle: string,
+  headingTitle: string
+): { uuid: string; project: string } | null {
+  const db = getDb();
+  return (
+    db
+      .query<{ uuid: string; project: string }, [string, string]>(
+        `SELECT h.uuid, h.project
+         FROM TMTask h
+         JOIN TMTask p ON h.project = p.uuid
+         WHERE h.type = ${TYPE.HEADING}
+           AND h.trashed = 0
+           AND h.title = ?
+           AND p.type = ${TYPE.PROJECT}
+           AND p.trashed = 0
+           AND p.title = ?
+           AND ${visibleProject("p")}
+         ORDER BY p.creationDate DESC
+         LIMIT 1`
+      )
+      .get(headingTitle, projectTitle) ?? null
+  );
+}
+
+const TAG_SELECT = `
+  SELECT tag.uuid, tag.title, tag.shortcut, tag.parent, parent.title AS parentTitle
+  FROM TMTag tag
+  LEFT JOIN TMTag parent ON tag.parent = parent.uuid`;
+
+/**
+ * Recursive CTE `tag_tree(uuid)`: the tag titled ?1 plus every tag nested
+ * under it. UNION (not UNION ALL) stops at a cycle instead of looping.
+ */
+const TAG_TREE_CTE = `
+  WITH RECURSIVE tag_tree(uuid) AS (
+    SELECT uuid FROM TMTag WHERE title = ?1
+    UNION
+    SELECT child.uuid FROM TMTag child JOIN tag_tree ON child.parent = tag_tree.uuid
+  )`;
+
+/** Get tags (flat, by title) */
+export function getTags(page?: PageRequest): Page<Tag> {
+  return thingsPage<Tag>(
+    `${TAG_SELECT} WHERE ${visibleTag("tag.title")}`,
+    [{ column: "title" }, BY_UUID],
+    [],
+    page
+  );
+}
+
+/** Get a tag by its title (tag titles are unique in Things) */
+export function getTagByTitle(title: string): Tag | null {
+  const db = getDb();
+  return (
+    db
+      .query<Tag, [string]>(`${TAG_SELECT} WHERE tag.title = ? AND ${visibleTag("tag.title")}`)
+      .get(title) ?? null
+  );
+}
+
+/** Get every tag nested under a tag, at any depth */
+export function getTagDescendants(title: string): Tag[] {
   const db = getDb();
   return db
-    .query<{ uuid: string; title: string }, []>(
-      `SELECT uuid, title FROM TMArea ORDER BY title ASC`
+    .query<Tag, [string]>(
+      `${TAG_TREE_CTE}
+       ${TAG_SELECT}
+       WHERE tag.uuid IN (SELECT uuid FROM tag_tree)
+         AND tag.title != ?1
+         AND ${visibleTag("tag.title")}
+       ORDER BY tag.title ASC`
     )
-    .all();
+    .all(title);
+}
+
+/** Get all tags as a tree: top-level tags with their children nested */
+export function getTagTree(): TagNode[] {
+  const nodes = getTags().items.map((tag): TagNode => ({ ...tag, children: [] }));
+  const byUuid = new Map(nodes.map((node) => [node.uuid, node]));
+  const roots: TagNode[] = [];
+
+  // getTags is sorted by title, so every level of the tree is too
+  for (const node of nodes) {
+    const parent = node.parent ? byUuid.get(node.parent) : undefined;
+    if (parent) parent.children.push(node);
+    else roots.push(node);
+  }
+  return roots;
+}
+
+/**
+ * Get to-dos with a specific tag. With `includeDescendants`, to-dos tagged
+ * with any tag nested under it count too (e.g. "Places" matches "@home").
+ */
+export function getTodosByTag(
+  tagName: string,
+  options: { includeDescendants?: boolean } = {},
+  page?: PageRequest
+): Page<Todo> {
+  const tagSet = options.includeDescendants
+    ? TAG_TREE_CTE
+    : `WITH tag_tree(uuid) AS (SELECT uuid FROM TMTag WHERE title = ?1)`;
+  const rows = thingsPage<RawTaskRow>(
+    `${tagSet}
+     ${BASE_TASK_SELECT}
+     WHERE t.uuid IN (
+         SELECT tt.tasks FROM TMTaskTag tt JOIN tag_tree ON tt.tags = tag_tree.uuid
+       )
+       AND t.type = ${TYPE.TODO}
+       AND t.trashed = 0
+       AND t.status = ${STATUS.INCOMPLETE}
+       AND ${visibleTodo()}`,
+    BY_MODIFIED,
+    [tagName],
+    page
+  );
+  return mapPage(rows, rowsToTodos);
+}
+
+/**
+ * Of these UUIDs, the ones the current token may see — trashed tasks
+ * included, deleted rows not. For filtering changes and events.
+ */
+export function filterVisible(kind: EntityKind, uuids: string[]): Set<string> {
+  if (uuids.length === 0) return new Set();
+  const select = {
+    "to-do": `SELECT t.uuid FROM TMTask t
+      LEFT JOIN TMTask h ON t.heading = h.uuid
+      LEFT JOIN TMTask p ON COALESCE(t.project, h.project) = p.uuid
+      WHERE ${visibleTodo()}`,
+    project: `SELECT t.uuid FROM TMTask t WHERE ${visibleProject()}`,
+    area: `SELECT uuid FROM TMArea WHERE ${visibleArea("uuid")}`,
+    tag: `SELECT tag.uuid FROM TMTag tag WHERE ${visibleTag("tag.title")}`,
+  }[kind];
+  const rows = getDb()
+    .query<{ uuid: string }, [string]>(
+      `SELECT uuid FROM (${select}) WHERE uuid IN (SELECT value FROM json_each(?))`
+    )
+    .all(JSON.stringify(uuids));
+  return new Set(rows.map((row) => row.uuid));
+}
+
+/** Every to-do, project and area the current token may see; null when nothing is hidden */
+export function getVisibleUuids(): string[] | null {
+  if (!isRestricted(currentToken())) return null;
+  return getDb()
+    .query<{ uuid: string }, []>(
+      `SELECT t.uuid FROM TMTask t
+       LEFT JOIN TMTask h ON t.heading = h.uuid
+       LEFT JOIN TMTask p ON COALESCE(t.project, h.project) = p.uuid
+       WHERE t.type = ${TYPE.TODO} AND ${visibleTodo()}
+       UNION ALL
+       SELECT t.uuid FROM TMTask t WHERE t.type = ${TYPE.PROJECT} AND ${visibleProject()}
+       UNION ALL
+       SELECT uuid FROM TMArea WHERE ${visibleArea("uuid")}`
+    )
+    .all()
+    .map((row) => row.uuid);
+}
+
+// ─── Sync Snapshots ───
+
+/**
+ * A compact fingerprint of one to-do, project, area or tag. The bridge diffs
+ * successive fingerprints to find changes Things leaves no trace of —
+ * renamed areas and tags, and rows that were deleted outright.
+ */
+export interface EntityFingerprint {
+  kind: EntityKind;
+  uuid: string;
+  state: string; // tasks: status or "trashed"; empty for areas and tags
+  hash: string;
 }
 
-/** Get all tags */
-export function getTags(): Tag[] {
+function fingerprint(row: object): string {
+  return Bun.hash(JSON.stringify(row)).toString(36);
+}
+
+/** Fingerprint everything the bridge exposes, trashed tasks included */
+export function getEntityFingerprints(): EntityFingerprint[] {
   const db = getDb();
-  return db
-    .query<Tag, []>(
-      `SELECT uuid, title, shortcut FROM TMTag ORDER BY title ASC`
+
+  const tasks = db
+    .query<{ uuid: string; type: number; status: number; trashed: number }, []>(
+      `SELECT t.uuid, t.type, t.status, t.trashed,
+         t.title, t.notes, t.start, t.startDate, t.startBucket, t.deadline,
+         t.project, t.area, t.heading, t."index", t.todayIndex,
+         t.userModificationDate, t.stopDate,
+         (SELECT group_concat(tags) FROM
+            (SELECT tags FROM TMTaskTag WHERE tasks = t.uuid ORDER BY tags)) AS tagList,
+         (SELECT group_concat(uuid || ':' || status || ':' || title, char(10)) FROM
+            (SELECT * FROM TMChecklistItem WHERE task = t.uuid ORDER BY "index")) AS checklist
+       FROM TMTask t
+       WHERE t.type IN (${TYPE.TODO}, ${TYPE.PROJECT})`
+    )
+    .all();
+
+  const areas = db
+    .query<{ uuid: string }, []>(
+      `SELECT a.uuid, a.title, a."index",
+         (SELECT group_concat(tags) FROM
+            (SELECT tags FROM TMAreaTag WHERE areas = a.uuid ORDER BY tags)) AS tagList
+       FROM TMArea a`
     )
     .all();
+
+  const tags = db
+    .query<{ uuid: string }, []>(
+      `SELECT uuid, title, shortcut, parent, "index" FROM TMTag`
+    )
+    .all();
+
+  return [
+    ...tasks.map((row) => ({
+      kind: (row.type === TYPE.PROJECT ? "project" : "to-do") as EntityKind,
+      uuid: row.uuid,
+      state: row.trashed ? "trashed" : statusToString(row.status),
+      hash: fingerprint(row),
+    })),
+    ...areas.map((row) => ({
+      kind: "area" as const,
+      uuid: row.uuid,
+      state: "",
+      hash: fingerprint(row),
+    })),
+    ...tags.map((row) => ({
+      kind: "tag" as const,
+      uuid: row.uuid,
+      state: "",
+      hash: fingerprint(row),
+    })),
+  ];
 }
 
-/** Get to-dos with a specific tag */
-export function getTodosByTag(tagName: string): Todo[] {
+/**
+ * To-dos and projects created, modified or closed at or after `since`
+ * (Unix seconds), trashed ones included — Things' own dates, so this reaches
+ * back before the bridge started taking snapshots.
+ */
+export function getTaskActivitySince(since: number): {
+  kind: EntityKind;
+  uuid: string;
+  state: string;
+  createdAt: number;
+  changedAt: number;
+}[] {
   const db = getDb();
-  const rows = db
-    .query<RawTaskRow, [string]>(
-      `${BASE_TASK_SELECT}
-       JOIN TMTaskTag tt ON tt.tasks = t.uuid
-       JOIN TMTag tag ON tt.tags = tag.uuid
-       WHERE tag.title = ?
-         AND t.type = ${TYPE.TODO}
-         AND t.trashed = 0
-         AND t.status = ${STATUS.INCOMPLETE}
-       ORDER BY t.userModificationDate DESC`
+  return db
+    .query<
+      {
+        uuid: string;
+        type: number;
+        status: number;
+        trashed: number;
+        creationDate: number | null;
+        changedAt: number;
+      },
+      [number]
+    >(
+      `SELECT uuid, type, status, trashed, creationDate,
+         MAX(COALESCE(userModificationDate, 0), COALESCE(stopDate, 0),
+             COALESCE(creationDate, 0)) AS changedAt
+       FROM TMTask
+       WHERE type IN (${TYPE.TODO}, ${TYPE.PROJECT})
+         AND (userModificationDate >= ?1 OR stopDate >= ?1 OR creationDate >= ?1)
+       ORDER BY changedAt ASC, uuid ASC`
     )
-    .all(tagName);
-  return rows.map(rowToTodo);
+    .all(since)
+    .map((row) => ({
+      kind: row.type === TYPE.PROJECT ? "project" : "to-do",
+      uuid: row.uuid,
+      state: row.trashed ? "trashed" : statusToString(row.status),
+      createdAt: row.creationDate ?? 0,
+      changedAt: row.changedAt,
+    }));
 }
@@ -0,0 +1,111 @@
+import type { Database } from "bun:sqlite";
+
+// ─── Things 3 Schema ───
+
+/**
+ * The subset of the Things 3 database schema the bridge reads and writes.
+ * Column names and encodings match main.sqlite (DB version 26), so a file
+ * created from this can stand in for the real database off a Mac.
+ */
+export const THINGS_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS TMTask (
+    uuid TEXT PRIMARY KEY,
+    leavesTombstone INTEGER DEFAULT 0,
+    creationDate REAL,
+    userModificationDate REAL,
+    type INTEGER NOT NULL DEFAULT 0,
+    status INTEGER NOT NULL DEFAULT 0,
+    stopDate REAL,
+    trashed INTEGER NOT NULL DEFAULT 0,
+    title TEXT,
+    notes TEXT,
+    notesSync INTEGER DEFAULT 0,
+    cachedTags BLOB,
+    start INTEGER NOT NULL DEFAULT 0,
+    startDate INTEGER,
+    startBucket INTEGER NOT NULL DEFAULT 0,
+    reminderTime INTEGER,
+    lastReminderInteractionDate REAL,
+    deadline INTEGER,
+    deadlineSuppressionDate INTEGER,
+    t2_deadlineOffset INTEGER DEFAULT 0,
+    "index" INTEGER NOT NULL DEFAULT 0,
+    todayIndex INTEGER NOT NULL DEFAULT 0,
+    todayIndexReferenceDate INTEGER,
+    area TEXT,
+    project TEXT,
+    heading TEXT,
+    contact TEXT,
+    untrashedLeafActionsCount INTEGER DEFAULT 0,
+    openUntrashedLeafActionsCount INTEGER DEFAULT 0,
+    checklistItemsCount INTEGER DEFAULT 0,
+    openChecklistItemsCount INTEGER DEFAULT 0,
+    rt1_repeatingTemplate TEXT,
+    rt1_recurrenceRule BLOB,
+    rt1_instanceCreationStartDate INTEGER,
+    rt1_instanceCreationPaused INTEGER DEFAULT 0,
+    rt1_instanceCreationCount INTEGER DEFAULT 0,
+    rt1_afterCompletionReferenceDate INTEGER,
+    rt1_nextInstanceStartDate INTEGER,
+    experimental BLOB,
+    repeater BLOB,
+    repeaterMigrationDate REAL
+  );
+
+  CREATE TABLE IF NOT EXISTS TMArea (
+    uuid TEXT PRIMARY KEY,
+    title TEXT,
+    visible INTEGER,
+    "index" INTEGER NOT NULL DEFAULT 0,
+    cachedTags BLOB,
+    experimental BLOB
+  );
+
+  CREATE TABLE IF NOT EXISTS TMTag (
+    uuid TEXT PRIMARY KEY,
+    title TEXT,
+    shortcut TEXT,
+    usedDate REAL,
+    parent TEXT,
+    "index" INTEGER NOT NULL DEFAULT 0,
+    experimental BLOB
+  );
+
+  CREATE TABLE IF NOT EXISTS TMTaskTag (
+    tasks TEXT NOT NULL,
+    tags TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS TMAreaTag (
+    areas TEXT NOT NULL,
+    tags TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS TMChecklistItem (
+    uuid TEXT PRIMARY KEY,
+    userModificationDate REAL,
+    creationDate REAL,
+    title TEXT,
+    status INTEGER NOT NULL DEFAULT 0,
+    stopDate REAL,
+    "index" INTEGER NOT NULL DEFAULT 0,
+    task TEXT,
+    leavesTombstone INTEGER DEFAULT 0,
+    experimental BLOB
+  );
+
+  CREATE INDEX IF NOT EXISTS index_TMTask_project ON TMTask(project);
+  CREATE INDEX IF NOT EXISTS index_TMTask_area ON TMTask(area);
+  CREATE INDEX IF NOT EXISTS index_TMTask_heading ON TMTask(heading);
+  CREATE INDEX IF NOT EXISTS index_TMTaskTag_tasks ON TMTaskTag(tasks);
+  CREATE INDEX IF NOT EXISTS index_TMChecklistItem_task ON TMChecklistItem(task);
+`;
+
+/**
+ * Create the Things tables in a writable database (idempotent).
+ * Switches to WAL like the real database, since the read connection expects it.
+ */
+export function createThingsSchema(db: Database): void {
+  db.exec("PRAGMA journal_mode = WAL");
+  db.exec(THINGS_SCHEMA);
+}
@@ -0,0 +1,33 @@
+import { isThingsWrite } from "./operations";
+import { auditWrite } from "../operations/audit";
+import { captureUndo, NOTHING_TO_UNDO, type UndoCapture } from "../operations/undo";
+
+/** Undoing operations writes to Things too */
+function isUndo(pathname: string): boolean {
+  return pathname === "/v1/operations/undo" || /^\/v1\/operations\/[^/]+\/undo$/.test(pathname);
+}
+
+/**
+ * Append every write to Things — and every undo — to the audit log, with the
+ * token and client address that sent it. Runs outside the operation journal
+ * so the entry carries the operation's id, and hands the journal the undo
+ * snapshot it took, so items are only read once before the write.
+ */
+export async function withAuditLog(
+  request: Request,
+  url: URL,
+  clientIp: string | null,
+  handler: (capture: UndoCapture) => Promise<Response>
+): Promise<Response> {
+  if (!isThingsWrite(url.pathname) && !isUndo(url.pathname)) return handler(NOTHING_TO_UNDO);
+
+  const body = await request.clone().text();
+  const capture = isUndo(url.pathname)
+    ? NOTHING_TO_UNDO
+    : captureUndo(request.method, url.pathname, body);
+  return auditWrite(
+    { method: request.method, path: `${url.pathname}${url.search}`, body, ip: clientIp },
+    capture,
+    () => handler(capture)
+  );
+}
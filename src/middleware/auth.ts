@@ -1,38 +1,80 @@
 import { config } from "../config";
+import { authenticateToken, hasScope, isRestricted, ROOT_TOKEN } from "../auth/tokens";
+import { authLockout, recordAuthFailure, clearAuthFailures } from "./ratelimit";
+import type { ApiToken, TokenScope } from "../types";
+
+/** Discovery endpoints anyone may call */
+export const PUBLIC_PATHS = ["/health", "/v1/capabilities", "/v1/openapi.json", "/v1/docs"];
+
+/** Paths only `admin` tokens may use, whatever the method */
+const ADMIN_PATHS = ["/v1/tokens", "/v1/webhooks", "/v1/audit"];
+
+/** Paths that change what areas and tags exist, which only unrestricted tokens may do */
+const STRUCTURE_PATHS = ["/v1/areas", "/v1/tags"];
+
+function matchesPath(pathname: string, paths: string[]): boolean {
+  return paths.some((path) => pathname === path || pathname.startsWith(`${path}/`));
+}
 
 /**
- * Validate the Authorization header against the configured token.
- * Returns null if valid, or a Response if invalid.
+ * The scope a request needs: admin paths need `admin`, reads `read`,
+ * deletions `delete` (canceling a queued operation is a write), and
+ * everything else `write`. Undoing a create trashes items, so the undo
+ * routes check for `delete` themselves once they know what they'd undo.
  */
-export function requireAuth(request: Request): Response | null {
-  // Skip auth for health and capabilities (discovery endpoints)
+export function requiredScope(method: string, pathname: string): TokenScope {
+  if (matchesPath(pathname, ADMIN_PATHS)) return "admin";
+  if (method === "GET" || method === "HEAD") return "read";
+  if (method === "DELETE" && !pathname.startsWith("/v1/operations/")) return "delete";
+  return "write";
+}
+
+function authError(status: number, error: string): Response {
+  return new Response(JSON.stringify({ ok: false, error }), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * Validate the Authorization header against THINGS_BRIDGE_TOKEN and the
+ * token registry, and check the token's scopes allow the request. Invalid
+ * tokens count towards locking `clientIp` out.
+ * Returns the token if valid, or a Response if invalid.
+ */
+export function requireAuth(request: Request, clientIp: string | null): ApiToken | Response {
+  // Skip auth for health, capabilities and the API description (discovery endpoints)
   const url = new URL(request.url);
-  if (url.pathname === "/health" || url.pathname === "/v1/capabilities") {
-    return null;
+  if (PUBLIC_PATHS.includes(url.pathname)) {
+    return ROOT_TOKEN;
   }
 
+  const lockout = authLockout(clientIp);
+  if (lockout) return lockout;
+
   if (!config.token) {
-    return new Response(
-      JSON.stringify({ ok: false, error: "Server token not configured" }),
-      { status: 500, headers: { "Content-Type": "application/json" } }
-    );
+    return authError(500, "Server token not configured");
   }
 
   const authHeader = request.headers.get("Authorization");
   if (!authHeader) {
-    return new Response(
-      JSON.stringify({ ok: false, error: "Missing Authorization header" }),
-      { status: 401, headers: { "Content-Type": "application/json" } }
-    );
+    return authError(401, "Missing Authorization header");
   }
 
-  const token = authHeader.replace(/^Bearer\s+/i, "");
-  if (token !== config.token) {
-    return new Response(
-      JSON.stringify({ ok: false, error: "Invalid token" }),
-      { status: 403, headers: { "Content-Type": "application/json" } }
-    );
+  const token = authenticateToken(authHeader.replace(/^Bearer\s+/i, ""));
+  if (!token) {
+    recordAuthFailure(clientIp);
+    return authError(403, "Invalid token");
+  }
+  clearAuthFailures(clientIp);
+
+  const scope = requiredScope(request.method, url.pathname);
+  if (!hasScope(token, scope)) {
+    return authError(403, `Token "${token.name}" doesn't have the "${scope}" scope`);
+  }
+  if (scope !== "read" && isRestricted(token) && matchesPath(url.pathname, STRUCTURE_PATHS)) {
+    return authError(403, `Token "${token.name}" is limited to some areas or tags and can't change them`);
   }
 
-  return null; // Auth passed
+  return token; // Auth passed
 }
@@ -0,0 +1,58 @@
+import { describe, test, expect, afterAll } from "bun:test";
+import { Database } from "bun:sqlite";
+import { startTestBridge, stopTestBridge, send, THINGS_PATH } from "../testing";
+
+// ─── Fixture ───
+
+await startTestBridge({
+  tasks: [{ uuid: "anytime-1", title: "Read a book", start: "anytime" }],
+});
+
+afterAll(stopTestBridge);
+
+const get = (path: string, etag?: string) =>
+  send("GET", path, undefined, { headers: etag ? { "If-None-Match": etag } : {} });
+
+// ─── Response Cache ───
+
+describe("response cache", () => {
+  test("reads carry an ETag and come back 304 until the database changes", async () => {
+    const first = await get("/v1/todos?list=anytime");
+    const etag = first.headers.get("ETag")!;
+    expect(first.status).toBe(200);
+    expect(etag).toBeTruthy();
+
+    const again = await get("/v1/todos?list=anytime");
+    expect(again.headers.get("X-Cache")).toBe("hit");
+    expect(await again.json()).toEqual(await first.json());
+    expect((await get("/v1/todos?list=anytime", etag)).status).toBe(304);
+    expect((await get("/v1/todos?list=anytime", `"stale", W/${etag}`)).status).toBe(304);
+
+    const things = new Database(THINGS_PATH);
+    things.query(`UPDATE TMTask SET title = 'Renamed for cache' WHERE uuid = 'anytime-1'`).run();
+    things.close();
+
+    const changed = await get("/v1/todos?list=anytime", etag);
+    expect(changed.status).toBe(200);
+    expect(changed.headers.get("ETag")).not.toBe(etag);
+    expect(changed.headers.get("X-Cache")).toBe("miss");
+  });
+
+  test("other JSON reads are tagged by content", async () => {
+    const first = await get("/v1/webhooks");
+    const etag = first.headers.get("ETag")!;
+    expect((await get("/v1/webhooks", etag)).status).toBe(304);
+  });
+
+  test("an ETag only matches its own path, and errors are never 304", async () => {
+    const etag = (await get("/v1/todos/anytime-1")).headers.get("ETag")!;
+    expect((await get("/v1/todos/anytime-1", etag)).status).toBe(304);
+
+    expect((await get("/v1/todos/nope", etag)).status).toBe(404);
+    expect((await get("/v1/todos?limit=abc", etag)).status).toBe(400);
+    const other = await get("/v1/areas", etag);
+    expect(other.status).toBe(200);
+    expect(other.headers.get("ETag")).not.toBe(etag);
+    expect((await get("/v1/todos/nope", "*")).status).toBe(404);
+  });
+});
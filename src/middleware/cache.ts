@@ -0,0 +1,119 @@
+import { getDbVersion } from "../db/connection";
+
+// ─── Constants ───
+
+/** GET paths served purely from the Things database (and what's derived from it) */
+const THINGS_READ_PATHS = ["/v1/todos", "/v1/projects", "/v1/areas", "/v1/tags", "/v1/search"];
+
+/** Responses kept per database version; least recently used go first */
+const MAX_ENTRIES = 500;
+
+const CACHE_CONTROL = "private, no-cache";
+
+// ─── Response Cache ───
+
+interface CachedResponse {
+  body: string;
+  contentType: string;
+}
+
+const cache = new Map<string, CachedResponse>();
+let cacheVersion: string | null = null;
+
+function isThingsRead(pathname: string): boolean {
+  return THINGS_READ_PATHS.some(
+    (path) => pathname === path || pathname.startsWith(`${path}/`)
+  );
+}
+
+/**
+ * The version of everything read from Things right now. Today's date is
+ * part of it because Today and Upcoming move at midnight without a write.
+ */
+function currentVersion(): string {
+  const today = new Date().toISOString().split("T")[0];
+  return Bun.hash(`${getDbVersion()}|${today}`).toString(36);
+}
+
+/** If-None-Match can list several tags, weak or strong, or be `*` */
+function matchesIfNoneMatch(header: string | null, etag: string): boolean {
+  if (!header) return false;
+  return header
+    .split(",")
+    .map((tag) => tag.trim().replace(/^W\//, ""))
+    .some((tag) => tag === "*" || tag === etag);
+}
+
+function notModified(etag: string): Response {
+  return new Response(null, {
+    status: 304,
+    headers: { ETag: etag, "Cache-Control": CACHE_CONTROL },
+  });
+}
+
+function withEtag(body: string, contentType: string, etag: string, cacheStatus?: string): Response {
+  const headers: Record<string, string> = {
+    "Content-Type": contentType,
+    ETag: etag,
+    "Cache-Control": CACHE_CONTROL,
+  };
+  if (cacheStatus) headers["X-Cache"] = cacheStatus;
+  return new Response(body, { status: 200, headers });
+}
+
+/**
+ * ETags and 304s for GET requests. Things reads are tagged with the database
+ * version, the path and query, and the credentials, and cached in process until it changes, so repeated polls don't
+ * touch SQLite at all. Other JSON responses (bridge state, discovery) are
+ * tagged with a hash of their body. Streams and errors pass through as-is.
+ */
+export async function withResponseCache(
+  request: Request,
+  url: URL,
+  handler: () => Promise<Response>
+): Promise<Response> {
+  const ifNoneMatch = request.headers.get("If-None-Match");
+
+  if (!isThingsRead(url.pathname)) {
+    const response = await handler();
+    const contentType = response.headers.get("Content-Type") ?? "";
+    if (response.status !== 200 || !contentType.startsWith("application/json")) {
+      return response;
+    }
+    const body = await response.text();
+    const etag = `"${Bun.hash(body).toString(36)}"`;
+    if (matchesIfNoneMatch(ifNoneMatch, etag)) return notModified(etag);
+    return withEtag(body, contentType, etag);
+  }
+
+  const version = currentVersion();
+  if (version !== cacheVersion) {
+    cache.clear();
+    cacheVersion = version;
+  }
+  // Keyed by credentials too, so responses never cross between tokens — and
+  // tagged by that key, so one path's ETag never matches another's
+  const key = `${Bun.hash(request.headers.get("Authorization") ?? "")}:${url.pathname}${url.search}`;
+  const etag = `"${Bun.hash(`${version}|${key}`).toString(36)}"`;
+  const hit = cache.get(key);
+  if (hit) {
+    cache.delete(key);
+    cache.set(key, hit);
+    if (matchesIfNoneMatch(ifNoneMatch, etag)) return notModified(etag);
+    return withEtag(hit.body, hit.contentType, etag, "hit");
+  }
+
+  // Run the handler even when the tag matches: only a 200 can be "not modified"
+  const response = await handler();
+  if (response.status !== 200) return response;
+
+  const contentType = response.headers.get("Content-Type") ?? "application/json";
+  const body = await response.text();
+  // If the database changed while this was built, it's already stale
+  if (cacheVersion === version && currentVersion() === version) {
+    cache.set(key, { body, contentType });
+    if (cache.size > MAX_ENTRIES) cache.delete(cache.keys().next().value!);
+  }
+  if (matchesIfNoneMatch(ifNoneMatch, etag)) return notModified(etag);
+  return withEtag(body, contentType, etag, "miss");
+}
@@ -0,0 +1,76 @@
+import { describe, test, expect, afterAll, setSystemTime } from "bun:test";
+import { startTestBridge, stopTestBridge, send } from "../testing";
+import { getStateDb } from "../state/db";
+
+// ─── Fixture ───
+
+const backend = await startTestBridge({});
+
+afterAll(async () => {
+  setSystemTime();
+  await stopTestBridge();
+});
+
+const post = (path: string, body: unknown, key: string) =>
+  send("POST", path, body, { headers: { "Idempotency-Key": key } });
+
+// ─── Idempotency Keys ───
+
+describe("idempotency keys", () => {
+  test("a retry replays the original response instead of writing again", async () => {
+    const first = await post("/v1/todos", { title: "Buy stamps" }, "retry-1");
+    const retry = await post("/v1/todos", { title: "Buy stamps" }, "retry-1");
+    expect(first.status).toBe(201);
+    expect(retry.status).toBe(201);
+    expect(retry.headers.get("Idempotent-Replayed")).toBe("true");
+    expect((await retry.json()).data.uuid).toBe((await first.json()).data.uuid);
+    expect(backend.sent).toHaveLength(1);
+
+    const reused = await post("/v1/todos", { title: "Buy envelopes" }, "retry-1");
+    expect(reused.status).toBe(422);
+    expect(backend.sent).toHaveLength(1);
+  });
+
+  test("keys are scoped to their credentials and must be a sensible length", async () => {
+    expect((await post("/v1/todos", { title: "Buy stamps" }, "")).status).toBe(400);
+    expect((await post("/v1/todos", { title: "Buy stamps" }, "k".repeat(256))).status).toBe(400);
+
+    const other = await send("POST", "/v1/tokens", { name: "second-agent", scopes: ["write"] });
+    const { secret } = (await other.json()).data;
+    const sent = backend.sent.length;
+    const fresh = await send("POST", "/v1/todos", { title: "Buy stamps" }, {
+      token: secret,
+      headers: { "Idempotency-Key": "retry-1" },
+    });
+    expect(fresh.status).toBe(201);
+    expect(fresh.headers.get("Idempotent-Replayed")).toBeNull();
+    expect(backend.sent).toHaveLength(sent + 1);
+  });
+
+  test("an expired key runs the request again", async () => {
+    const first = await post("/v1/todos", { title: "Post letters" }, "retry-2");
+    const sent = backend.sent.length;
+
+    // THINGS_BRIDGE_IDEMPOTENCY_TTL defaults to a day
+    setSystemTime(new Date(Date.now() + 86401 * 1000));
+    const later = await post("/v1/todos", { title: "Post letters" }, "retry-2");
+    expect(later.status).toBe(201);
+    expect(later.headers.get("Idempotent-Replayed")).toBeNull();
+    expect((await later.json()).data.uuid).not.toBe((await first.json()).data.uuid);
+    expect(backend.sent).toHaveLength(sent + 1);
+  });
+
+  test("token and webhook secrets are never stored for replay", async () => {
+    const token = await post("/v1/tokens", { name: "agent", scopes: ["read"] }, "secret-1");
+    const webhook = await post("/v1/webhooks", { url: "https://example.com/hook" }, "secret-2");
+    expect(token.status).toBe(201);
+    expect(webhook.status).toBe(201);
+
+    const stored = getStateDb()
+      .query<{ key: string }, []>(`SELECT key FROM idempotency_keys`)
+      .all()
+      .map((row) => row.key);
+    expect(stored).not.toContain("secret-1");
+    expect(stored).not.toContain("secret-2");
+  });
+});
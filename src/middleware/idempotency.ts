@@ -0,0 +1,107 @@
+import { config } from "../config";
+import { getStateDb } from "../state/db";
+
+// ─── Constants ───
+
+const HEADER = "Idempotency-Key";
+const MAX_KEY_LENGTH = 255;
+
+/** Creates whose response carries a secret, which mustn't sit in the state database */
+const UNSTORED_PATHS = ["/v1/tokens", "/v1/webhooks"];
+
+// ─── Idempotency Keys ───
+
+interface StoredResponse {
+  fingerprint: string;
+  status: number;
+  content_type: string;
+  body: string;
+}
+
+/** Keys whose first request is still running, so a retry can't race it */
+const inFlight = new Set<string>();
+
+const nowUnix = () => Date.now() / 1000;
+
+function replay(stored: StoredResponse): Response {
+  return new Response(stored.body, {
+    status: stored.status,
+    headers: { "Content-Type": stored.content_type, "Idempotent-Replayed": "true" },
+  });
+}
+
+/**
+ * Replay the stored response when a POST is retried with the same
+ * Idempotency-Key, instead of running it — and its AppleScript — again.
+ *
+ * Keys are scoped to the credentials they were sent with and kept for
+ * THINGS_BRIDGE_IDEMPOTENCY_TTL. Reusing a key for a different method, path
+ * or body is a 422. Server errors aren't stored, so those can be retried for
+ * real. Requests without the header pass straight through, as do token and
+ * webhook creates: their responses hold the only copy of a secret.
+ */
+export async function withIdempotency(
+  request: Request,
+  url: URL,
+  handler: () => Promise<Response>
+): Promise<Response> {
+  const key = request.headers.get(HEADER);
+  if (key === null || UNSTORED_PATHS.includes(url.pathname)) return handler();
+  if (key.length === 0 || key.length > MAX_KEY_LENGTH) {
+    return Response.json(
+      { ok: false, error: `${HEADER} must be 1-${MAX_KEY_LENGTH} characters` },
+      { status: 400 }
+    );
+  }
+
+  const scope = Bun.hash(request.headers.get("Authorization") ?? "").toString(36);
+  const body = await request.clone().text();
+  const fingerprint = Bun.hash(`${request.method} ${url.pathname}${url.search}\n${body}`).toString(36);
+
+  const db = getStateDb();
+  const stored = db
+    .query<StoredResponse, [string, string, number]>(
+      `SELECT fingerprint, status, content_type, body FROM idempotency_keys
+       WHERE scope = ? AND key = ? AND created_at >= ?`
+    )
+    .get(scope, key, nowUnix() - config.idempotencyTtl);
+
+  if (stored && stored.fingerprint !== fingerprint) {
+    return Response.json(
+      { ok: false, error: `${HEADER} was already used for a different request` },
+      { status: 422 }
+    );
+  }
+  if (stored) return replay(stored);
+
+  const slot = `${scope}:${key}`;
+  if (inFlight.has(slot)) {
+    return Response.json(
+      { ok: false, error: `A request with this ${HEADER} is still in progress` },
+      { status: 409 }
+    );
+  }
+
+  inFlight.add(slot);
+  try {
+    const response = await handler();
+    if (response.status >= 500) return response;
+
+    const contentType = response.headers.get("Content-Type") ?? "application/json";
+    const text = await response.text();
+    const now = nowUnix();
+    db.transaction(() => {
+      db.query(`DELETE FROM idempotency_keys WHERE created_at < ?`).run(
+        now - config.idempotencyTtl
+      );
+      db.query(
+        `INSERT OR REPLACE INTO idempotency_keys
+           (scope, key, fingerprint, status, content_type, body, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`
+      ).run(scope, key, fingerprint, response.status, contentType, text, now);
+    })();
+    return new Response(text, { status: response.status, headers: response.headers });
+  } finally {
+    inFlight.delete(slot);
+  }
+}
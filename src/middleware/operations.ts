@@ -0,0 +1,78 @@
+import { config } from "../config";
+import {
+  journalOperation,
+  recordOperation,
+  countPendingOperations,
+} from "../operations/journal";
+import { isUnreachable, scheduleReplay } from "../operations/replay";
+import { deferWrites } from "../backend/queue";
+import type { UndoCapture } from "../operations/undo";
+import type { Operation } from "../types";
+
+// ─── Constants ───
+
+/** Paths whose writes go to Things, and so are journaled */
+const THINGS_WRITE_PATHS = ["/v1/todos", "/v1/projects", "/v1/areas", "/v1/tags", "/v1/batch"];
+
+// ─── Operation Journal ───
+
+export function isThingsWrite(pathname: string): boolean {
+  return THINGS_WRITE_PATHS.some(
+    (path) => pathname === path || pathname.startsWith(`${path}/`)
+  );
+}
+
+function accepted(operation: Operation): Response {
+  scheduleReplay();
+  return Response.json(
+    { ok: true, data: operation },
+    { status: 202, headers: { Location: `/v1/operations/${operation.id}` } }
+  );
+}
+
+/**
+ * Journal every write to Things. One that succeeds is recorded with what it
+ * changed, so it can be undone, and answered with an `Operation-Id` header.
+ *
+ * With THINGS_BRIDGE_OFFLINE_QUEUE on, a write that finds Things not running
+ * is journaled and answered `202 Accepted` with the operation, to be replayed
+ * once Things is back. `Prefer: respond-async` journals a write without
+ * trying it first. While anything is pending, new writes queue up behind it
+ * so they still reach Things in order. Either way the route still runs, with
+ * its backend calls deferred, so a bad body or a missing or forbidden target
+ * is answered now rather than journaled. `capture` is the write's undo
+ * snapshot, taken before it ran.
+ */
+export async function withOperationJournal(
+  request: Request,
+  url: URL,
+  capture: UndoCapture,
+  handler: () => Promise<Response>
+): Promise<Response> {
+  if (!isThingsWrite(url.pathname)) return handler();
+
+  const body = await request.clone().text();
+  const path = `${url.pathname}${url.search}`;
+  const deferred =
+    config.offlineQueue &&
+    (/\brespond-async\b/.test(request.headers.get("Prefer") ?? "") ||
+      countPendingOperations() > 0);
+
+  const response = deferred ? await deferWrites(handler) : await handler();
+  const text = await response.text();
+  const headers = new Headers(response.headers);
+
+  if (response.ok) {
+    const operation = recordOperation(
+      request.method,
+      path,
+      body,
+      { status: response.status, body: text },
+      capture(text)
+    );
+    headers.set("Operation-Id", operation.id);
+  } else if (config.offlineQueue && isUnreachable(response.status, text)) {
+    return accepted(journalOperation(request.method, path, body));
+  }
+  return new Response(text, { status: response.status, headers });
+}
@@ -0,0 +1,70 @@
+import { describe, test, expect, afterAll, setSystemTime } from "bun:test";
+import { startTestBridge, stopTestBridge, send } from "../testing";
+
+// ─── Fixture ───
+
+await startTestBridge({});
+
+afterAll(async () => {
+  setSystemTime();
+  await stopTestBridge();
+});
+
+// ─── Rate Limits ───
+
+describe("rate limits", () => {
+  test("each token's writes are limited separately, with Retry-After once over", async () => {
+    const created = await send("POST", "/v1/tokens", {
+      name: "looping-agent",
+      scopes: ["read", "write"],
+      rateLimits: { writes: 2 },
+    });
+    const { secret } = (await created.json()).data;
+    const as = (method: string, path: string, body?: unknown) =>
+      send(method, path, body, { token: secret });
+
+    const first = await as("POST", "/v1/todos", {});
+    expect(first.headers.get("X-RateLimit-Limit")).toBe("2");
+    expect(first.headers.get("X-RateLimit-Remaining")).toBe("1");
+    await as("POST", "/v1/todos", {});
+    const limited = await as("POST", "/v1/todos", {});
+    expect(limited.status).toBe(429);
+    expect(Number(limited.headers.get("Retry-After"))).toBeGreaterThan(0);
+
+    // Reads have their own bucket, and the root token its own
+    expect((await as("GET", "/v1/todos?list=today")).status).toBe(200);
+    expect((await send("POST", "/v1/todos", {})).status).toBe(400);
+
+    // The bucket refills over the minute
+    setSystemTime(new Date(Date.now() + 30000));
+    expect((await as("POST", "/v1/todos", {})).status).toBe(400);
+    setSystemTime();
+  });
+
+  test("an IP is locked out after repeated invalid tokens, until the lockout ends", async () => {
+    const from = (ip: string, token: string) =>
+      send("GET", "/v1/areas", undefined, { token, ip });
+
+    for (let i = 0; i < 10; i++) expect((await from("203.0.113.9", "guess")).status).toBe(403);
+    const locked = await from("203.0.113.9", "test-token");
+    expect(locked.status).toBe(429);
+    expect(locked.headers.get("Retry-After")).toBe("900");
+
+    // Other addresses are unaffected
+    expect((await from("203.0.113.10", "test-token")).status).toBe(200);
+
+    setSystemTime(new Date(Date.now() + 900 * 1000 + 1));
+    expect((await from("203.0.113.9", "test-token")).status).toBe(200);
+    setSystemTime();
+  });
+
+  test("a successful attempt clears earlier failures", async () => {
+    const from = (token: string) =>
+      send("GET", "/v1/areas", undefined, { token, ip: "203.0.113.20" });
+
+    for (let i = 0; i < 9; i++) await from("guess");
+    expect((await from("test-token")).status).toBe(200);
+    expect((await from("guess")).status).toBe(403);
+    expect((await from("test-token")).status).toBe(200);
+  });
+});
@@ -0,0 +1,138 @@
+import { config } from "../config";
+import type { ApiToken, RateLimits } from "../types";
+
+// ─── Rate Limits ───
+
+// One token bucket per token and route class, held in memory. A bucket holds
+// a minute's worth of requests and refills continuously, so a client can
+// burst up to its limit and then sustain it.
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number; // ms
+}
+
+const buckets = new Map<string, Bucket>();
+
+const MINUTE_MS = 60000;
+
+function routeClass(method: string): keyof RateLimits {
+  return method === "GET" || method === "HEAD" ? "reads" : "writes";
+}
+
+/**
+ * Take a request out of a bucket holding up to `limit`. Returns what's left,
+ * and the seconds until the next request is allowed and until it's full.
+ */
+function take(
+  key: string,
+  limit: number,
+  now: number
+): { allowed: boolean; remaining: number; retryAfter: number; reset: number } {
+  const perMs = limit / MINUTE_MS;
+  const bucket = buckets.get(key) ?? { tokens: limit, updatedAt: now };
+  bucket.tokens = Math.min(limit, bucket.tokens + (now - bucket.updatedAt) * perMs);
+  bucket.updatedAt = now;
+
+  const allowed = bucket.tokens >= 1;
+  if (allowed) bucket.tokens -= 1;
+  buckets.set(key, bucket);
+
+  return {
+    allowed,
+    remaining: Math.floor(bucket.tokens),
+    retryAfter: allowed ? 0 : Math.ceil((1 - bucket.tokens) / perMs / 1000),
+    reset: Math.ceil((limit - bucket.tokens) / perMs / 1000),
+  };
+}
+
+/**
+ * Hold each token to its requests per minute — reads and writes counted
+ * separately — and report the bucket in `X-RateLimit-*` headers. Over the
+ * limit, answer `429` with `Retry-After`.
+ */
+export async function withRateLimit(
+  request: Request,
+  token: ApiToken,
+  handler: () => Promise<Response>
+): Promise<Response> {
+  const kind = routeClass(request.method);
+  const limit = token.rateLimits[kind] ?? config.rateLimits[kind];
+  if (limit === 0) return handler();
+
+  const bucket = take(`${token.id}:${kind}`, limit, Date.now());
+  const headers = {
+    "X-RateLimit-Limit": String(limit),
+    "X-RateLimit-Remaining": String(bucket.remaining),
+    "X-RateLimit-Reset": String(bucket.reset),
+  };
+  if (!bucket.allowed) {
+    return Response.json(
+      { ok: false, error: `Rate limit exceeded: ${limit} ${kind} per minute` },
+      { status: 429, headers: { ...headers, "Retry-After": String(bucket.retryAfter) } }
+    );
+  }
+
+  const response = await handler();
+  // Streams (/v1/events) pass through untouched
+  const tagged = new Response(response.body, response);
+  for (const [name, value] of Object.entries(headers)) tagged.headers.set(name, value);
+  return tagged;
+}
+
+// ─── Auth Lockout ───
+
+// Failed attempts are counted per client IP over a window; past the limit,
+// the IP is refused outright — right token or not — until the lockout ends.
+
+const AUTH_FAILURE_WINDOW_MS = 15 * MINUTE_MS;
+const AUTH_LOCKOUT_MS = 15 * MINUTE_MS;
+
+interface AuthFailures {
+  count: number;
+  since: number; // ms, first failure in the window
+  lockedUntil: number; // ms
+}
+
+const authFailures = new Map<string, AuthFailures>();
+
+/** A `429` if this IP is locked out, or null */
+export function authLockout(ip: string | null): Response | null {
+  const failures = ip === null ? undefined : authFailures.get(ip);
+  const now = Date.now();
+  if (!failures || failures.lockedUntil <= now) return null;
+  return Response.json(
+    { ok: false, error: "Too many failed authentication attempts" },
+    {
+      status: 429,
+      headers: { "Retry-After": String(Math.ceil((failures.lockedUntil - now) / 1000)) },
+    }
+  );
+}
+
+/** Count a failed attempt; locks the IP out once it reaches the limit */
+export function recordAuthFailure(ip: string | null): void {
+  if (ip === null || config.authFailureLimit === 0) return;
+  const now = Date.now();
+
+  // Forget IPs whose window has passed, so scanners don't grow the map forever
+  for (const [key, entry] of authFailures) {
+    if (entry.since + AUTH_FAILURE_WINDOW_MS < now && entry.lockedUntil <= now) {
+      authFailures.delete(key);
+    }
+  }
+
+  const failures = authFailures.get(ip) ?? { count: 0, since: now, lockedUntil: 0 };
+  failures.count++;
+  if (failures.count >= config.authFailureLimit) {
+    failures.lockedUntil = now + AUTH_LOCKOUT_MS;
+    failures.count = 0;
+    failures.since = now;
+  }
+  authFailures.set(ip, failures);
+}
+
+/** A successful attempt wipes the slate */
+export function clearAuthFailures(ip: string | null): void {
+  if (ip !== null) authFailures.delete(ip);
+}
@@ -0,0 +1,144 @@
+// ─── Docs Page ───
+
+// A single self-contained HTML page rendered from the OpenAPI document — no
+// scripts or CDN, so it works on a LAN without internet access.
+
+interface Parameter {
+  name: string;
+  in: string;
+  required: boolean;
+  description?: string;
+  schema: unknown;
+}
+
+interface Operation {
+  summary: string;
+  description?: string;
+  tags: string[];
+  parameters?: Parameter[];
+  requestBody?: { content: Record<string, { schema: { $ref?: string } }> };
+  responses: Record<string, { $ref?: string; description?: string }>;
+  security?: unknown[];
+  "x-required-scope"?: string;
+}
+
+interface Document {
+  info: { title: string; version: string; description: string };
+  paths: Record<string, Record<string, Operation>>;
+  components: { schemas: Record<string, unknown> };
+}
+
+function escape(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/** `code` spans in descriptions, the only markup they use */
+function inline(text: string): string {
+  return escape(text).replace(/`([^`]+)`/g, "<code>$1</code>");
+}
+
+function schemaName(ref: string | undefined): string | null {
+  return ref?.replace("#/components/schemas/", "") ?? null;
+}
+
+function schemaType(schema: unknown): string {
+  const { type, enum: values } = schema as { type?: string | string[]; enum?: unknown[] };
+  if (values) return values.filter((value) => value !== null).join(" | ");
+  return Array.isArray(type) ? type.join(" | ") : (type ?? "");
+}
+
+function renderParameters(params: Parameter[]): string {
+  if (params.length === 0) return "";
+  const rows = params.map(
+    (param) =>
+      `<tr><td><code>${escape(param.name)}</code>${param.required ? " *" : ""}</td>` +
+      `<td>${param.in}</td><td>${escape(schemaType(param.schema))}</td>` +
+      `<td>${inline(param.description ?? "")}</td></tr>`
+  );
+  return `
+  <table>
+    <tr><th>Parameter</th><th>In</th><th>Type</th><th>Description</th></tr>
+    ${rows.join("\n    ")}
+  </table>`;
+}
+
+function renderOperation(method: string, path: string, op: Operation): string {
+  const id = `${method}-${path}`.replace(/[^\w-]/g, "-");
+  const body = schemaName(op.requestBody?.content["application/json"]?.schema.$ref);
+  const [status] = Object.keys(op.responses);
+  const meta = [
+    op.security ? "No token needed" : `Scope: <code>${op["x-required-scope"]}</code>`,
+    `Success: <code>${status}</code>`,
+    ...(body ? [`Body: <a href="#schema-${body}"><code>${body}</code></a>`] : []),
+  ];
+
+  return `
+<section class="op" id="${id}">
+  <h3><span class="method ${method}">${method.toUpperCase()}</span> <code>${escape(path)}</code></h3>
+  <p>${inline(op.summary)}${op.description ? ` — ${inline(op.description)}` : ""}</p>
+  <p class="meta">${meta.join(" · ")}</p>${renderParameters(op.parameters ?? [])}
+</section>`;
+}
+
+/** The docs page for an OpenAPI document built by openApiDocument() */
+export function docsPage(document: Record<string, unknown>): string {
+  const doc = document as unknown as Document;
+  const byTag = new Map<string, string[]>();
+  for (const [path, methods] of Object.entries(doc.paths)) {
+    for (const [method, op] of Object.entries(methods)) {
+      const tag = op.tags[0];
+      byTag.set(tag, [...(byTag.get(tag) ?? []), renderOperation(method, path, op)]);
+    }
+  }
+
+  const sections = [...byTag]
+    .map(([tag, ops]) => `<h2 id="tag-${escape(tag)}">${escape(tag)}</h2>${ops.join("")}`)
+    .join("\n");
+  const schemas = Object.entries(doc.components.schemas)
+    .map(
+      ([name, schema]) =>
+        `<section id="schema-${name}"><h3>${name}</h3><pre>${escape(
+          JSON.stringify(schema, null, 2)
+        )}</pre></section>`
+    )
+    .join("\n");
+  const nav = [...byTag.keys()]
+    .map((tag) => `<a href="#tag-${escape(tag)}">${escape(tag)}</a>`)
+    .join("");
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escape(doc.info.title)} API</title>
+<style>
+  body { font: 15px/1.5 -apple-system, system-ui, sans-serif; max-width: 960px; margin: 0 auto; padding: 1rem 2rem; color: #1d1d1f; }
+  code, pre { font: 13px ui-monospace, Menlo, monospace; }
+  pre { background: #f5f5f7; padding: 0.75rem; overflow-x: auto; }
+  nav a { margin-right: 0.75rem; }
+  .op { border-top: 1px solid #e5e5e5; padding: 0.25rem 0; }
+  .op h3 { margin: 0.75rem 0 0.25rem; font-size: 1rem; }
+  .method { display: inline-block; min-width: 4rem; font-size: 0.8rem; color: #fff; text-align: center; border-radius: 4px; padding: 0.1rem 0.3rem; }
+  .get { background: #2f7ad8; } .post { background: #2e9d55; } .patch { background: #c98a12; } .delete { background: #c9362c; }
+  .meta { color: #6e6e73; font-size: 0.9rem; }
+  table { border-collapse: collapse; width: 100%; font-size: 0.9rem; }
+  th, td { text-align: left; border-bottom: 1px solid #eee; padding: 0.25rem 0.5rem 0.25rem 0; vertical-align: top; }
+</style>
+</head>
+<body>
+<h1>${escape(doc.info.title)} <small>${escape(doc.info.version)}</small></h1>
+<p>${inline(doc.info.description)}</p>
+<p>Send <code>Authorization: Bearer &lt;token&gt;</code>. Machine-readable: <a href="/v1/openapi.json"><code>/v1/openapi.json</code></a>.</p>
+<nav>${nav}<a href="#schemas">Schemas</a></nav>
+${sections}
+<h2 id="schemas">Schemas</h2>
+${schemas}
+</body>
+</html>
+`;
+}
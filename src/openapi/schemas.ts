@@ -0,0 +1,491 @@
+import type { JsonSchema } from "./spec";
+
+// ─── Helpers ───
+
+export const ref = (name: string): JsonSchema => ({ $ref: `#/components/schemas/${name}` });
+
+const string = (description?: string): JsonSchema =>
+  description ? { type: "string", description } : { type: "string" };
+const nullableString = (description?: string): JsonSchema =>
+  description ? { type: ["string", "null"], description } : { type: ["string", "null"] };
+const dateTime: JsonSchema = { type: "string", format: "date-time" };
+const nullableDateTime: JsonSchema = { type: ["string", "null"], format: "date-time" };
+const date: JsonSchema = { type: "string", format: "date", description: "YYYY-MM-DD" };
+const strings = (description?: string): JsonSchema =>
+  description
+    ? { type: "array", items: { type: "string" }, description }
+    : { type: "array", items: { type: "string" } };
+const oneOfNull = (schema: JsonSchema): JsonSchema => ({ anyOf: [schema, { type: "null" }] });
+
+/** An object whose properties are all required unless listed in `optional` */
+function object(
+  properties: Record<string, JsonSchema>,
+  optional: string[] = [],
+  description?: string
+): JsonSchema {
+  return {
+    type: "object",
+    ...(description && { description }),
+    required: Object.keys(properties).filter((name) => !optional.includes(name)),
+    properties,
+  };
+}
+
+/** A request body: only `required` must be sent */
+function body(properties: Record<string, JsonSchema>, required: string[] = []): JsonSchema {
+  return { type: "object", required, properties };
+}
+
+const STATUS: JsonSchema = { type: "string", enum: ["incomplete", "completed", "canceled"] };
+const START: JsonSchema = { type: ["string", "null"], enum: ["Inbox", "Anytime", "Someday", null] };
+const WHEN = string(
+  'today, tomorrow, evening, anytime, someday, or a date (YYYY-MM-DD)'
+);
+const ENTITY_KIND: JsonSchema = { type: "string", enum: ["to-do", "project", "area", "tag"] };
+
+// ─── Things ───
+
+const Todo = object({
+  uuid: string(),
+  title: string(),
+  type: { type: "string", enum: ["to-do", "project", "heading"] },
+  status: STATUS,
+  notes: string(),
+  start: START,
+  startDate: nullableString("YYYY-MM-DD"),
+  deadline: nullableString("YYYY-MM-DD"),
+  createdAt: dateTime,
+  modifiedAt: dateTime,
+  completedAt: nullableDateTime,
+  project: nullableString(),
+  projectTitle: nullableString(),
+  heading: nullableString(),
+  headingTitle: nullableString(),
+  area: nullableString(),
+  areaTitle: nullableString(),
+  tags: strings(),
+  checklist: { type: "array", items: ref("ChecklistItem") },
+  reminderTime: nullableString("HH:MM"),
+  repeating: { type: "boolean" },
+  recurrenceRule: nullableString(),
+  nextInstanceDate: nullableString("YYYY-MM-DD"),
+});
+
+const ChecklistItem = object({ uuid: string(), title: string(), status: STATUS });
+
+const Project = object({
+  uuid: string(),
+  title: string(),
+  status: STATUS,
+  notes: string(),
+  start: START,
+  startDate: nullableString("YYYY-MM-DD"),
+  deadline: nullableString("YYYY-MM-DD"),
+  createdAt: dateTime,
+  modifiedAt: dateTime,
+  completedAt: nullableDateTime,
+  area: nullableString(),
+  areaTitle: nullableString(),
+  tags: strings(),
+  todoCount: { type: "integer" },
+});
+
+const ProjectDetail: JsonSchema = {
+  allOf: [
+    ref("Project"),
+    object({
+      todos: { type: "array", items: ref("Todo"), description: "To-dos not under a heading" },
+      headings: {
+        type: "array",
+        items: object({
+          uuid: string(),
+          title: string(),
+          todos: { type: "array", items: ref("Todo") },
+        }),
+      },
+    }),
+  ],
+};
+
+const Area = object({ uuid: string(), title: string(), tags: strings() });
+
+const AreaDetail: JsonSchema = {
+  allOf: [
+    ref("Area"),
+    object({
+      projects: { type: "array", items: ref("Project"), description: "Open projects in the area" },
+      todos: {
+        type: "array",
+        items: ref("Todo"),
+        description: "Open to-dos filed directly in the area",
+      },
+    }),
+  ],
+};
+
+const Tag = object({
+  uuid: string(),
+  title: string(),
+  shortcut: nullableString(),
+  parent: nullableString("Parent tag UUID"),
+  parentTitle: nullableString(),
+});
+
+const TagNode: JsonSchema = {
+  allOf: [ref("Tag"), object({ children: { type: "array", items: ref("TagNode") } })],
+};
+
+const SearchHit = object({
+  kind: { type: "string", enum: ["to-do", "project", "area"] },
+  uuid: string(),
+  title: string(),
+  status: { type: ["string", "null"], enum: ["incomplete", "completed", "canceled", null] },
+  context: nullableString('Where it lives, e.g. "Work › Launch › Phase 1"'),
+  score: { type: "number", description: "Higher is better; only comparable within one search" },
+  snippets: {
+    type: "object",
+    additionalProperties: { type: "string" },
+    description: "Matched fields (title, notes, checklist, tags, context), terms in **bold**",
+  },
+  reasons: strings(),
+});
+
+const ENTITY: JsonSchema = oneOfNull({
+  anyOf: [ref("Todo"), ref("Project"), ref("Area"), ref("Tag")],
+});
+
+const Change = object({
+  kind: ENTITY_KIND,
+  uuid: string(),
+  change: {
+    type: "string",
+    enum: ["created", "modified", "completed", "canceled", "trashed", "deleted"],
+  },
+  at: dateTime,
+  data: { ...ENTITY, description: "The entity as it is now; null once deleted" },
+});
+
+const BridgeEvent = object(
+  {
+    type: string("e.g. todo.completed, project.updated, tag.renamed, today.changed"),
+    at: dateTime,
+    syncToken: string("Position in the change log; also the SSE id"),
+    kind: ENTITY_KIND,
+    uuid: string(),
+    data: {
+      anyOf: [
+        ENTITY,
+        object({ added: strings(), removed: strings() }, [], "today.changed"),
+      ],
+    },
+    previousTitle: string("tag.renamed only"),
+  },
+  ["syncToken", "kind", "uuid", "previousTitle"]
+);
+
+// ─── Bridge ───
+
+const Webhook = object(
+  {
+    id: string(),
+    url: { type: "string", format: "uri" },
+    events: strings("Event types or kind.* prefixes; empty for all"),
+    areas: strings("Area UUIDs or titles; empty for any"),
+    tags: strings("Tag titles; empty for any"),
+    active: { type: "boolean" },
+    createdAt: dateTime,
+    secret: string("Signing secret — only in the response that created it"),
+  },
+  ["secret"]
+);
+
+const WebhookDelivery = object({
+  id: { type: "integer" },
+  webhookId: string(),
+  event: string(),
+  status: { type: "string", enum: ["pending", "succeeded", "failed"] },
+  attempts: { type: "integer" },
+  responseStatus: { type: ["integer", "null"] },
+  error: nullableString(),
+  createdAt: dateTime,
+  nextAttemptAt: nullableDateTime,
+});
+
+const Operation = object({
+  id: string(),
+  method: string(),
+  path: string(),
+  body: { description: "The request body, as sent" },
+  status: { type: "string", enum: ["pending", "succeeded", "failed", "canceled"] },
+  attempts: { type: "integer" },
+  createdAt: dateTime,
+  completedAt: nullableDateTime,
+  response: oneOfNull(object({ status: { type: "integer" }, body: {} })),
+  undoable: { type: "boolean" },
+  undoneAt: nullableDateTime,
+});
+
+const AuditEntry = object({
+  at: dateTime,
+  token: string("The token's name"),
+  ip: nullableString("Null for replayed operations"),
+  method: string(),
+  path: string(),
+  body: {},
+  writes: strings('Write backend calls it made, e.g. "completeTodo(<uuid>)"'),
+  outcome: object({
+    result: { type: "string", enum: ["succeeded", "failed", "queued"] },
+    status: { type: "integer" },
+    error: nullableString(),
+  }),
+  operationId: nullableString(),
+  changes: {
+    type: "array",
+    items: object({
+      kind: { type: "string", enum: ["to-do", "project"] },
+      uuid: string(),
+      before: oneOfNull({ anyOf: [ref("Todo"), ref("Project")] }),
+      after: oneOfNull({ anyOf: [ref("Todo"), ref("Project")] }),
+      trashed: { type: "boolean" },
+    }),
+  },
+});
+
+const TOKEN_SCOPE: JsonSchema = { type: "string", enum: ["read", "write", "delete", "admin"] };
+
+const RateLimits = body({
+  reads: { type: "integer", minimum: 0, description: "GET requests per minute; 0 is unlimited" },
+  writes: { type: "integer", minimum: 0, description: "Other requests per minute; 0 is unlimited" },
+});
+
+const ApiToken = object(
+  {
+    id: string(),
+    name: string(),
+    scopes: { type: "array", items: TOKEN_SCOPE },
+    areas: strings("Only to-dos and projects in these areas (UUIDs or titles)"),
+    excludeAreas: strings("Hide to-dos and projects in these areas"),
+    tags: strings("Only to-dos and projects with one of these tags"),
+    excludeTags: strings("Hide to-dos and projects with these tags"),
+    rateLimits: ref("RateLimits"),
+    createdAt: dateTime,
+    lastUsedAt: nullableDateTime,
+    secret: string("Bearer secret — only in the response that created it"),
+  },
+  ["secret"]
+);
+
+const BATCH_OP: JsonSchema = { type: "string", enum: ["create", "update", "complete", "move"] };
+
+const BatchOperation: JsonSchema = {
+  oneOf: [
+    object({ op: { const: "create" }, data: ref("CreateTodoRequest") }),
+    object({ op: { const: "update" }, uuid: string(), data: ref("UpdateTodoRequest") }),
+    object({ op: { const: "complete" }, uuid: string() }),
+    object({ op: { const: "move" }, uuid: string(), list: string() }),
+  ],
+};
+
+const BatchOperationResult = object(
+  {
+    index: { type: "integer" },
+    op: BATCH_OP,
+    status: { type: "string", enum: ["ok", "error", "skipped"] },
+    uuid: string("The to-do operated on (or created)"),
+    error: string(),
+    code: string("Failures while running: things_not_running, timeout, not_found, ..."),
+  },
+  ["uuid", "error", "code"]
+);
+
+const BatchSummary = object({
+  results: { type: "array", items: ref("BatchOperationResult") },
+  succeeded: { type: "integer" },
+  failed: { type: "integer" },
+  skipped: { type: "integer" },
+});
+
+const Message = object({ message: string() }, [], "A confirmation; some routes add counts");
+
+const ApiResponse = object(
+  {
+    ok: { type: "boolean" },
+    data: {},
+    error: string(),
+    code: string("Failed writes: things_not_running, timeout, not_found, ... (src/backend/errors.ts)"),
+    total: { type: "integer", description: "Collection endpoints: size of the whole collection" },
+    nextCursor: nullableString("Collection endpoints: pass as ?cursor= for the next page"),
+    syncToken: string("/v1/changes: pass as ?since= next time"),
+  },
+  ["data", "error", "code", "total", "nextCursor", "syncToken"],
+  "Every response's envelope"
+);
+
+const ErrorResponse = object(
+  { ok: { const: false }, error: string(), code: string() },
+  ["code"]
+);
+
+// ─── Requests ───
+
+const CreateTodoRequest = body(
+  {
+    title: string(),
+    notes: string(),
+    when: WHEN,
+    deadline: date,
+    tags: strings(),
+    list: string("Project or area title"),
+    heading: string("Heading title inside the `list` project (needs THINGS_AUTH_TOKEN)"),
+    checklist: strings("Checklist item titles (needs THINGS_AUTH_TOKEN)"),
+  },
+  ["title"]
+);
+
+const UpdateTodoRequest = body({
+  title: string(),
+  notes: string(),
+  when: WHEN,
+  deadline: date,
+  tags: strings("Replaces the to-do's tags"),
+});
+
+const MoveTodoRequest = body(
+  { list: string('Built-in list ("inbox", "today", "anytime", "someday") or project title') },
+  ["list"]
+);
+
+const CreateChecklistItemRequest = body(
+  {
+    title: string(),
+    index: { type: "integer", minimum: 0, description: "Position (default: append)" },
+  },
+  ["title"]
+);
+
+const UpdateChecklistItemRequest = body({
+  title: string(),
+  status: STATUS,
+  index: { type: "integer", minimum: 0, description: "Move to this position" },
+});
+
+const CreateProjectRequest = body(
+  {
+    title: string(),
+    notes: string(),
+    when: WHEN,
+    deadline: date,
+    tags: strings(),
+    area: string("Area title"),
+    todos: strings("Titles of to-dos to create inside"),
+  },
+  ["title"]
+);
+
+const CreateAreaRequest = body({ title: string(), tags: strings() }, ["title"]);
+
+const UpdateAreaRequest = body({ title: string(), tags: strings("Replaces the area's tags") });
+
+const CreateTagRequest = body(
+  {
+    title: string(),
+    parent: string("Parent tag title"),
+    shortcut: string("Single-character keyboard shortcut"),
+  },
+  ["title"]
+);
+
+const UpdateTagRequest = body({
+  title: string(),
+  parent: nullableString("Parent tag title; null moves the tag to the top level"),
+  shortcut: nullableString("Null clears the shortcut"),
+});
+
+const CreateWebhookRequest = body(
+  {
+    url: { type: "string", format: "uri" },
+    events: strings(),
+    areas: strings(),
+    tags: strings(),
+    secret: { type: "string", minLength: 16, description: "Generated when omitted" },
+  },
+  ["url"]
+);
+
+const UpdateWebhookRequest = body({
+  url: { type: "string", format: "uri" },
+  events: strings(),
+  areas: strings(),
+  tags: strings(),
+  active: { type: "boolean" },
+});
+
+const CreateTokenRequest = body(
+  {
+    name: { type: "string", maxLength: 100 },
+    scopes: { type: "array", items: TOKEN_SCOPE, minItems: 1 },
+    areas: strings(),
+    excludeAreas: strings(),
+    tags: strings(),
+    excludeTags: strings(),
+    rateLimits: ref("RateLimits"),
+  },
+  ["name", "scopes"]
+);
+
+const BatchRequest = body(
+  {
+    operations: { type: "array", items: ref("BatchOperation"), maxItems: 100 },
+    atomic: {
+      type: "boolean",
+      description: "All-or-nothing: validate everything first, stop at the first failure",
+    },
+  },
+  ["operations"]
+);
+
+const UndoOperationsRequest = body({ since: dateTime }, ["since"]);
+
+// ─── Components ───
+
+/** Every named schema in the document, by name */
+export const SCHEMAS: Record<string, JsonSchema> = {
+  Todo,
+  ChecklistItem,
+  Project,
+  ProjectDetail,
+  Area,
+  AreaDetail,
+  Tag,
+  TagNode,
+  SearchHit,
+  Change,
+  BridgeEvent,
+  Webhook,
+  WebhookDelivery,
+  Operation,
+  AuditEntry,
+  RateLimits,
+  ApiToken,
+  BatchOperation,
+  BatchOperationResult,
+  BatchSummary,
+  Message,
+  ApiResponse,
+  ErrorResponse,
+  CreateTodoRequest,
+  UpdateTodoRequest,
+  MoveTodoRequest,
+  CreateChecklistItemRequest,
+  UpdateChecklistItemRequest,
+  CreateProjectRequest,
+  CreateAreaRequest,
+  UpdateAreaRequest,
+  CreateTagRequest,
+  UpdateTagRequest,
+  CreateWebhookRequest,
+  UpdateWebhookRequest,
+  CreateTokenRequest,
+  BatchRequest,
+  UndoOperationsRequest,
+};
@@ -0,0 +1,44 @@
+import { describe, test, expect, afterAll } from "bun:test";
+import { startTestBridge, stopTestBridge, send } from "../testing";
+
+// ─── Fixture ───
+
+await startTestBridge({
+  tasks: [{ uuid: "inbox-1", title: "Call the dentist", checklist: [{ title: "Find number" }] }],
+});
+const { ROUTES } = await import("../router");
+
+afterAll(stopTestBridge);
+
+// ─── OpenAPI ───
+
+describe("openapi", () => {
+  test("the document covers every route, is public, and matches real responses", async () => {
+    const response = await send("GET", "/v1/openapi.json", undefined, { token: null });
+    expect(response.status).toBe(200);
+    const doc = await response.json();
+    expect(doc.openapi).toBe("3.1.0");
+    expect(doc.servers[0].url).toBe("http://bridge");
+    for (const route of ROUTES) {
+      const path = route.path.replace(/:(\w+)/g, "{$1}");
+      expect(doc.paths[path]?.[route.method.toLowerCase()]).toBeDefined();
+    }
+    expect(doc.paths["/v1/todos"].post.requestBody.content["application/json"].schema.$ref).toBe(
+      "#/components/schemas/CreateTodoRequest"
+    );
+    expect(doc.paths["/v1/tokens/{id}"].delete["x-required-scope"]).toBe("admin");
+    expect(doc.paths["/health"].get.security).toEqual([]);
+
+    const refs = [...JSON.stringify(doc).matchAll(/#\/components\/(\w+)\/(\w+)/g)];
+    expect(refs.filter(([, kind, name]) => !doc.components[kind][name])).toEqual([]);
+
+    const { data: todo } = await (await send("GET", "/v1/todos/inbox-1")).json();
+    expect(Object.keys(todo).sort()).toEqual(
+      Object.keys(doc.components.schemas.Todo.properties).sort()
+    );
+
+    const docs = await send("GET", "/v1/docs", undefined, { token: null });
+    expect(docs.headers.get("Content-Type")).toContain("text/html");
+    expect(await docs.text()).toContain("/v1/todos/{uuid}/checklist/{itemUuid}");
+  });
+});
@@ -0,0 +1,231 @@
+import { PUBLIC_PATHS, requiredScope } from "../middleware/auth";
+import { DEFAULT_LIMIT, MAX_LIMIT } from "../pagination";
+import { SCHEMAS, ref } from "./schemas";
+
+// ─── Types ───
+
+/** A JSON Schema (2020-12, as OpenAPI 3.1 uses it) */
+export type JsonSchema = Record<string, unknown>;
+
+export interface QueryParam {
+  name: string;
+  schema: JsonSchema;
+  description: string;
+  required?: boolean;
+}
+
+/** How a route appears in the OpenAPI document — written next to it in ROUTES */
+export interface RouteDoc {
+  summary: string;
+  tag: string;
+  description?: string;
+  query?: QueryParam[];
+  body?: string; // component schema of the JSON request body
+  data?: JsonSchema; // the `data` of a successful response
+  paged?: boolean; // limit/cursor, and total/nextCursor in the response
+  status?: number; // success status (default 200)
+  response?: JsonSchema; // the whole success response, for routes without the envelope
+  contentType?: string; // success content type (default application/json)
+}
+
+/** The part of a route the document needs */
+export interface DocumentedRoute {
+  method: string;
+  path: string; // "/v1/todos/:uuid"
+  doc: RouteDoc;
+}
+
+// ─── Parameters ───
+
+export function queryParam(
+  name: string,
+  schema: JsonSchema,
+  description: string,
+  required = false
+): QueryParam {
+  return { name, schema, description, required };
+}
+
+const PAGE_PARAMS: QueryParam[] = [
+  queryParam(
+    "limit",
+    { type: "integer", minimum: 1, maximum: MAX_LIMIT, default: DEFAULT_LIMIT },
+    "Page size"
+  ),
+  queryParam("cursor", { type: "string" }, "nextCursor from the previous page"),
+];
+
+const PATH_PARAM_DESCRIPTIONS: Record<string, string> = {
+  uuid: "Things UUID",
+  itemUuid: "Checklist item UUID",
+  name: "Tag title (URL-encoded)",
+  id: "Bridge-assigned ID",
+};
+
+/** "/v1/todos/:uuid" → "/v1/todos/{uuid}" */
+function toOpenApiPath(path: string): string {
+  return path.replace(/:(\w+)/g, "{$1}");
+}
+
+function pathParams(path: string): string[] {
+  return [...path.matchAll(/:(\w+)/g)].map((match) => match[1]);
+}
+
+// ─── Operations ───
+
+function operationId(method: string, path: string): string {
+  const words = path
+    .replace(/^\/v1\//, "")
+    .split(/[/.\-]/)
+    .filter(Boolean)
+    .map((part) => (part.startsWith(":") ? `by ${part.slice(1)}` : part))
+    .join(" ")
+    .split(" ");
+  return [method.toLowerCase(), ...words]
+    .map((word, i) => (i === 0 ? word : word[0].toUpperCase() + word.slice(1)))
+    .join("");
+}
+
+function successResponse(route: DocumentedRoute): Record<string, unknown> {
+  const { doc } = route;
+  if (doc.response || doc.contentType) {
+    return {
+      description: doc.summary,
+      content: { [doc.contentType ?? "application/json"]: { schema: doc.response ?? {} } },
+    };
+  }
+
+  const properties: Record<string, JsonSchema> = {
+    ok: { const: true },
+    data: doc.data ?? {},
+  };
+  if (doc.paged) {
+    properties.total = { type: "integer" };
+    properties.nextCursor = { type: ["string", "null"] };
+  }
+  return {
+    description: doc.summary,
+    content: {
+      "application/json": {
+        schema: { type: "object", required: Object.keys(properties), properties },
+      },
+    },
+  };
+}
+
+function toOperation(route: DocumentedRoute): Record<string, unknown> {
+  const { doc } = route;
+  const isPublic = PUBLIC_PATHS.includes(route.path);
+
+  const parameters: Record<string, unknown>[] = [
+    ...pathParams(route.path).map((name) => ({
+      name,
+      in: "path",
+      required: true,
+      description: PATH_PARAM_DESCRIPTIONS[name],
+      schema: { type: "string" },
+    })),
+    ...[...(doc.query ?? []), ...(doc.paged ? PAGE_PARAMS : [])].map((param) => ({
+      name: param.name,
+      in: "query",
+      required: param.required ?? false,
+      description: param.description,
+      schema: param.schema,
+    })),
+  ];
+  if (route.method === "POST") {
+    parameters.push({
+      name: "Idempotency-Key",
+      in: "header",
+      required: false,
+      description: "Replay the stored response instead of running a retried request again",
+      schema: { type: "string", maxLength: 255 },
+    });
+  }
+
+  const responses: Record<string, unknown> = {
+    [String(doc.status ?? 200)]: successResponse(route),
+  };
+  if (!isPublic) {
+    responses["429"] = { $ref: "#/components/responses/TooManyRequests" };
+  }
+  responses.default = { $ref: "#/components/responses/Error" };
+
+  return {
+    operationId: operationId(route.method, route.path),
+    summary: doc.summary,
+    ...(doc.description && { description: doc.description }),
+    tags: [doc.tag],
+    ...(parameters.length > 0 && { parameters }),
+    ...(doc.body && {
+      requestBody: {
+        required: true,
+        content: { "application/json": { schema: ref(doc.body) } },
+      },
+    }),
+    responses,
+    ...(isPublic
+      ? { security: [] }
+      : { "x-required-scope": requiredScope(route.method, route.path) }),
+  };
+}
+
+// ─── Document ───
+
+/**
+ * The OpenAPI 3.1 document for `routes` — the router's own table, so every
+ * route it serves is described and nothing else is. `serverUrl` is where
+ * the document was fetched from.
+ */
+export function openApiDocument(
+  routes: DocumentedRoute[],
+  serverUrl: string
+): Record<string, unknown> {
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const route of routes) {
+    const path = toOpenApiPath(route.path);
+    paths[path] ??= {};
+    paths[path][route.method.toLowerCase()] = toOperation(route);
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "Things Bridge",
+      version: "0.1.0",
+      description:
+        "HTTP API for Things 3. Every JSON response is an ApiResponse envelope: " +
+        "`ok`, then `data` on success or `error` (and for failed writes `code`) on failure.",
+    },
+    servers: [{ url: serverUrl }],
+    security: [{ bearerAuth: [] }],
+    tags: [...new Set(routes.map((route) => route.doc.tag))].map((name) => ({ name })),
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: {
+          type: "http",
+          scheme: "bearer",
+          description: "THINGS_BRIDGE_TOKEN or a token from POST /v1/tokens",
+        },
+      },
+      responses: {
+        Error: {
+          description: "The request failed",
+          content: { "application/json": { schema: ref("ErrorResponse") } },
+        },
+        TooManyRequests: {
+          description: "Over the token's rate limit, or locked out after failed authentication",
+          headers: {
+            "Retry-After": {
+              description: "Seconds until the next request is allowed",
+              schema: { type: "integer" },
+            },
+          },
+          content: { "application/json": { schema: ref("ErrorResponse") } },
+        },
+      },
+      schemas: SCHEMAS,
+    },
+  };
+}
@@ -0,0 +1,78 @@
+import { describe, test, expect, afterAll, setSystemTime, spyOn } from "bun:test";
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import { startTestBridge, stopTestBridge, send } from "../testing";
+
+// ─── Fixture ───
+
+await startTestBridge({});
+const queries = await import("../db/queries");
+const dataDir = process.env.THINGS_BRIDGE_DATA_DIR!;
+
+afterAll(async () => {
+  setSystemTime();
+  await stopTestBridge();
+});
+
+const fromLan = (method: string, path: string, body?: unknown) =>
+  send(method, path, body, { ip: "192.168.1.20" });
+
+// ─── Audit Log ───
+
+describe("audit log", () => {
+  test("writes are logged with their token, backend calls and before/after state", async () => {
+    const created = await fromLan("POST", "/v1/todos", { title: "Book flights" });
+    const { uuid } = (await created.json()).data;
+    await fromLan("POST", `/v1/todos/${uuid}/complete`);
+    await fromLan("DELETE", "/v1/todos/no-such-todo");
+
+    // Newest first
+    const logged = await (await fromLan("GET", `/v1/audit?uuid=${uuid}`)).json();
+    expect(logged.total).toBe(2);
+    const [entry] = logged.data;
+    expect(entry).toMatchObject({
+      token: "THINGS_BRIDGE_TOKEN",
+      ip: "192.168.1.20",
+      method: "POST",
+      writes: [`completeTodo(${uuid})`],
+      outcome: { result: "succeeded", status: 200 },
+    });
+    expect(entry.changes[0].before.status).toBe("incomplete");
+    expect(entry.changes[0].after.status).toBe("completed");
+
+    const failed = await (await fromLan("GET", "/v1/audit?result=failed&method=delete")).json();
+    expect(failed.data[0].outcome.error).toBe("To-do not found");
+  });
+
+  test("each write snapshots what it changes once, for both the log and the journal", async () => {
+    const created = await fromLan("POST", "/v1/todos", { title: "Renew passport" });
+    const { uuid } = (await created.json()).data;
+
+    const reads = spyOn(queries, "getTodoByUuid");
+    try {
+      await fromLan("PATCH", `/v1/todos/${uuid}`, { title: "Renew passports" });
+      // The undo snapshot, the handler's existence check, and the audit "after"
+      expect(reads.mock.calls.filter(([read]) => read === uuid)).toHaveLength(3);
+    } finally {
+      reads.mockRestore();
+    }
+  });
+
+  test("entries go to a file per month and are pruned after the retention period", async () => {
+    setSystemTime(new Date("2026-01-15T12:00:00Z"));
+    await fromLan("POST", "/v1/todos", { title: "File taxes" });
+    const januaryFile = join(dataDir, "audit-2026-01.jsonl");
+    expect(readFileSync(januaryFile, "utf8")).toContain("File taxes");
+
+    // THINGS_BRIDGE_AUDIT_RETENTION_DAYS defaults to a year
+    setSystemTime(new Date("2027-02-01T12:00:00Z"));
+    await fromLan("POST", "/v1/todos", { title: "File taxes again" });
+    expect(existsSync(januaryFile)).toBe(false);
+    expect(existsSync(join(dataDir, "audit-2027-02.jsonl"))).toBe(true);
+
+    const january = await (await fromLan("GET", "/v1/audit?until=2026-02-01T00:00:00Z")).json();
+    expect(january.total).toBe(0);
+    const later = await (await fromLan("GET", "/v1/audit?since=2027-01-01T00:00:00Z")).json();
+    expect(later.data[0].body).toEqual({ title: "File taxes again" });
+  });
+});
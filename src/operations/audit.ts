@@ -0,0 +1,199 @@
+import { appendFileSync, existsSync, mkdirSync, readdirSync, rmSync } from "fs";
+import { join } from "path";
+import { config } from "../config";
+import { getStateDb } from "../state/db";
+import { currentToken } from "../auth/context";
+import { collectWrites } from "../backend/queue";
+import { getTodoByUuid, getProjectSummary, isTrashed } from "../db/queries";
+import { getUndoTargets, listUndoableOperationIds } from "./journal";
+import type { UndoCapture } from "./undo";
+import { queryPage } from "../pagination";
+import type { AuditChange, AuditEntry, Page, PageRequest, UndoTarget } from "../types";
+
+// ─── Audit Log ───
+
+// Append-only JSONL files in the data directory, one per month and one line
+// per write. The bridge never rewrites them, so nothing an agent does can take
+// an entry back out; whole months are deleted once they pass
+// THINGS_BRIDGE_AUDIT_RETENTION_DAYS. GET /v1/audit reads a copy of each
+// entry in the state database, pruned on the same schedule.
+
+const LOG_FILE = /^audit-(\d{4})-(\d{2})\.jsonl$/;
+
+function auditPath(at: string): string {
+  return join(config.dataDir, `audit-${at.slice(0, 7)}.jsonl`);
+}
+
+/** The oldest time still kept, in ms; null when entries are kept forever */
+function retentionCutoff(): number | null {
+  return config.auditRetentionDays > 0 ? Date.now() - config.auditRetentionDays * 86400_000 : null;
+}
+
+/** Delete monthly files that ended before the cutoff */
+function pruneLogFiles(cutoff: number): void {
+  for (const name of readdirSync(config.dataDir)) {
+    const match = LOG_FILE.exec(name);
+    // Months count from 0 in Date.UTC, so this is when the file's month ended
+    if (match && Date.UTC(Number(match[1]), Number(match[2])) <= cutoff) {
+      rmSync(join(config.dataDir, name), { force: true });
+    }
+  }
+}
+
+/** The to-dos and projects an entry touched, and anything its path names */
+function subjectsOf(entry: AuditEntry): Set<string> {
+  const pathname = new URL(entry.path, "http://things-bridge").pathname;
+  return new Set([
+    ...pathname.split("/").slice(3).filter(Boolean),
+    ...entry.changes.map((change) => change.uuid),
+  ]);
+}
+
+function appendAudit(entry: AuditEntry): void {
+  mkdirSync(config.dataDir, { recursive: true });
+  const path = auditPath(entry.at);
+  const newMonth = !existsSync(path);
+  appendFileSync(path, `${JSON.stringify(entry)}\n`);
+
+  const cutoff = retentionCutoff();
+  if (cutoff !== null && newMonth) pruneLogFiles(cutoff);
+
+  const db = getStateDb();
+  db.transaction(() => {
+    if (cutoff !== null) {
+      db.query(`DELETE FROM audit_log WHERE at < ?`).run(cutoff / 1000);
+    }
+    const { lastInsertRowid } = db
+      .query(`INSERT INTO audit_log (at, token, method, result, entry) VALUES (?, ?, ?, ?, ?)`)
+      .run(
+        Date.parse(entry.at) / 1000,
+        entry.token,
+        entry.method,
+        entry.outcome.result,
+        JSON.stringify(entry)
+      );
+    const subject = db.query(`INSERT INTO audit_subjects (seq, uuid) VALUES (?, ?)`);
+    for (const uuid of subjectsOf(entry)) subject.run(lastInsertRowid, uuid);
+  })();
+}
+
+function parseJson(text: string): unknown {
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+// ─── Snapshots ───
+
+function snapshot(target: Pick<UndoTarget, "kind" | "uuid">): UndoTarget["before"] {
+  return target.kind === "to-do" ? getTodoByUuid(target.uuid) : getProjectSummary(target.uuid);
+}
+
+/** What an undo is about to touch, as it is now */
+function undoSubjects(pathname: string, body: string): UndoTarget[] {
+  const match = /^\/v1\/operations\/([^/]+)\/undo$/.exec(pathname);
+  let ids: string[] = [];
+  if (match) {
+    ids = [match[1]];
+  } else if (pathname === "/v1/operations/undo") {
+    const since = Date.parse((parseJson(body) as { since?: string } | null)?.since ?? "");
+    if (!Number.isNaN(since)) ids = listUndoableOperationIds(since / 1000);
+  }
+  return ids
+    .flatMap((id) => getUndoTargets(id) ?? [])
+    .map((target) => ({ ...target, before: snapshot(target) }) as UndoTarget);
+}
+
+/** Pair each subject's before-state with how the write left it */
+function toChanges(subjects: UndoTarget[]): AuditChange[] {
+  return subjects.map(
+    (subject) =>
+      ({
+        ...subject,
+        after: snapshot(subject),
+        trashed: isTrashed(subject.uuid),
+      }) as AuditChange
+  );
+}
+
+// ─── Recording ───
+
+/**
+ * Run a write and append it to the audit log: the current token, what it
+ * sent, the backend calls it made, the outcome, and every to-do and project
+ * it touched before and after — from `capture`, the write's undo snapshot,
+ * or for an undo, from the operations it undoes.
+ */
+export async function auditWrite(
+  request: { method: string; path: string; body: string; ip: string | null },
+  capture: UndoCapture,
+  handler: () => Promise<Response>
+): Promise<Response> {
+  const pathname = new URL(request.path, "http://things-bridge").pathname;
+  const undoing = pathname.startsWith("/v1/operations/");
+  const undone = undoing ? undoSubjects(pathname, request.body) : [];
+
+  const { result: response, writes } = await collectWrites(handler);
+  const text = await response.clone().text();
+  const json = parseJson(text) as { error?: unknown; data?: { id?: unknown } } | null;
+  const queuedId = response.status === 202 ? json?.data?.id : null;
+
+  appendAudit({
+    at: new Date().toISOString(),
+    token: currentToken().name,
+    ip: request.ip,
+    method: request.method,
+    path: request.path,
+    body: parseJson(request.body),
+    writes,
+    outcome: {
+      // A 202 is also a create Things hadn't saved yet; only journaled writes carry an id
+      result: typeof queuedId === "string" ? "queued" : response.ok ? "succeeded" : "failed",
+      status: response.status,
+      error: typeof json?.error === "string" ? json.error : null,
+    },
+    operationId:
+      response.headers.get("Operation-Id") ?? (typeof queuedId === "string" ? queuedId : null),
+    changes: toChanges(undoing ? undone : (capture(text) ?? [])),
+  });
+  return response;
+}
+
+// ─── Queries ───
+
+export interface AuditFilter {
+  token?: string;
+  uuid?: string; // entries that touched it, or name it in their path
+  method?: string;
+  result?: AuditEntry["outcome"]["result"];
+  since?: number; // ms
+  until?: number; // ms
+}
+
+/** Audit entries matching `filter`, newest first */
+export function queryAudit(filter: AuditFilter, page?: PageRequest): Page<AuditEntry> {
+  const rows = queryPage<{ seq: number; entry: string }>(
+    getStateDb(),
+    `SELECT seq, entry FROM audit_log
+     WHERE (?1 IS NULL OR token = ?1)
+       AND (?2 IS NULL OR method = ?2)
+       AND (?3 IS NULL OR result = ?3)
+       AND (?4 IS NULL OR at >= ?4)
+       AND (?5 IS NULL OR at < ?5)
+       AND (?6 IS NULL OR seq IN (SELECT seq FROM audit_subjects WHERE uuid = ?6))`,
+    [{ column: "seq", desc: true }],
+    [
+      filter.token ?? null,
+      filter.method ?? null,
+      filter.result ?? null,
+      filter.since === undefined ? null : filter.since / 1000,
+      filter.until === undefined ? null : filter.until / 1000,
+      filter.uuid ?? null,
+    ],
+    page
+  );
+  return { ...rows, items: rows.items.map((row) => JSON.parse(row.entry) as AuditEntry) };
+}
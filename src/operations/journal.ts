@@ -0,0 +1,276 @@
+import { randomUUID } from "crypto";
+import { getStateDb } from "../state/db";
+import { queryPage } from "../pagination";
+import { currentToken } from "../auth/context";
+import { hasScope, ROOT_TOKEN } from "../auth/tokens";
+import type { Operation, Page, PageRequest, UndoTarget } from "../types";
+
+// ─── Row Mapping ───
+
+interface OperationRow {
+  seq: number;
+  id: string;
+  method: string;
+  path: string;
+  body: string;
+  status: Operation["status"];
+  attempts: number;
+  response_status: number | null;
+  response: string | null;
+  targets: string | null;
+  token_id: string | null;
+  created_at: number;
+  completed_at: number | null;
+  undone_at: number | null;
+}
+
+/** A journaled write with what's needed to replay it */
+export interface PendingOperation {
+  id: string;
+  method: string;
+  path: string;
+  body: string;
+  tokenId: string | null; // replay as this token; null for THINGS_BRIDGE_TOKEN
+}
+
+function parseJson(text: string | null): unknown {
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+function isoFromUnix(unix: number | null): string | null {
+  return unix === null ? null : new Date(unix * 1000).toISOString();
+}
+
+function mapOperation(row: OperationRow): Operation {
+  return {
+    id: row.id,
+    method: row.method,
+    path: row.path,
+    body: parseJson(row.body),
+    status: row.status,
+    attempts: row.attempts,
+    createdAt: isoFromUnix(row.created_at)!,
+    completedAt: isoFromUnix(row.completed_at),
+    response:
+      row.response_status === null
+        ? null
+        : { status: row.response_status, body: parseJson(row.response) },
+    undoable: row.status === "succeeded" && row.targets !== null && row.undone_at === null,
+    undoneAt: isoFromUnix(row.undone_at),
+  };
+}
+
+const nowUnix = () => Date.now() / 1000;
+
+// ─── Ownership ───
+
+// Operations are recorded with the token that sent them. Tokens see and undo
+// only their own; admins see everyone's.
+
+/** The current token's id as stored; null for THINGS_BRIDGE_TOKEN */
+function currentTokenId(): string | null {
+  const token = currentToken();
+  return token.id === ROOT_TOKEN.id ? null : token.id;
+}
+
+/**
+ * Bindings for an `(?a = 1 OR token_id IS ?b)` condition: whether the current
+ * token is an admin, and its id.
+ */
+function owner(): [number, string | null] {
+  return [hasScope(currentToken(), "admin") ? 1 : 0, currentTokenId()];
+}
+
+// ─── Journal ───
+
+/** Finished operations are kept this long, then pruned as new ones arrive */
+const RETENTION_SECONDS = 7 * 86400;
+
+function pruneOperations(now: number): void {
+  getStateDb()
+    .query(`DELETE FROM operations WHERE status != 'pending' AND completed_at < ?`)
+    .run(now - RETENTION_SECONDS);
+}
+
+/** Journal a write to run once Things is reachable */
+export function journalOperation(method: string, path: string, body: string): Operation {
+  const now = nowUnix();
+  const id = randomUUID();
+  pruneOperations(now);
+  getStateDb()
+    .query(
+      `INSERT INTO operations (id, method, path, body, token_id, created_at)
+       VALUES (?, ?, ?, ?, ?, ?)`
+    )
+    .run(id, method, path, body, currentTokenId(), now);
+  return getOperation(id)!;
+}
+
+/**
+ * Journal a write that just succeeded, with what it touched (null: nothing
+ * that can be undone).
+ */
+export function recordOperation(
+  method: string,
+  path: string,
+  body: string,
+  response: { status: number; body: string },
+  targets: UndoTarget[] | null
+): Operation {
+  const now = nowUnix();
+  const id = randomUUID();
+  pruneOperations(now);
+  getStateDb()
+    .query(
+      `INSERT INTO operations
+         (id, method, path, body, status, attempts, response_status, response, targets,
+          token_id, created_at, completed_at)
+       VALUES (?, ?, ?, ?, 'succeeded', 1, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(
+      id,
+      method,
+      path,
+      body,
+      response.status,
+      response.body,
+      targets && JSON.stringify(targets),
+      currentTokenId(),
+      now,
+      now
+    );
+  return getOperation(id)!;
+}
+
+/** An operation, if the current token sent it (or is an admin) */
+export function getOperation(id: string): Operation | null {
+  const row = getStateDb()
+    .query<OperationRow, [string, number, string | null]>(
+      `SELECT * FROM operations WHERE id = ?1 AND (?2 = 1 OR token_id IS ?3)`
+    )
+    .get(id, ...owner());
+  return row ? mapOperation(row) : null;
+}
+
+/**
+ * The current token's journaled operations (everyone's, for admins), oldest
+ * first, optionally only those in one status
+ */
+export function listOperations(
+  status: Operation["status"] | null,
+  page?: PageRequest
+): Page<Operation> {
+  const rows = queryPage<OperationRow>(
+    getStateDb(),
+    `SELECT * FROM operations
+     WHERE (?1 IS NULL OR status = ?1) AND (?2 = 1 OR token_id IS ?3)`,
+    [{ column: "seq" }],
+    [status, ...owner()],
+    page
+  );
+  return { ...rows, items: rows.items.map(mapOperation) };
+}
+
+export function countPendingOperations(): number {
+  return getStateDb()
+    .query<{ total: number }, []>(
+      `SELECT COUNT(*) AS total FROM operations WHERE status = 'pending'`
+    )
+    .get()!.total;
+}
+
+/** The oldest operation still waiting to run */
+export function nextPendingOperation(): PendingOperation | null {
+  return (
+    getStateDb()
+      .query<PendingOperation, []>(
+        `SELECT id, method, path, body, token_id AS tokenId FROM operations
+         WHERE status = 'pending' ORDER BY seq LIMIT 1`
+      )
+      .get() ?? null
+  );
+}
+
+/**
+ * Record one replay attempt. A null outcome means Things still wasn't
+ * reachable and the operation stays pending.
+ */
+export function recordOperationAttempt(
+  id: string,
+  outcome: {
+    status: "succeeded" | "failed";
+    responseStatus: number;
+    response: string;
+    targets: UndoTarget[] | null;
+  } | null
+): void {
+  const db = getStateDb();
+  if (!outcome) {
+    db.query(`UPDATE operations SET attempts = attempts + 1 WHERE id = ?`).run(id);
+    return;
+  }
+  db.query(
+    `UPDATE operations
+     SET status = ?, attempts = attempts + 1, response_status = ?, response = ?,
+         targets = ?, completed_at = ?
+     WHERE id = ? AND status = 'pending'`
+  ).run(
+    outcome.status,
+    outcome.responseStatus,
+    outcome.response,
+    outcome.targets && JSON.stringify(outcome.targets),
+    nowUnix(),
+    id
+  );
+}
+
+/** Cancel a pending operation; false if it isn't pending (anymore) */
+export function cancelOperation(id: string): boolean {
+  const { changes } = getStateDb()
+    .query(
+      `UPDATE operations SET status = 'canceled', completed_at = ?
+       WHERE id = ? AND status = 'pending'`
+    )
+    .run(nowUnix(), id);
+  return changes > 0;
+}
+
+// ─── Undo ───
+
+/** What an undoable operation touched; null if it can't be undone (anymore) */
+export function getUndoTargets(id: string): UndoTarget[] | null {
+  const row = getStateDb()
+    .query<{ targets: string | null }, [string]>(
+      `SELECT targets FROM operations
+       WHERE id = ? AND status = 'succeeded' AND undone_at IS NULL`
+    )
+    .get(id);
+  return row?.targets ? (JSON.parse(row.targets) as UndoTarget[]) : null;
+}
+
+/**
+ * Ids of the current token's undoable operations (everyone's, for admins)
+ * that ran at or after `since` (unix), newest first
+ */
+export function listUndoableOperationIds(since: number): string[] {
+  return getStateDb()
+    .query<{ id: string }, [number, number, string | null]>(
+      `SELECT id FROM operations
+       WHERE status = 'succeeded' AND targets IS NOT NULL AND undone_at IS NULL
+         AND completed_at >= ?1 AND (?2 = 1 OR token_id IS ?3)
+       ORDER BY completed_at DESC, seq DESC`
+    )
+    .all(since, ...owner())
+    .map((row) => row.id);
+}
+
+export function markOperationUndone(id: string): void {
+  getStateDb()
+    .query(`UPDATE operations SET undone_at = ? WHERE id = ?`)
+    .run(nowUnix(), id);
+}
@@ -0,0 +1,84 @@
+import { describe, test, expect, afterAll } from "bun:test";
+import { startTestBridge, stopTestBridge, send } from "../testing";
+
+// ─── Fixture ───
+
+const fake = await startTestBridge({});
+const { setBackend } = await import("../backend");
+const { WriteError } = await import("../backend/errors");
+const { routeRequest } = await import("../router");
+const { startOperations } = await import("./replay");
+const queries = await import("../db/queries");
+
+afterAll(stopTestBridge);
+
+// Things is down until a test says otherwise
+let running = false;
+setBackend({
+  ...fake,
+  async createTodo(req) {
+    if (!running) throw new WriteError("things_not_running", "Application isn't running. (-600)");
+    return fake.createTodo(req);
+  },
+});
+
+const operation = async (id: string) =>
+  (await (await send("GET", `/v1/operations/${id}`)).json()).data;
+
+// ─── Offline Operations ───
+
+describe("offline operations", () => {
+  test("writes made while Things is down are journaled and replayed in order", async () => {
+    const first = await send("POST", "/v1/todos", { title: "Renew passport" });
+    expect(first.status).toBe(202);
+    const { data: pending } = await first.json();
+    expect(pending.status).toBe("pending");
+
+    // Queued behind the first, then canceled before it runs
+    const second = (await (await send("POST", "/v1/todos", { title: "Skip me" })).json()).data;
+    expect((await send("DELETE", `/v1/operations/${second.id}`)).status).toBe(200);
+    expect((await send("DELETE", `/v1/operations/${second.id}`)).status).toBe(409);
+
+    running = true;
+    startOperations((request) => routeRequest(request, new URL(request.url)));
+    for (let i = 0; i < 50 && (await operation(pending.id)).status === "pending"; i++) {
+      await Bun.sleep(10);
+    }
+
+    const done = await operation(pending.id);
+    expect(done.status).toBe("succeeded");
+    expect(done.response.status).toBe(201);
+    expect(queries.getTodoByUuid(done.response.body.data.uuid)?.title).toBe("Renew passport");
+    expect((await send("DELETE", `/v1/operations/${pending.id}`)).status).toBe(409);
+    expect(fake.sent.filter((sent) => sent.body.includes("Skip me"))).toEqual([]);
+  });
+
+  test("operations are listed by status and looked up by id", async () => {
+    expect((await send("GET", "/v1/operations/no-such-operation")).status).toBe(404);
+    expect((await send("GET", "/v1/operations?status=done")).status).toBe(400);
+    const canceled = await (await send("GET", "/v1/operations?status=canceled")).json();
+    expect(canceled.data.map((op: { status: string }) => op.status)).toEqual(["canceled"]);
+  });
+
+  test("queued writes are still validated before they're journaled", async () => {
+    const async = { headers: { Prefer: "respond-async" } };
+    const badBody = await send("POST", "/v1/todos", { title: "Typo", notes: 5 }, async);
+    expect(badBody.status).toBe(400);
+    expect((await send("DELETE", "/v1/todos/nope", undefined, async)).status).toBe(404);
+
+    // Things goes down with a write pending, so everything else queues behind it
+    running = false;
+    const pending = (await (await send("POST", "/v1/todos", { title: "Buy stamps" })).json()).data;
+    expect(pending.status).toBe("pending");
+    expect((await send("POST", "/v1/todos", { notes: "No title" })).status).toBe(400);
+    expect((await send("PATCH", "/v1/todos/nope", { title: "Gone" })).status).toBe(404);
+
+    const queued = await send("POST", "/v1/todos", { title: "Post the letter" });
+    expect(queued.status).toBe(202);
+    const listed = await (await send("GET", "/v1/operations?status=pending")).json();
+    expect(listed.data.map((op: { id: string }) => op.id)).toEqual([
+      pending.id,
+      (await queued.json()).data.id,
+    ]);
+  });
+});
@@ -0,0 +1,120 @@
+import {
+  nextPendingOperation,
+  recordOperationAttempt,
+  countPendingOperations,
+} from "./journal";
+import { captureUndo } from "./undo";
+import { auditWrite } from "./audit";
+import { runAsToken } from "../auth/context";
+import { getToken, ROOT_TOKEN } from "../auth/tokens";
+
+// ─── Replay ───
+
+/** How often to try again while Things is still unreachable */
+const REPLAY_INTERVAL_MS = 30000;
+
+type RequestHandler = (request: Request) => Promise<Response>;
+
+let handler: RequestHandler | null = null;
+let timer: ReturnType<typeof setTimeout> | null = null;
+let draining = false;
+let running: string | null = null;
+
+/**
+ * Whether a write's response means Things couldn't be reached at all — the
+ * only failure worth journaling, since nothing was applied.
+ */
+export function isUnreachable(status: number, body: string): boolean {
+  if (status !== 503) return false;
+  try {
+    return JSON.parse(body).code === "things_not_running";
+  } catch {
+    return false;
+  }
+}
+
+/** Whether this operation is being replayed right now (too late to cancel) */
+export function isReplaying(id: string): boolean {
+  return running === id;
+}
+
+/** Replay pending operations after `delay`, unless a replay is already scheduled */
+export function scheduleReplay(delay = 0): void {
+  if (!handler || timer) return;
+  timer = setTimeout(() => {
+    timer = null;
+    void drain();
+  }, delay);
+}
+
+/**
+ * Replay pending operations oldest first through `handler`, stopping at the
+ * first one that still can't reach Things so nothing overtakes it.
+ */
+async function drain(): Promise<void> {
+  if (draining || !handler) return;
+  draining = true;
+  try {
+    for (let op = nextPendingOperation(); op; op = nextPendingOperation()) {
+      running = op.id;
+      // Replay as the token that sent it, so its visibility still applies
+      const token = op.tokenId === null ? ROOT_TOKEN : getToken(op.tokenId);
+      const url = new URL(op.path, "http://things-bridge");
+      const { response, capture } = token
+        ? await runAsToken(token, async () => {
+            const capture = captureUndo(op.method, url.pathname, op.body);
+            const response = await auditWrite({ ...op, ip: null }, capture, () =>
+              handler!(
+                new Request(url, {
+                  method: op.method,
+                  headers: { "Content-Type": "application/json" },
+                  body: op.body || undefined,
+                })
+              )
+            );
+            return { response, capture };
+          })
+        : {
+            response: Response.json(
+              { ok: false, error: "The token that sent this operation was revoked" },
+              { status: 403 }
+            ),
+            capture: () => null,
+          };
+      const text = await response.text();
+      if (isUnreachable(response.status, text)) {
+        recordOperationAttempt(op.id, null);
+        scheduleReplay(REPLAY_INTERVAL_MS);
+        return;
+      }
+      recordOperationAttempt(op.id, {
+        status: response.ok ? "succeeded" : "failed",
+        responseStatus: response.status,
+        response: text,
+        targets: response.ok ? capture(text) : null,
+      });
+    }
+  } catch (err) {
+    console.error("[operations] Replay failed:", err);
+    scheduleReplay(REPLAY_INTERVAL_MS);
+  } finally {
+    running = null;
+    draining = false;
+  }
+}
+
+/**
+ * Start replaying journaled operations through `routeHandler` — the router
+ * without auth, since every operation was authorized when it was journaled.
+ */
+export function startOperations(routeHandler: RequestHandler): void {
+  handler = routeHandler;
+  if (countPendingOperations() > 0) scheduleReplay();
+}
+
+/** Stop replaying (pending operations resume on next start) */
+export function stopOperations(): void {
+  if (timer) clearTimeout(timer);
+  timer = null;
+  handler = null;
+}
@@ -0,0 +1,121 @@
+import { describe, test, expect, afterAll } from "bun:test";
+import { Database } from "bun:sqlite";
+import { startTestBridge, stopTestBridge, send, THINGS_PATH } from "../testing";
+
+// ─── Fixture ───
+
+await startTestBridge({});
+const queries = await import("../db/queries");
+
+afterAll(stopTestBridge);
+
+// ─── Undo ───
+
+describe("undo", () => {
+  test("an operation's changes can be undone, and a created to-do trashed", async () => {
+    const since = new Date().toISOString();
+    const created = await send("POST", "/v1/todos", { title: "Return library books", tags: ["home"] });
+    const { uuid } = (await created.json()).data;
+    expect(created.headers.get("Operation-Id")).toBeTruthy();
+
+    const update = await send("PATCH", `/v1/todos/${uuid}`, { title: "Return overdue books", tags: [] });
+    await send("POST", `/v1/todos/${uuid}/complete`);
+    await send("DELETE", `/v1/todos/${uuid}`);
+
+    const operationId = update.headers.get("Operation-Id");
+    const undone = await send("POST", `/v1/operations/${operationId}/undo`);
+    expect(undone.status).toBe(200);
+    expect((await undone.json()).data.undoneAt).not.toBeNull();
+
+    // Back as it was before the update — later changes included — and out of the Trash
+    const restored = queries.getTodoByUuid(uuid)!;
+    expect(restored.title).toBe("Return library books");
+    expect(restored.tags).toEqual(["home"]);
+    expect(restored.status).toBe("incomplete");
+    expect(queries.searchTodos("Return library books").items.map((todo) => todo.uuid)).toEqual([uuid]);
+
+    // The create, complete and delete are still undoable; undoing the create trashes it
+    const all = await send("POST", "/v1/operations/undo", { since });
+    expect((await all.json()).total).toBe(3);
+    expect(queries.searchTodos("Return library books").items).toEqual([]);
+  });
+
+  test("operations that can't be undone are a conflict", async () => {
+    const created = await send("POST", "/v1/todos", { title: "Water the garden" });
+    const operationId = created.headers.get("Operation-Id");
+    expect((await send("POST", `/v1/operations/${operationId}/undo`)).status).toBe(200);
+
+    const again = await send("POST", `/v1/operations/${operationId}/undo`);
+    expect(again.status).toBe(409);
+    expect((await again.json()).error).toBe("Operation was already undone");
+
+    // Journaled but not run yet
+    const deferred = await send("POST", "/v1/todos", { title: "Later" }, {
+      headers: { Prefer: "respond-async" },
+    });
+    const { data: pending } = await deferred.json();
+    const pendingUndo = await send("POST", `/v1/operations/${pending.id}/undo`);
+    expect(pendingUndo.status).toBe(409);
+    expect((await pendingUndo.json()).error).toBe("Operation is pending and can't be undone");
+    expect((await send("DELETE", `/v1/operations/${pending.id}`)).status).toBe(200);
+
+    expect((await send("POST", "/v1/operations/no-such-operation/undo")).status).toBe(404);
+  });
+
+  test("an undo that fails leaves the operation undoable", async () => {
+    const created = await send("POST", "/v1/todos", { title: "Feed the cat" });
+    const { uuid } = (await created.json()).data;
+    const update = await send("PATCH", `/v1/todos/${uuid}`, { title: "Feed the cats" });
+    const operationId = update.headers.get("Operation-Id");
+
+    // Gone from Things altogether, so there's nothing to put back
+    const things = new Database(THINGS_PATH);
+    things.query(`DELETE FROM TMTask WHERE uuid = ?`).run(uuid);
+    things.close();
+
+    const undo = await send("POST", `/v1/operations/${operationId}/undo`);
+    expect(undo.status).toBe(404);
+    expect((await undo.json()).code).toBe("not_found");
+    const operation = await (await send("GET", `/v1/operations/${operationId}`)).json();
+    expect(operation.data).toMatchObject({ undoable: true, undoneAt: null });
+  });
+
+  test("undoing everything since a time needs a valid time", async () => {
+    expect((await send("POST", "/v1/operations/undo", {})).status).toBe(400);
+    expect((await send("POST", "/v1/operations/undo", { since: "last week" })).status).toBe(400);
+    const none = await send("POST", "/v1/operations/undo", { since: new Date().toISOString() });
+    expect(await none.json()).toMatchObject({ ok: true, data: [], total: 0 });
+  });
+
+  test("undoing a create trashes it, so it needs the delete scope", async () => {
+    const token = await send("POST", "/v1/tokens", { name: "writer", scopes: ["read", "write"] });
+    const { secret } = (await token.json()).data;
+    const asWriter = { token: secret };
+
+    const since = new Date().toISOString();
+    const created = await send("POST", "/v1/todos", { title: "Mow the lawn" }, asWriter);
+    const { uuid } = (await created.json()).data;
+    const update = await send("PATCH", `/v1/todos/${uuid}`, { title: "Mow the lawns" }, asWriter);
+
+    const undoCreate = await send(
+      "POST",
+      `/v1/operations/${created.headers.get("Operation-Id")}/undo`,
+      undefined,
+      asWriter
+    );
+    expect(undoCreate.status).toBe(403);
+    const undoAll = await send("POST", "/v1/operations/undo", { since }, asWriter);
+    expect(undoAll.status).toBe(403);
+    expect(queries.getTodoByUuid(uuid)?.title).toBe("Mow the lawns");
+
+    // Undoing an update trashes nothing
+    const undoUpdate = await send(
+      "POST",
+      `/v1/operations/${update.headers.get("Operation-Id")}/undo`,
+      undefined,
+      asWriter
+    );
+    expect(undoUpdate.status).toBe(200);
+    expect(queries.getTodoByUuid(uuid)?.title).toBe("Mow the lawn");
+  });
+});
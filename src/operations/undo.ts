@@ -0,0 +1,120 @@
+import { getBackend } from "../backend";
+import { getTodoByUuid, getProjectSummary } from "../db/queries";
+import { getUndoTargets, markOperationUndone } from "./journal";
+import type { UndoTarget } from "../types";
+
+// ─── Capture ───
+
+/** Turns a write's response body into the undo targets it recorded */
+export type UndoCapture = (responseBody: string) => UndoTarget[] | null;
+
+/** The capture for writes that can't be undone */
+export const NOTHING_TO_UNDO: UndoCapture = () => null;
+
+/** The JSON `data` of a response body, if it has one */
+function responseData(body: string): Record<string, unknown> | null {
+  try {
+    const data = JSON.parse(body).data;
+    return data && typeof data === "object" ? data : null;
+  } catch {
+    return null;
+  }
+}
+
+function createdUuid(body: string): string | null {
+  const uuid = responseData(body)?.uuid;
+  return typeof uuid === "string" ? uuid : null;
+}
+
+/** Before-snapshots of every to-do a batch names, and the creates it holds */
+function captureBatch(body: string): UndoCapture {
+  let operations: unknown[] = [];
+  try {
+    const parsed = JSON.parse(body);
+    if (Array.isArray(parsed?.operations)) operations = parsed.operations;
+  } catch {
+    // The route rejects it; nothing to capture
+  }
+
+  // Each to-do as it was before the whole batch, however often it's named
+  const snapshots = new Map<string, UndoTarget>();
+  for (const op of operations) {
+    const uuid = (op as { uuid?: unknown } | null)?.uuid;
+    if (typeof uuid !== "string" || snapshots.has(uuid)) continue;
+    const before = getTodoByUuid(uuid);
+    if (before) snapshots.set(uuid, { kind: "to-do", uuid, before });
+  }
+
+  return (responseBody) => {
+    const results = responseData(responseBody)?.results;
+    const targets = [...snapshots.values()];
+    if (!Array.isArray(results)) return targets;
+    operations.forEach((op, i) => {
+      const result = results[i] as { status?: string; uuid?: string } | undefined;
+      if ((op as { op?: unknown } | null)?.op === "create" && result?.uuid) {
+        targets.push({ kind: "to-do", uuid: result.uuid, before: null });
+      }
+    });
+    return targets;
+  };
+}
+
+/**
+ * Snapshot what a write is about to change, before it runs. The returned
+ * capture lists the undo targets once the write's response is in — null for
+ * writes that can't be undone (areas, tags). Call it once per write: the
+ * audit log and the operation journal share the capture.
+ */
+export function captureUndo(method: string, pathname: string, body: string): UndoCapture {
+  if (pathname === "/v1/batch") return captureBatch(body);
+
+  if (pathname === "/v1/todos" && method === "POST") {
+    return (responseBody) => {
+      const uuid = createdUuid(responseBody);
+      return uuid ? [{ kind: "to-do", uuid, before: null }] : null;
+    };
+  }
+  if (pathname === "/v1/projects" && method === "POST") {
+    return (responseBody) => {
+      const uuid = createdUuid(responseBody);
+      return uuid ? [{ kind: "project", uuid, before: null }] : null;
+    };
+  }
+
+  const [, resource, uuid] = pathname.split("/").slice(1);
+  if (uuid && resource === "todos") {
+    const before = getTodoByUuid(uuid);
+    return () => (before ? [{ kind: "to-do", uuid, before }] : null);
+  }
+  if (uuid && resource === "projects") {
+    const before = getProjectSummary(uuid);
+    return () => (before ? [{ kind: "project", uuid, before }] : null);
+  }
+  return NOTHING_TO_UNDO;
+}
+
+// ─── Undo ───
+
+/**
+ * Revert an operation: put every to-do and project it touched back the way
+ * it was, newest change first, and trash whatever it created. Later changes
+ * to the same items are overwritten. Throws if the operation isn't
+ * undoable; if a step fails, the operation stays undoable so it can be
+ * retried.
+ */
+export async function undoOperation(id: string): Promise<void> {
+  const targets = getUndoTargets(id);
+  if (!targets) throw new Error(`Operation can't be undone: ${id}`);
+
+  const backend = getBackend();
+  for (const target of [...targets].reverse()) {
+    if (target.kind === "to-do") {
+      if (target.before) await backend.restoreTodo(target.uuid, target.before);
+      else await backend.deleteTodo(target.uuid);
+    } else {
+      if (target.before) await backend.restoreProject(target.uuid, target.before);
+      else await backend.deleteProject(target.uuid);
+    }
+  }
+  markOperationUndone(id);
+}
@@ -0,0 +1,195 @@
+import type { Database, SQLQueryBindings } from "bun:sqlite";
+import type { Page, PageRequest, SortKey } from "./types";
+
+// ─── Limits ───
+
+export const DEFAULT_LIMIT = 100;
+export const MAX_LIMIT = 500;
+
+// ─── Cursors ───
+
+/**
+ * Cursors are opaque to clients: a base64url-encoded sort key — where the
+ * last page ended in the collection's ordering, not how many rows came
+ * before. Rows inserted or removed between requests then can't shift the
+ * next page, so nothing is skipped or repeated.
+ */
+export function encodeCursor(after: SortKey, upTo?: number): string {
+  return Buffer.from(JSON.stringify(upTo === undefined ? { after } : { after, upTo })).toString(
+    "base64url"
+  );
+}
+
+/** Decode a cursor back to a position; null if it isn't one of ours */
+export function decodeCursor(cursor: string): Pick<PageRequest, "after" | "upTo"> | null {
+  try {
+    const { after, upTo } = JSON.parse(Buffer.from(cursor, "base64url").toString());
+    const isKey =
+      Array.isArray(after) &&
+      after.length > 0 &&
+      after.every((value) => value === null || ["string", "number"].includes(typeof value));
+    if (!isKey) return null;
+    if (upTo !== undefined && !(Number.isInteger(upTo) && upTo >= 0)) return null;
+    return upTo === undefined ? { after } : { after, upTo };
+  } catch {
+    return null;
+  }
+}
+
+// ─── Sort Keys ───
+
+/** SQLite's ordering: NULL, then numbers, then text */
+function compareValues(a: SortKey[number], b: SortKey[number]): number {
+  if (a === b) return 0;
+  if (a === null) return -1;
+  if (b === null) return 1;
+  if (typeof a !== typeof b) return typeof a === "number" ? -1 : 1;
+  return a < b ? -1 : 1;
+}
+
+/** Compare sort keys value by value, ascending */
+export function compareKeys(a: SortKey, b: SortKey): number {
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    const order = compareValues(a[i] ?? null, b[i] ?? null);
+    if (order !== 0) return order;
+  }
+  return 0;
+}
+
+// ─── Pages ───
+
+/**
+ * Wrap one page of results. `rows` may hold one more than the page — that
+ * extra row only says there's a next page; the cursor is the last row kept.
+ */
+function pageOf<T>(
+  rows: T[],
+  total: number,
+  page: PageRequest | undefined,
+  keyOf: (row: T) => SortKey
+): Page<T> {
+  if (!page || rows.length <= page.limit) return { items: rows, total, nextCursor: null };
+  const items = rows.slice(0, page.limit);
+  return {
+    items,
+    total,
+    nextCursor: encodeCursor(keyOf(items[items.length - 1]), page.upTo),
+  };
+}
+
+/**
+ * Page through a collection that's already in memory. `all` must be sorted
+ * ascending by `keyOf` (negate numbers to sort them descending).
+ */
+export function slicePage<T>(
+  all: T[],
+  page: PageRequest | undefined,
+  keyOf: (item: T) => SortKey
+): Page<T> {
+  if (!page) return pageOf(all, all.length, page, keyOf);
+  const after = page.after;
+  const start = after === null ? 0 : all.findIndex((item) => compareKeys(keyOf(item), after) > 0);
+  const rows = start === -1 ? [] : all.slice(start, start + page.limit + 1);
+  return pageOf(rows, all.length, page, keyOf);
+}
+
+/** A column of a paged query's ORDER BY, named as the select outputs it */
+export interface SortColumn {
+  column: string;
+  desc?: boolean;
+}
+
+/**
+ * Rows that sort after `key`, as a WHERE condition. Spelled out column by
+ * column rather than as a row-value comparison, so columns can mix ASC and
+ * DESC — and NULLs, which SQLite sorts first, compare as it orders them.
+ */
+function keysetCondition(
+  order: SortColumn[],
+  key: SortKey
+): { sql: string; params: SQLQueryBindings[] } {
+  const clauses: string[] = [];
+  const params: SQLQueryBindings[] = [];
+  order.forEach(({ column, desc }, i) => {
+    const parts: string[] = [];
+    for (let j = 0; j < i; j++) {
+      parts.push(`"${order[j].column}" IS ?`);
+      params.push(key[j] ?? null);
+    }
+    const value = key[i] ?? null;
+    if (value === null) {
+      parts.push(desc ? "0" : `"${column}" IS NOT NULL`);
+    } else {
+      parts.push(desc ? `("${column}" < ? OR "${column}" IS NULL)` : `"${column}" > ?`);
+      params.push(value);
+    }
+    clauses.push(`(${parts.join(" AND ")})`);
+  });
+  return { sql: clauses.join(" OR "), params };
+}
+
+/**
+ * Run `select` one page at a time, ordered by `order` — which must end in a
+ * unique column for cursors to be stable. The total is counted in SQL so
+ * only the rows on the page come back.
+ */
+export function queryPage<R>(
+  db: Database,
+  select: string,
+  order: SortColumn[],
+  params: SQLQueryBindings[],
+  page?: PageRequest
+): Page<R> {
+  const orderBy = order
+    .map(({ column, desc }) => `"${column}" ${desc ? "DESC" : "ASC"}`)
+    .join(", ");
+  const keyOf = (row: R) =>
+    order.map(({ column }) => (row as Record<string, SortKey[number]>)[column] ?? null);
+
+  if (!page) {
+    const rows = db
+      .query<R, SQLQueryBindings[]>(`SELECT * FROM (${select}) ORDER BY ${orderBy}`)
+      .all(...params);
+    return pageOf(rows, rows.length, page, keyOf);
+  }
+
+  const total =
+    db
+      .query<{ total: number }, SQLQueryBindings[]>(`SELECT COUNT(*) AS total FROM (${select})`)
+      .get(...params)?.total ?? 0;
+  const after = page.after ? keysetCondition(order, page.after) : { sql: "1", params: [] };
+  // One row past the page says whether there's another
+  const rows = db
+    .query<R, SQLQueryBindings[]>(
+      `SELECT * FROM (${select}) WHERE ${after.sql} ORDER BY ${orderBy} LIMIT ?`
+    )
+    .all(...params, ...after.params, page.limit + 1);
+  return pageOf(rows, total, page, keyOf);
+}
+
+/**
+ * Read `limit` and `cursor` from the query string.
+ * Returns a 400 response if either is malformed.
+ */
+export function parsePageParams(url: URL): PageRequest | Response {
+  const limitParam = url.searchParams.get("limit");
+  const cursorParam = url.searchParams.get("cursor");
+
+  const limit = limitParam === null ? DEFAULT_LIMIT : Number(limitParam);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    return Response.json(
+      { ok: false, error: `limit must be an integer between 1 and ${MAX_LIMIT}` },
+      { status: 400 }
+    );
+  }
+
+  const position = cursorParam === null ? { after: null } : decodeCursor(cursorParam);
+  if (position === null) {
+    return Response.json(
+      { ok: false, error: "Invalid cursor" },
+      { status: 400 }
+    );
+  }
+
+  return { limit, ...position };
+}
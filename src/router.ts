@@ -0,0 +1,823 @@
+import { requireAuth, PUBLIC_PATHS } from "./middleware/auth";
+import { withRateLimit } from "./middleware/ratelimit";
+import { runAsToken } from "./auth/context";
+import { withResponseCache } from "./middleware/cache";
+import { withIdempotency } from "./middleware/idempotency";
+import { withOperationJournal } from "./middleware/operations";
+import { withAuditLog } from "./middleware/audit";
+import { handleHealth, handleCapabilities } from "./routes/health";
+import {
+  handleGetTodos,
+  handleGetTodo,
+  handleCreateTodo,
+  handleUpdateTodo,
+  handleCompleteTodo,
+  handleCancelTodo,
+  handleMoveTodo,
+  handleDeleteTodo,
+} from "./routes/todos";
+import {
+  handleGetChecklist,
+  handleAddChecklistItem,
+  handleUpdateChecklistItem,
+  handleCompleteChecklistItem,
+  handleDeleteChecklistItem,
+} from "./routes/checklist";
+import {
+  handleGetProjects,
+  handleGetProject,
+  handleCreateProject,
+  handleCompleteProject,
+} from "./routes/projects";
+import {
+  handleGetTags,
+  handleGetTag,
+  handleGetTodosByTag,
+  handleCreateTag,
+  handleUpdateTag,
+  handleDeleteTag,
+} from "./routes/tags";
+import {
+  handleGetAreas,
+  handleGetArea,
+  handleCreateArea,
+  handleUpdateArea,
+  handleDeleteArea,
+} from "./routes/areas";
+import { handleBatch } from "./routes/batch";
+import { handleSearch } from "./routes/search";
+import { handleGetChanges } from "./routes/changes";
+import { handleEvents } from "./routes/events";
+import {
+  handleGetWebhooks,
+  handleGetWebhook,
+  handleCreateWebhook,
+  handleUpdateWebhook,
+  handleDeleteWebhook,
+  handleGetWebhookDeliveries,
+  handlePingWebhook,
+} from "./routes/webhooks";
+import {
+  handleGetTokens,
+  handleGetToken,
+  handleCreateToken,
+  handleDeleteToken,
+} from "./routes/tokens";
+import {
+  handleGetOperations,
+  handleGetOperation,
+  handleCancelOperation,
+  handleUndoOperation,
+  handleUndoOperations,
+} from "./routes/operations";
+import { handleGetAudit } from "./routes/audit";
+import { handleOpenApi, handleDocs } from "./routes/openapi";
+import { queryParam, type RouteDoc, type QueryParam } from "./openapi/spec";
+import { ref } from "./openapi/schemas";
+import { THINGS_LISTS } from "./db/filters";
+
+// ─── URL Pattern Helpers ───
+
+function matchRoute(
+  pathname: string,
+  pattern: string
+): Record<string, string> | null {
+  // Simple pattern matching: "/v1/todos/:uuid" matches "/v1/todos/abc123"
+  const patternParts = pattern.split("/");
+  const pathParts = pathname.split("/");
+
+  if (patternParts.length !== pathParts.length) return null;
+
+  const params: Record<string, string> = {};
+
+  for (let i = 0; i < patternParts.length; i++) {
+    if (patternParts[i].startsWith(":")) {
+      params[patternParts[i].slice(1)] = pathParts[i];
+    } else if (patternParts[i] !== pathParts[i]) {
+      return null;
+    }
+  }
+
+  return params;
+}
+
+// ─── Route Table ───
+
+// The router and /v1/openapi.json both read this table, so the published
+// spec can't drift from what's served. Routes are tried in order: literal
+// paths come before the `:param` paths they'd otherwise match.
+
+interface Route {
+  method: "GET" | "POST" | "PATCH" | "DELETE";
+  path: string;
+  handler: (
+    request: Request,
+    url: URL,
+    params: Record<string, string>
+  ) => Response | Promise<Response>;
+  doc: RouteDoc;
+}
+
+const list = (items: Record<string, unknown>) => ({ type: "array", items });
+const message = ref("Message");
+const date = { type: "string", format: "date" };
+const boolean = { type: "string", enum: ["true", "false"] };
+const integer = { type: "integer" };
+
+/** How every checklist write answers when Things is slow to apply it */
+const CHECKLIST_WRITE =
+  "Item UUIDs change on every write, so use the ones returned. `202` with only the to-do's `{ uuid }` and a `Location` if Things hasn't applied the change within 3 seconds.";
+
+/** A Message with more fields alongside */
+const messageWith = (properties: Record<string, unknown>) => ({
+  allOf: [message, { type: "object", properties }],
+});
+
+const TODO_FILTERS: QueryParam[] = [
+  queryParam(
+    "list",
+    { type: "string", enum: THINGS_LISTS, default: "today" },
+    "Built-in list; combined with filters it acts as inList"
+  ),
+  queryParam("tags", { type: "string" }, "Comma-separated tag titles"),
+  queryParam(
+    "tagMatch",
+    { type: "string", enum: ["any", "all"], default: "any" },
+    "Whether to-dos need any or all of `tags`"
+  ),
+  queryParam("area", { type: "string" }, "Area title or UUID (includes its projects' to-dos)"),
+  queryParam(
+    "project",
+    { type: "string" },
+    "Project title or UUID (includes to-dos under its headings)"
+  ),
+  queryParam(
+    "status",
+    { type: "string" },
+    "Comma-separated: incomplete, completed, canceled (default incomplete)"
+  ),
+  queryParam("deadlineBefore", date, "Deadline on or before"),
+  queryParam("deadlineAfter", date, "Deadline on or after"),
+  queryParam("startFrom", date, "Start date on or after"),
+  queryParam("startTo", date, "Start date on or before"),
+  queryParam("modifiedSince", { type: "string" }, "ISO 8601 date or date-time"),
+  queryParam("hasDeadline", boolean, "Only to-dos with (or without) a deadline"),
+  queryParam("repeating", boolean, "Only repeating (or one-off) to-dos"),
+  queryParam("inList", { type: "string", enum: THINGS_LISTS }, "Only to-dos in this built-in list"),
+];
+
+export const ROUTES: Route[] = [
+  // ─── Health & Discovery ───
+  {
+    method: "GET",
+    path: "/health",
+    handler: () => handleHealth(),
+    doc: {
+      summary: "Service health",
+      tag: "Discovery",
+      description:
+        "Database, write queue, offline queue and TLS status. Not wrapped in the envelope.",
+      response: {
+        type: "object",
+        required: ["ok", "service", "version"],
+        properties: {
+          ok: { type: "boolean" },
+          service: { type: "string" },
+          version: { type: "string" },
+        },
+      },
+    },
+  },
+  {
+    method: "GET",
+    path: "/v1/capabilities",
+    handler: () => handleCapabilities(),
+    doc: {
+      summary: "What this bridge can do",
+      tag: "Discovery",
+      data: {
+        type: "object",
+        properties: {
+          capabilities: list({
+            type: "object",
+            properties: {
+              name: { type: "string" },
+              description: { type: "string" },
+              operations: list({ type: "string" }),
+            },
+          }),
+        },
+      },
+    },
+  },
+  {
+    method: "GET",
+    path: "/v1/openapi.json",
+    handler: (_request, url) => handleOpenApi(url, ROUTES),
+    doc: { summary: "This OpenAPI document", tag: "Discovery", response: { type: "object" } },
+  },
+  {
+    method: "GET",
+    path: "/v1/docs",
+    handler: (_request, url) => handleDocs(url, ROUTES),
+    doc: { summary: "API documentation page", tag: "Discovery", contentType: "text/html" },
+  },
+
+  // ─── Search ───
+  {
+    method: "GET",
+    path: "/v1/search",
+    handler: (_request, url) => handleSearch(url),
+    doc: {
+      summary: "Ranked search across to-dos, checklist items, projects and areas",
+      tag: "Search",
+      query: [
+        queryParam("q", { type: "string" }, "Search terms", true),
+        queryParam("kind", { type: "string" }, "Comma-separated: to-do, project, area"),
+      ],
+      data: list(ref("SearchHit")),
+      paged: true,
+    },
+  },
+
+  // ─── Delta Sync & Events ───
+  {
+    method: "GET",
+    path: "/v1/changes",
+    handler: (_request, url) => handleGetChanges(url),
+    doc: {
+      summary: "Everything that changed since a sync token or timestamp",
+      tag: "Sync",
+      description:
+        "The response's `syncToken` is the `since` for next time. `410` once a token is older " +
+        "than the change log keeps: sync again without `since`.",
+      query: [queryParam("since", { type: "string" }, "Sync token or ISO 8601 timestamp")],
+      data: list(ref("Change")),
+      paged: true,
+    },
+  },
+  {
+    method: "GET",
+    path: "/v1/events",
+    handler: (request, url) => handleEvents(request, url),
+    doc: {
+      summary: "Server-Sent Events stream of changes",
+      tag: "Sync",
+      description:
+        "Each event's data is a BridgeEvent. Reconnect with `Last-Event-ID` (or `since`) " +
+        "to replay what was missed; `410` if that's pruned or over 1,000 changes behind.",
+      query: [queryParam("since", { type: "string" }, "Sync token to resume after")],
+      contentType: "text/event-stream",
+      response: ref("BridgeEvent"),
+    },
+  },
+
+  // ─── To-Dos ───
+  {
+    method: "GET",
+    path: "/v1/todos/search",
+    handler: (_request, url) => handleGetTodos(url),
+    doc: {
+      summary: "Search to-do titles and notes",
+      tag: "To-Dos",
+      query: [queryParam("q", { type: "string" }, "Search terms", true)],
+      data: list(ref("Todo")),
+      paged: true,
+    },
+  },
+  {
+    method: "GET",
+    path: "/v1/todos",
+    handler: (_request, url) => handleGetTodos(url),
+    doc: {
+      summary: "To-dos in a list, or matching filters",
+      tag: "To-Dos",
+      query: TODO_FILTERS,
+      data: list(ref("Todo")),
+      paged: true,
+    },
+  },
+  {
+    method: "POST",
+    path: "/v1/todos",
+    handler: (request) => handleCreateTodo(request),
+    doc: {
+      summary: "Create a to-do",
+      tag: "To-Dos",
+      description:
+        "`202` with only `{ uuid }` and a `Location` if Things hasn't saved the to-do within a second.",
+      body: "CreateTodoRequest",
+      data: ref("Todo"),
+      status: 201,
+    },
+  },
+  {
+    method: "POST",
+    path: "/v1/batch",
+    handler: (request) => handleBatch(request),
+    doc: {
+      summary: "Run many to-do operations in one request",
+      tag: "To-Dos",
+      body: "BatchRequest",
+      data: ref("BatchSummary"),
+    },
+  },
+  {
+    method: "POST",
+    path: "/v1/todos/:uuid/complete",
+    handler: (_request, _url, params) => handleCompleteTodo(params.uuid),
+    doc: { summary: "Complete a to-do", tag: "To-Dos", data: message },
+  },
+  {
+    method: "POST",
+    path: "/v1/todos/:uuid/cancel",
+    handler: (_request, _url, params) => handleCancelTodo(params.uuid),
+    doc: { summary: "Cancel a to-do", tag: "To-Dos", data: message },
+  },
+  {
+    method: "POST",
+    path: "/v1/todos/:uuid/move",
+    handler: (request, _url, params) => handleMoveTodo(params.uuid, request),
+    doc: {
+      summary: "Move a to-do to a list or project",
+      tag: "To-Dos",
+      body: "MoveTodoRequest",
+      data: message,
+    },
+  },
+
+  // Checklist items
+  {
+    method: "POST",
+    path: "/v1/todos/:uuid/checklist/:itemUuid/complete",
+    handler: (_request, _url, params) => handleCompleteChecklistItem(params.uuid, params.itemUuid),
+    doc: {
+      summary: "Complete a checklist item",
+      tag: "Checklists",
+      description: CHECKLIST_WRITE,
+      data: list(ref("ChecklistItem")),
+    },
+  },
+  {
+    method: "PATCH",
+    path: "/v1/todos/:uuid/checklist/:itemUuid",
+    handler: (request, _url, params) =>
+      handleUpdateChecklistItem(params.uuid, params.itemUuid, request),
+    doc: {
+      summary: "Rename, reorder or set the status of a checklist item",
+      tag: "Checklists",
+      description: CHECKLIST_WRITE,
+      body: "UpdateChecklistItemRequest",
+      data: list(ref("ChecklistItem")),
+    },
+  },
+  {
+    method: "DELETE",
+    path: "/v1/todos/:uuid/checklist/:itemUuid",
+    handler: (_request, _url, params) => handleDeleteChecklistItem(params.uuid, params.itemUuid),
+    doc: {
+      summary: "Remove a checklist item",
+      tag: "Checklists",
+      description: CHECKLIST_WRITE,
+      data: list(ref("ChecklistItem")),
+    },
+  },
+  {
+    method: "GET",
+    path: "/v1/todos/:uuid/checklist",
+    handler: (_request, _url, params) => handleGetChecklist(params.uuid),
+    doc: { summary: "A to-do's checklist", tag: "Checklists", data: list(ref("ChecklistItem")) },
+  },
+  {
+    method: "POST",
+    path: "/v1/todos/:uuid/checklist",
+    handler: (request, _url, params) => handleAddChecklistItem(params.uuid, request),
+    doc: {
+      summary: "Add a checklist item",
+      tag: "Checklists",
+      description: CHECKLIST_WRITE,
+      body: "CreateChecklistItemRequest",
+      data: list(ref("ChecklistItem")),
+      status: 201,
+    },
+  },
+
+  {
+    method: "GET",
+    path: "/v1/todos/:uuid",
+    handler: (_request, _url, params) => handleGetTodo(params.uuid),
+    doc: { summary: "Get a to-do", tag: "To-Dos", data: ref("Todo") },
+  },
+  {
+    method: "PATCH",
+    path: "/v1/todos/:uuid",
+    handler: (request, _url, params) => handleUpdateTodo(params.uuid, request),
+    doc: { summary: "Update a to-do", tag: "To-Dos", body: "UpdateTodoRequest", data: message },
+  },
+  {
+    method: "DELETE",
+    path: "/v1/todos/:uuid",
+    handler: (_request, _url, params) => handleDeleteTodo(params.uuid),
+    doc: { summary: "Move a to-do to the Trash", tag: "To-Dos", data: message },
+  },
+
+  // ─── Projects ───
+  {
+    method: "GET",
+    path: "/v1/projects",
+    handler: (_request, url) => handleGetProjects(url),
+    doc: { summary: "Open projects", tag: "Projects", data: list(ref("Project")), paged: true },
+  },
+  {
+    method: "POST",
+    path: "/v1/projects",
+    handler: (request) => handleCreateProject(request),
+    doc: {
+      summary: "Create a project",
+      tag: "Projects",
+      description:
+        "`202` with only `{ uuid }` and a `Location` if Things hasn't saved the project within a second.",
+      body: "CreateProjectRequest",
+      data: ref("Project"),
+      status: 201,
+    },
+  },
+  {
+    method: "POST",
+    path: "/v1/projects/:uuid/complete",
+    handler: (_request, _url, params) => handleCompleteProject(params.uuid),
+    doc: { summary: "Complete a project", tag: "Projects", data: message },
+  },
+  {
+    method: "GET",
+    path: "/v1/projects/:uuid",
+    handler: (_request, _url, params) => handleGetProject(params.uuid),
+    doc: {
+      summary: "A project with its headings and to-dos",
+      tag: "Projects",
+      data: ref("ProjectDetail"),
+    },
+  },
+
+  // ─── Tags & Areas ───
+  {
+    method: "GET",
+    path: "/v1/tags",
+    handler: (_request, url) => handleGetTags(url),
+    doc: {
+      summary: "All tags, or the tag tree",
+      tag: "Tags",
+      description: "With `tree=true`, `data` is TagNode[] and isn't paged.",
+      query: [queryParam("tree", boolean, "Nest tags under their parents")],
+      data: { anyOf: [list(ref("Tag")), list(ref("TagNode"))] },
+      paged: true,
+    },
+  },
+  {
+    method: "POST",
+    path: "/v1/tags",
+    handler: (request) => handleCreateTag(request),
+    doc: {
+      summary: "Create a tag",
+      tag: "Tags",
+      description:
+        "`202` with only `{ uuid }` and a `Location` if Things hasn't saved the tag within a second.",
+      body: "CreateTagRequest",
+      data: ref("Tag"),
+      status: 201,
+    },
+  },
+  {
+    method: "GET",
+    path: "/v1/areas",
+    handler: (_request, url) => handleGetAreas(url),
+    doc: { summary: "All areas", tag: "Areas", data: list(ref("Area")), paged: true },
+  },
+  {
+    method: "POST",
+    path: "/v1/areas",
+    handler: (request) => handleCreateArea(request),
+    doc: {
+      summary: "Create an area",
+      tag: "Areas",
+      description:
+        "`202` with only `{ uuid }` and a `Location` if Things hasn't saved the area within a second.",
+      body: "CreateAreaRequest",
+      data: ref("Area"),
+      status: 201,
+    },
+  },
+  {
+    method: "GET",
+    path: "/v1/areas/:uuid",
+    handler: (_request, _url, params) => handleGetArea(params.uuid),
+    doc: {
+      summary: "An area with its open projects and to-dos",
+      tag: "Areas",
+      data: ref("AreaDetail"),
+    },
+  },
+  {
+    method: "PATCH",
+    path: "/v1/areas/:uuid",
+    handler: (request, _url, params) => handleUpdateArea(params.uuid, request),
+    doc: {
+      summary: "Rename or retag an area",
+      tag: "Areas",
+      body: "UpdateAreaRequest",
+      data: ref("Area"),
+    },
+  },
+  {
+    method: "DELETE",
+    path: "/v1/areas/:uuid",
+    handler: (_request, _url, params) => handleDeleteArea(params.uuid),
+    doc: {
+      summary: "Delete an area",
+      tag: "Areas",
+      description: "Its projects and to-dos go to the Trash.",
+      data: messageWith({ trashedProjects: integer, trashedTodos: integer }),
+    },
+  },
+  {
+    method: "GET",
+    path: "/v1/tags/:name/todos",
+    handler: (_request, url, params) => handleGetTodosByTag(params.name, url),
+    doc: {
+      summary: "Open to-dos with a tag",
+      tag: "Tags",
+      query: [queryParam("descendants", boolean, "Include the tag's child tags")],
+      data: list(ref("Todo")),
+      paged: true,
+    },
+  },
+  {
+    method: "GET",
+    path: "/v1/tags/:name",
+    handler: (_request, _url, params) => handleGetTag(params.name),
+    doc: { summary: "A tag, by title", tag: "Tags", data: ref("Tag") },
+  },
+  {
+    method: "PATCH",
+    path: "/v1/tags/:name",
+    handler: (request, _url, params) => handleUpdateTag(params.name, request),
+    doc: {
+      summary: "Rename, re-parent or change a tag's shortcut",
+      tag: "Tags",
+      body: "UpdateTagRequest",
+      data: ref("Tag"),
+    },
+  },
+  {
+    method: "DELETE",
+    path: "/v1/tags/:name",
+    handler: (_request, _url, params) => handleDeleteTag(params.name),
+    doc: {
+      summary: "Delete a tag and its child tags",
+      tag: "Tags",
+      data: messageWith({ deletedTags: list({ type: "string" }) }),
+    },
+  },
+
+  // ─── Webhooks ───
+  {
+    method: "GET",
+    path: "/v1/webhooks",
+    handler: (_request, url) => handleGetWebhooks(url),
+    doc: {
+      summary: "Registered webhooks",
+      tag: "Webhooks",
+      data: list(ref("Webhook")),
+      paged: true,
+    },
+  },
+  {
+    method: "POST",
+    path: "/v1/webhooks",
+    handler: (request) => handleCreateWebhook(request),
+    doc: {
+      summary: "Register a webhook",
+      tag: "Webhooks",
+      description: "The response is the only one that includes the signing `secret`.",
+      body: "CreateWebhookRequest",
+      data: ref("Webhook"),
+      status: 201,
+    },
+  },
+  {
+    method: "GET",
+    path: "/v1/webhooks/:id/deliveries",
+    handler: (_request, url, params) => handleGetWebhookDeliveries(params.id, url),
+    doc: {
+      summary: "A webhook's recent deliveries",
+      tag: "Webhooks",
+      data: list(ref("WebhookDelivery")),
+      paged: true,
+    },
+  },
+  {
+    method: "POST",
+    path: "/v1/webhooks/:id/ping",
+    handler: (_request, _url, params) => handlePingWebhook(params.id),
+    doc: {
+      summary: "Queue a test delivery",
+      tag: "Webhooks",
+      data: messageWith({ deliveryId: integer }),
+      status: 202,
+    },
+  },
+  {
+    method: "GET",
+    path: "/v1/webhooks/:id",
+    handler: (_request, _url, params) => handleGetWebhook(params.id),
+    doc: { summary: "Get a webhook", tag: "Webhooks", data: ref("Webhook") },
+  },
+  {
+    method: "PATCH",
+    path: "/v1/webhooks/:id",
+    handler: (request, _url, params) => handleUpdateWebhook(params.id, request),
+    doc: {
+      summary: "Update or pause a webhook",
+      tag: "Webhooks",
+      body: "UpdateWebhookRequest",
+      data: ref("Webhook"),
+    },
+  },
+  {
+    method: "DELETE",
+    path: "/v1/webhooks/:id",
+    handler: (_request, _url, params) => handleDeleteWebhook(params.id),
+    doc: { summary: "Delete a webhook", tag: "Webhooks", data: message },
+  },
+
+  // ─── Tokens ───
+  {
+    method: "GET",
+    path: "/v1/tokens",
+    handler: (_request, url) => handleGetTokens(url),
+    doc: { summary: "API tokens", tag: "Tokens", data: list(ref("ApiToken")), paged: true },
+  },
+  {
+    method: "POST",
+    path: "/v1/tokens",
+    handler: (request) => handleCreateToken(request),
+    doc: {
+      summary: "Create a token",
+      tag: "Tokens",
+      description: "The response is the only one that includes the `secret`.",
+      body: "CreateTokenRequest",
+      data: ref("ApiToken"),
+      status: 201,
+    },
+  },
+  {
+    method: "GET",
+    path: "/v1/tokens/:id",
+    handler: (_request, _url, params) => handleGetToken(params.id),
+    doc: { summary: "Get a token", tag: "Tokens", data: ref("ApiToken") },
+  },
+  {
+    method: "DELETE",
+    path: "/v1/tokens/:id",
+    handler: (_request, _url, params) => handleDeleteToken(params.id),
+    doc: { summary: "Revoke a token", tag: "Tokens", data: message },
+  },
+
+  // ─── Operations ───
+  {
+    method: "GET",
+    path: "/v1/operations",
+    handler: (_request, url) => handleGetOperations(url),
+    doc: {
+      summary: "Journaled writes, oldest first",
+      tag: "Operations",
+      query: [
+        queryParam(
+          "status",
+          { type: "string", enum: ["pending", "succeeded", "failed", "canceled"] },
+          "Only operations with this status"
+        ),
+      ],
+      data: list(ref("Operation")),
+      paged: true,
+    },
+  },
+  {
+    method: "POST",
+    path: "/v1/operations/undo",
+    handler: (request) => handleUndoOperations(request),
+    doc: {
+      summary: "Undo every undoable operation since a time, newest first",
+      tag: "Operations",
+      description: "Also needs the `delete` scope if any of them created something.",
+      body: "UndoOperationsRequest",
+      data: list(ref("Operation")),
+    },
+  },
+  {
+    method: "POST",
+    path: "/v1/operations/:id/undo",
+    handler: (_request, _url, params) => handleUndoOperation(params.id),
+    doc: {
+      summary: "Undo an operation",
+      tag: "Operations",
+      description: "Also needs the `delete` scope if the operation created something.",
+      data: ref("Operation"),
+    },
+  },
+  {
+    method: "GET",
+    path: "/v1/operations/:id",
+    handler: (_request, _url, params) => handleGetOperation(params.id),
+    doc: { summary: "Get an operation", tag: "Operations", data: ref("Operation") },
+  },
+  {
+    method: "DELETE",
+    path: "/v1/operations/:id",
+    handler: (_request, _url, params) => handleCancelOperation(params.id),
+    doc: { summary: "Cancel a pending operation", tag: "Operations", data: ref("Operation") },
+  },
+
+  // ─── Audit ───
+  {
+    method: "GET",
+    path: "/v1/audit",
+    handler: (_request, url) => handleGetAudit(url),
+    doc: {
+      summary: "Every write to Things, newest first",
+      tag: "Audit",
+      query: [
+        queryParam("token", { type: "string" }, "Token name"),
+        queryParam("uuid", { type: "string" }, "Entries that touched this to-do or project"),
+        queryParam("method", { type: "string" }, "HTTP method"),
+        queryParam(
+          "result",
+          { type: "string", enum: ["succeeded", "failed", "queued"] },
+          "Outcome"
+        ),
+        queryParam("since", { type: "string", format: "date-time" }, "At or after"),
+        queryParam("until", { type: "string", format: "date-time" }, "Before"),
+      ],
+      data: list(ref("AuditEntry")),
+      paged: true,
+    },
+  },
+];
+
+// ─── Request Router ───
+
+export async function handleRequest(
+  request: Request,
+  clientIp: string | null = null
+): Promise<Response> {
+  // Auth check (skips /health); everything after runs as the token
+  const token = requireAuth(request, clientIp);
+  if (token instanceof Response) return token;
+
+  const url = new URL(request.url);
+  const dispatch = (): Promise<Response> => {
+    if (request.method === "GET") {
+      return withResponseCache(request, url, () => routeRequest(request, url));
+    }
+    const route = () =>
+      withAuditLog(request, url, clientIp, (capture) =>
+        withOperationJournal(request, url, capture, () => routeRequest(request, url))
+      );
+    if (request.method === "POST") {
+      return withIdempotency(request, url, route);
+    }
+    return route();
+  };
+  return runAsToken(token, () =>
+    PUBLIC_PATHS.includes(url.pathname) ? dispatch() : withRateLimit(request, token, dispatch)
+  );
+}
+
+/** Dispatch to a handler — no auth or middleware (journaled operations replay through here) */
+export async function routeRequest(request: Request, url: URL): Promise<Response> {
+  const { pathname } = url;
+  const method = request.method;
+
+  try {
+    for (const route of ROUTES) {
+      if (route.method !== method) continue;
+      const params = matchRoute(pathname, route.path);
+      if (params) return await route.handler(request, url, params);
+    }
+
+    // ─── 404 ───
+    return Response.json(
+      { ok: false, error: `Not found: ${method} ${pathname}` },
+      { status: 404 }
+    );
+  } catch (err) {
+    console.error(`[ERROR] ${method} ${pathname}:`, err);
+    return Response.json(
+      {
+        ok: false,
+        error: err instanceof Error ? err.message : "Internal server error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,81 @@
+import { describe, test, expect, afterAll, spyOn } from "bun:test";
+import { startTestBridge, stopTestBridge, send } from "../testing";
+
+// ─── Fixture ───
+
+const backend = await startTestBridge({
+  areas: [{ uuid: "area-home", title: "Home" }],
+  tags: [
+    { uuid: "tag-errand", title: "Errand" },
+    { uuid: "tag-weekend", title: "Weekend" },
+  ],
+  tasks: [
+    { uuid: "project-1", title: "Garden", type: "project", area: "area-home" },
+    { uuid: "project-todo", title: "Plant bulbs", project: "project-1" },
+    { uuid: "loose-todo", title: "Fix the gate", area: "area-home" },
+    { uuid: "elsewhere", title: "Call the bank" },
+  ],
+});
+const queries = await import("../db/queries");
+
+afterAll(stopTestBridge);
+
+// ─── Areas ───
+
+describe("areas", () => {
+  test("an area is created with its tags, renamed and retagged", async () => {
+    const created = await send("POST", "/v1/areas", { title: "Work", tags: ["Errand"] });
+    expect(created.status).toBe(201);
+    const { data: area } = await created.json();
+    expect(area).toMatchObject({ title: "Work", tags: ["Errand"] });
+
+    const renamed = await send("PATCH", `/v1/areas/${area.uuid}`, {
+      title: "Office",
+      tags: ["Weekend"],
+    });
+    expect(renamed.status).toBe(200);
+    expect((await renamed.json()).data).toMatchObject({ title: "Office", tags: ["Weekend"] });
+    expect(queries.getAreaByUuid(area.uuid)?.title).toBe("Office");
+  });
+
+  test("an area Things hasn't saved yet is answered 202 with a Location", async () => {
+    const reads = spyOn(queries, "getAreaByUuid").mockImplementation(() => null);
+    try {
+      const missing = await send("POST", "/v1/areas", { title: "Garage" });
+      expect(missing.status).toBe(202);
+      const { data } = await missing.json();
+      expect(Object.keys(data)).toEqual(["uuid"]);
+      expect(missing.headers.get("Location")).toBe(`/v1/areas/${data.uuid}`);
+    } finally {
+      reads.mockRestore();
+    }
+  });
+
+  test("deleting an area trashes its projects and to-dos, and nothing else", async () => {
+    const deleted = await send("DELETE", "/v1/areas/area-home");
+    expect(deleted.status).toBe(200);
+    expect((await deleted.json()).data).toEqual({
+      message: "Deleted area: Home",
+      trashedProjects: 1,
+      trashedTodos: 1,
+    });
+
+    expect(queries.getAreaByUuid("area-home")).toBeNull();
+    for (const uuid of ["project-1", "project-todo", "loose-todo"]) {
+      expect(queries.isTrashed(uuid)).toBe(true);
+    }
+    expect(queries.isTrashed("elsewhere")).toBe(false);
+  });
+
+  test("unknown areas are 404 and a title is required", async () => {
+    const sentBefore = backend.sent.length;
+    expect((await send("GET", "/v1/areas/no-such-area")).status).toBe(404);
+    expect((await send("PATCH", "/v1/areas/no-such-area", { title: "x" })).status).toBe(404);
+    expect((await send("DELETE", "/v1/areas/no-such-area")).status).toBe(404);
+
+    const untitled = await send("POST", "/v1/areas", { tags: ["Errand"] });
+    expect(untitled.status).toBe(400);
+    expect((await untitled.json()).error).toBe("Missing required field: title");
+    expect(backend.sent).toHaveLength(sentBefore);
+  });
+});
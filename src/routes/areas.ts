@@ -0,0 +1,123 @@
+import { getAreas, getAreaByUuid } from "../db/queries";
+import { getBackend } from "../backend";
+import { parsePageParams } from "../pagination";
+import { invalidInput, writeFailure } from "./errors";
+import { createdResponse } from "./created";
+import { AREA_FIELDS, checkFieldTypes } from "./fields";
+import type { CreateAreaRequest, UpdateAreaRequest } from "../types";
+
+/** GET /v1/areas?limit=&cursor= */
+export function handleGetAreas(url: URL): Response {
+  const page = parsePageParams(url);
+  if (page instanceof Response) return page;
+
+  const areas = getAreas(page);
+  return Response.json({
+    ok: true,
+    data: areas.items,
+    total: areas.total,
+    nextCursor: areas.nextCursor,
+  });
+}
+
+/** GET /v1/areas/:uuid */
+export function handleGetArea(uuid: string): Response {
+  const area = getAreaByUuid(uuid);
+  if (!area) {
+    return Response.json(
+      { ok: false, error: "Area not found" },
+      { status: 404 }
+    );
+  }
+  return Response.json({ ok: true, data: area });
+}
+
+/** POST /v1/areas — Create a new area */
+export async function handleCreateArea(request: Request): Promise<Response> {
+  let body: CreateAreaRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json(
+      { ok: false, error: "Invalid JSON body" },
+      { status: 400 }
+    );
+  }
+
+  const typeError = checkFieldTypes(body, AREA_FIELDS);
+  if (typeError) return invalidInput(typeError);
+
+  if (!body.title) {
+    return Response.json(
+      { ok: false, error: "Missing required field: title" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const uuid = await getBackend().createArea(body);
+    // Read the new area back so the caller gets the same shape as GET /v1/areas/:uuid
+    return await createdResponse(uuid, `/v1/areas/${uuid}`, () => getAreaByUuid(uuid));
+  } catch (err) {
+    return writeFailure("create area", err);
+  }
+}
+
+/** PATCH /v1/areas/:uuid — Rename an area or replace its tags */
+export async function handleUpdateArea(
+  uuid: string,
+  request: Request
+): Promise<Response> {
+  let body: UpdateAreaRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json(
+      { ok: false, error: "Invalid JSON body" },
+      { status: 400 }
+    );
+  }
+
+  const typeError = checkFieldTypes(body, AREA_FIELDS);
+  if (typeError) return invalidInput(typeError);
+
+  const existing = getAreaByUuid(uuid);
+  if (!existing) {
+    return Response.json(
+      { ok: false, error: "Area not found" },
+      { status: 404 }
+    );
+  }
+
+  try {
+    await getBackend().updateArea(uuid, body);
+    return Response.json({ ok: true, data: getAreaByUuid(uuid) ?? existing });
+  } catch (err) {
+    return writeFailure("update area", err);
+  }
+}
+
+/** DELETE /v1/areas/:uuid — Things moves the area's contents to the Trash */
+export async function handleDeleteArea(uuid: string): Promise<Response> {
+  const existing = getAreaByUuid(uuid);
+  if (!existing) {
+    return Response.json(
+      { ok: false, error: "Area not found" },
+      { status: 404 }
+    );
+  }
+
+  try {
+    await getBackend().deleteArea(uuid);
+    return Response.json({
+      ok: true,
+      data: {
+        message: `Deleted area: ${existing.title}`,
+        trashedProjects: existing.projects.length,
+        trashedTodos: existing.todos.length,
+      },
+    });
+  } catch (err) {
+    return writeFailure("delete area", err);
+  }
+}
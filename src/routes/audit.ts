@@ -0,0 +1,56 @@
+import { queryAudit, type AuditFilter } from "../operations/audit";
+import { parsePageParams } from "../pagination";
+import type { AuditEntry } from "../types";
+
+const AUDIT_RESULTS: AuditEntry["outcome"]["result"][] = ["succeeded", "failed", "queued"];
+
+/** Read the audit filters from the query string; returns an error message */
+function parseAuditFilter(params: URLSearchParams): AuditFilter | string {
+  const filter: AuditFilter = {};
+  for (const field of ["token", "uuid"] as const) {
+    const value = params.get(field);
+    if (value !== null) filter[field] = value;
+  }
+
+  const method = params.get("method");
+  if (method !== null) filter.method = method.toUpperCase();
+
+  const result = params.get("result");
+  if (result !== null) {
+    if (!AUDIT_RESULTS.includes(result as AuditEntry["outcome"]["result"])) {
+      return `Invalid result. Valid options: ${AUDIT_RESULTS.join(", ")}`;
+    }
+    filter.result = result as AuditEntry["outcome"]["result"];
+  }
+
+  for (const field of ["since", "until"] as const) {
+    const value = params.get(field);
+    if (value === null) continue;
+    const time = Date.parse(value);
+    if (Number.isNaN(time)) return `Invalid ${field}: expected an ISO 8601 date-time`;
+    filter[field] = time;
+  }
+  return filter;
+}
+
+/**
+ * GET /v1/audit?token=&uuid=&method=&result=&since=&until=&limit=&cursor= —
+ * Every write to Things, newest first
+ */
+export function handleGetAudit(url: URL): Response {
+  const page = parsePageParams(url);
+  if (page instanceof Response) return page;
+
+  const filter = parseAuditFilter(url.searchParams);
+  if (typeof filter === "string") {
+    return Response.json({ ok: false, error: filter }, { status: 400 });
+  }
+
+  const entries = queryAudit(filter, page);
+  return Response.json({
+    ok: true,
+    data: entries.items,
+    total: entries.total,
+    nextCursor: entries.nextCursor,
+  });
+}
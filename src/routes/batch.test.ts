@@ -0,0 +1,59 @@
+import { describe, test, expect, afterAll } from "bun:test";
+import { startTestBridge, stopTestBridge, send } from "../testing";
+import { parseBatchOutput } from "../applescript/scripts";
+
+// ─── Fixture ───
+
+const backend = await startTestBridge({
+  tasks: [
+    { uuid: "someday-1", title: "Learn piano", start: "someday" },
+    { uuid: "project-1", title: "Renovation", type: "project" },
+  ],
+});
+const queries = await import("../db/queries");
+
+afterAll(stopTestBridge);
+
+// ─── Batch ───
+
+describe("batch", () => {
+  test("operations run in one script and report their own results", async () => {
+    const rejected = await send("POST", "/v1/batch", {
+      atomic: true,
+      operations: [
+        { op: "complete", uuid: "someday-1" },
+        { op: "move", uuid: "no-such-todo", list: "today" },
+      ],
+    });
+    expect(rejected.status).toBe(400);
+    expect((await rejected.json()).data.results.map((r: { status: string }) => r.status)).toEqual([
+      "skipped",
+      "error",
+    ]);
+    expect(backend.sent).toHaveLength(0);
+
+    const response = await send("POST", "/v1/batch", {
+      operations: [
+        { op: "create", data: { title: "Get quotes", list: "Renovation" } },
+        { op: "move", uuid: "someday-1", list: "No such project" },
+        { op: "complete", uuid: "someday-1" },
+      ],
+    });
+    const { data } = await response.json();
+    expect(response.status).toBe(200);
+    expect(data.results.map((r: { status: string }) => r.status)).toEqual(["ok", "error", "ok"]);
+    expect(data.results[1].error).toBe("Project not found: No such project");
+    expect(backend.sent).toHaveLength(1);
+    expect(queries.getTodoByUuid(data.results[0].uuid)?.project).toBe("project-1");
+    expect(queries.getTodoByUuid("someday-1")?.status).toBe("completed");
+  });
+
+  test("batch script output maps back to one result per operation", () => {
+    expect(parseBatchOutput("ok\tA\nerror\tCan't get to do\nsecond line\nskipped", 3)).toEqual([
+      { status: "ok", id: "A" },
+      { status: "error", error: "Can't get to do\nsecond line" },
+      { status: "skipped" },
+    ]);
+    expect(() => parseBatchOutput("ok\tA", 2)).toThrow();
+  });
+});
@@ -0,0 +1,227 @@
+import { getTodoByUuid, findProject, findHeading } from "../db/queries";
+import { getBackend } from "../backend";
+import { BUILT_IN_LISTS, RELATIVE_WHENS } from "../applescript/scripts";
+import { toWriteError } from "../backend/errors";
+import { checkTodoPlacement } from "../auth/visibility";
+import { writeFailure } from "./errors";
+import { checkFieldTypes, isObject, TODO_CREATE_FIELDS, TODO_UPDATE_FIELDS } from "./fields";
+import type { BatchOperation, BatchOperationResult, BatchRequest } from "../types";
+
+// ─── Validation ───
+
+const BATCH_OPS: BatchOperation["op"][] = ["create", "update", "complete", "move"];
+
+/** Upper bound on operations per request, so one script stays manageable */
+const MAX_BATCH_SIZE = 100;
+
+function isDate(value: unknown): boolean {
+  return (
+    typeof value === "string" &&
+    /^\d{4}-\d{2}-\d{2}$/.test(value) &&
+    !Number.isNaN(Date.parse(value))
+  );
+}
+
+function checkWhen(when: unknown): string | null {
+  if (when === undefined) return null;
+  if (
+    typeof when === "string" &&
+    (RELATIVE_WHENS.includes(when) || BUILT_IN_LISTS[when.toLowerCase()] || isDate(when))
+  ) {
+    return null;
+  }
+  return `Invalid when: ${String(when)}. Use ${RELATIVE_WHENS.join(", ")}, or a date (YYYY-MM-DD)`;
+}
+
+function checkDeadline(deadline: unknown): string | null {
+  if (deadline === undefined || isDate(deadline)) return null;
+  return "deadline must be a date (YYYY-MM-DD)";
+}
+
+/** A move or create target: a built-in list, or a project that exists */
+function checkList(list: string): string | null {
+  if (BUILT_IN_LISTS[list.toLowerCase()] || findProject(list)) return null;
+  return `Project not found: ${list}`;
+}
+
+function checkTodo(uuid: unknown): string | null {
+  if (typeof uuid !== "string" || !uuid) return "Missing required field: uuid";
+  return getTodoByUuid(uuid) ? null : `To-do not found: ${uuid}`;
+}
+
+/**
+ * Check one operation against the database as it is now — the pre-validation
+ * pass. Returns an error message, or null if the operation should succeed.
+ */
+function validateOperation(op: unknown): string | null {
+  if (!isObject(op)) return "Operation must be an object";
+  if (!BATCH_OPS.includes(op.op as BatchOperation["op"])) {
+    return `Unknown op: ${String(op.op)}. Valid options: ${BATCH_OPS.join(", ")}`;
+  }
+
+  switch (op.op) {
+    case "create": {
+      if (!isObject(op.data)) return "Missing required field: data";
+      const data = op.data;
+      const typeError = checkFieldTypes(data, TODO_CREATE_FIELDS);
+      if (typeError) return `data.${typeError}`;
+      if (!data.title) return "Missing required field: data.title";
+      const error =
+        checkWhen(data.when) ??
+        checkDeadline(data.deadline) ??
+        (typeof data.list === "string" ? checkList(data.list) : null);
+      if (error) return error;
+      const writesChecklist =
+        (Array.isArray(data.checklist) && data.checklist.length > 0) || data.heading;
+      if (writesChecklist && !getBackend().canWriteChecklists) {
+        return "Checklist items and headings require THINGS_AUTH_TOKEN to be configured";
+      }
+      if (
+        typeof data.heading === "string" &&
+        !(typeof data.list === "string" && findHeading(data.list, data.heading))
+      ) {
+        return `Heading "${data.heading}" not found in project "${data.list ?? ""}"`;
+      }
+      return (
+        checkTodoPlacement(
+          data.list as string | undefined,
+          (data.tags as string[] | undefined) ?? []
+        )?.error ?? null
+      );
+    }
+    case "update": {
+      if (!isObject(op.data)) return "Missing required field: data";
+      const typeError = checkFieldTypes(op.data, TODO_UPDATE_FIELDS);
+      if (typeError) return `data.${typeError}`;
+      const error =
+        checkTodo(op.uuid) ?? checkWhen(op.data.when) ?? checkDeadline(op.data.deadline);
+      if (error || op.data.tags === undefined) return error;
+      const existing = getTodoByUuid(op.uuid as string)!;
+      return checkTodoPlacement(undefined, op.data.tags as string[], existing)?.error ?? null;
+    }
+    case "complete":
+      return checkTodo(op.uuid);
+    case "move": {
+      if (typeof op.list !== "string" || !op.list) return "Missing required field: list";
+      const error = checkTodo(op.uuid) ?? checkList(op.list);
+      if (error) return error;
+      const existing = getTodoByUuid(op.uuid as string)!;
+      return checkTodoPlacement(op.list, existing.tags, existing)?.error ?? null;
+    }
+  }
+  return null;
+}
+
+// ─── Handler ───
+
+/**
+ * POST /v1/batch — Run create/update/complete/move operations on to-dos in
+ * order, through a single AppleScript round-trip.
+ *
+ * Every operation is validated first. Without `atomic`, invalid operations
+ * are reported and the rest still run, each independently. With `atomic`,
+ * one invalid operation rejects the whole batch before anything is written,
+ * and a failure while running skips everything after it — Things has no
+ * transactions, so operations before the failure stay applied.
+ */
+export async function handleBatch(request: Request): Promise<Response> {
+  let body: BatchRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json(
+      { ok: false, error: "Invalid JSON body" },
+      { status: 400 }
+    );
+  }
+
+  if (!isObject(body) || !Array.isArray(body.operations)) {
+    return Response.json(
+      { ok: false, error: "Missing required field: operations" },
+      { status: 400 }
+    );
+  }
+  if (body.operations.length > MAX_BATCH_SIZE) {
+    return Response.json(
+      { ok: false, error: `A batch holds at most ${MAX_BATCH_SIZE} operations` },
+      { status: 400 }
+    );
+  }
+  if (body.atomic !== undefined && typeof body.atomic !== "boolean") {
+    return Response.json(
+      { ok: false, error: "atomic must be true or false" },
+      { status: 400 }
+    );
+  }
+  const atomic = body.atomic ?? false;
+
+  // Untrusted until validated
+  const operations: unknown[] = body.operations;
+  const results = operations.map((op, index) => {
+    const error = validateOperation(op);
+    const result: BatchOperationResult = {
+      index,
+      op: (isObject(op) ? op.op : undefined) as BatchOperation["op"],
+      status: error ? "error" : "ok",
+    };
+    if (isObject(op) && typeof op.uuid === "string") result.uuid = op.uuid;
+    if (error) result.error = error;
+    return result;
+  });
+
+  const invalid = results.filter((result) => result.status === "error");
+  if (atomic && invalid.length > 0) {
+    for (const result of results) {
+      if (result.status === "ok") result.status = "skipped";
+    }
+    return Response.json(
+      {
+        ok: false,
+        error: `Batch rejected: ${invalid.length} of ${results.length} operations failed validation`,
+        data: { results },
+      },
+      { status: 400 }
+    );
+  }
+
+  const valid = results.filter((result) => result.status === "ok");
+  try {
+    const outcomes = await getBackend().runBatch(
+      valid.map((result) => body.operations[result.index]),
+      atomic
+    );
+    outcomes.forEach((outcome, i) => {
+      const result = valid[i];
+      result.status = outcome.status;
+      if (outcome.uuid) result.uuid = outcome.uuid;
+      if (outcome.error) {
+        result.error = outcome.error;
+        result.code = toWriteError(outcome.error).code;
+      }
+    });
+  } catch (err) {
+    return writeFailure("run batch", err);
+  }
+
+  const count = (status: BatchOperationResult["status"]) =>
+    results.filter((result) => result.status === status).length;
+  const summary = {
+    results,
+    succeeded: count("ok"),
+    failed: count("error"),
+    skipped: count("skipped"),
+  };
+
+  const failure = atomic ? results.find((result) => result.status === "error") : undefined;
+  if (failure) {
+    return Response.json(
+      {
+        ok: false,
+        error: `Batch stopped at operation ${failure.index}: ${failure.error}`,
+        data: summary,
+      },
+      { status: 500 }
+    );
+  }
+  return Response.json({ ok: true, data: summary });
+}
@@ -0,0 +1,28 @@
+import { getChangesSince, parseSince } from "../state/changes";
+import { parsePageParams } from "../pagination";
+import { syncTokenExpired } from "./errors";
+
+/**
+ * GET /v1/changes?since=<syncToken|ISO 8601> — delta sync for client caches.
+ * A token older than the change log's retention is 410 Gone.
+ */
+export function handleGetChanges(url: URL): Response {
+  const since = parseSince(url.searchParams.get("since"));
+  if (typeof since === "string") {
+    return Response.json({ ok: false, error: since }, { status: 400 });
+  }
+
+  const page = parsePageParams(url);
+  if (page instanceof Response) return page;
+
+  const result = getChangesSince(since, page);
+  if (!result) return syncTokenExpired();
+  const { changes, syncToken } = result;
+  return Response.json({
+    ok: true,
+    data: changes.items,
+    total: changes.total,
+    nextCursor: changes.nextCursor,
+    syncToken,
+  });
+}
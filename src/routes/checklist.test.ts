@@ -0,0 +1,126 @@
+import { describe, test, expect, afterAll, spyOn } from "bun:test";
+import { startTestBridge, stopTestBridge, send } from "../testing";
+import type { ChecklistItem } from "../types";
+
+// ─── Fixture ───
+
+await startTestBridge({
+  tasks: [
+    {
+      uuid: "todo-1",
+      title: "Pack for the trip",
+      checklist: [
+        { title: "Passport" },
+        { title: "Charger", status: "completed" },
+        { title: "Sunscreen" },
+      ],
+    },
+  ],
+});
+
+const { getBackend } = await import("../backend");
+
+afterAll(stopTestBridge);
+
+async function checklist(): Promise<ChecklistItem[]> {
+  return (await (await send("GET", "/v1/todos/todo-1/checklist")).json()).data;
+}
+
+const titles = async () => (await checklist()).map((item) => item.title);
+
+async function itemUuid(title: string): Promise<string> {
+  return (await checklist()).find((item) => item.title === title)!.uuid;
+}
+
+// ─── Checklists ───
+
+describe("checklist", () => {
+  test("lists items in order with their status", async () => {
+    expect(await checklist()).toMatchObject([
+      { title: "Passport", status: "incomplete" },
+      { title: "Charger", status: "completed" },
+      { title: "Sunscreen", status: "incomplete" },
+    ]);
+    expect((await send("GET", "/v1/todos/no-such-todo/checklist")).status).toBe(404);
+  });
+
+  test("adds items at the end or at a position, clamped to the list", async () => {
+    const appended = await send("POST", "/v1/todos/todo-1/checklist", { title: "Hat" });
+    expect(appended.status).toBe(201);
+    expect((await appended.json()).data.map((item: ChecklistItem) => item.title)).toEqual([
+      "Passport",
+      "Charger",
+      "Sunscreen",
+      "Hat",
+    ]);
+
+    await send("POST", "/v1/todos/todo-1/checklist", { title: "Tickets", index: 0 });
+    await send("POST", "/v1/todos/todo-1/checklist", { title: "Book", index: 99 });
+    expect(await titles()).toEqual(["Tickets", "Passport", "Charger", "Sunscreen", "Hat", "Book"]);
+  });
+
+  test("rejects a missing title, a non-integer index and unknown to-dos", async () => {
+    const before = await titles();
+    expect((await send("POST", "/v1/todos/todo-1/checklist", {})).status).toBe(400);
+
+    for (const index of ["abc", 1.5, null]) {
+      const response = await send("POST", "/v1/todos/todo-1/checklist", { title: "Map", index });
+      expect(response.status).toBe(400);
+      expect(await response.json()).toMatchObject({ ok: false, code: "invalid_input" });
+    }
+    const uuid = await itemUuid("Passport");
+    const move = await send("PATCH", `/v1/todos/todo-1/checklist/${uuid}`, { index: "last" });
+    expect(move.status).toBe(400);
+    expect(await titles()).toEqual(before);
+
+    expect((await send("POST", "/v1/todos/no-such-todo/checklist", { title: "Map" })).status).toBe(404);
+  });
+
+  test("edits rename, reorder and change an item's status", async () => {
+    const uuid = await itemUuid("Sunscreen");
+    const edited = await send("PATCH", `/v1/todos/todo-1/checklist/${uuid}`, {
+      title: "SPF 50",
+      status: "canceled",
+      index: 0,
+    });
+    expect(edited.status).toBe(200);
+    expect((await checklist())[0]).toMatchObject({ title: "SPF 50", status: "canceled" });
+
+    const invalid = await send("PATCH", `/v1/todos/todo-1/checklist/${uuid}`, { status: "done" });
+    expect(invalid.status).toBe(400);
+    expect((await send("PATCH", "/v1/todos/todo-1/checklist/no-such-item", { title: "x" })).status).toBe(404);
+  });
+
+  test("completes and deletes items", async () => {
+    const passport = await itemUuid("Passport");
+    expect((await send("POST", `/v1/todos/todo-1/checklist/${passport}/complete`)).status).toBe(200);
+    expect((await checklist()).find((item) => item.title === "Passport")?.status).toBe("completed");
+
+    const hat = await itemUuid("Hat");
+    expect((await send("DELETE", `/v1/todos/todo-1/checklist/${hat}`)).status).toBe(200);
+    expect(await titles()).not.toContain("Hat");
+
+    expect((await send("POST", "/v1/todos/todo-1/checklist/no-such-item/complete")).status).toBe(404);
+    expect((await send("DELETE", "/v1/todos/no-such-todo/checklist/no-such-item")).status).toBe(404);
+  });
+
+  test("concurrent edits each see the one before, so none is lost", async () => {
+    const before = await titles();
+    const added = ["Snacks", "Water", "Umbrella"];
+    const responses = await Promise.all(
+      added.map((title) => send("POST", "/v1/todos/todo-1/checklist", { title }))
+    );
+    expect(responses.map((response) => response.status)).toEqual([201, 201, 201]);
+    expect(await titles()).toEqual([...before, ...added]);
+  });
+
+  test("a write Things hasn't applied yet is accepted with where to read it", async () => {
+    const setChecklist = spyOn(getBackend(), "setChecklist").mockResolvedValueOnce(false);
+    const response = await send("POST", "/v1/todos/todo-1/checklist", { title: "Map" });
+    setChecklist.mockRestore();
+
+    expect(response.status).toBe(202);
+    expect(response.headers.get("Location")).toBe("/v1/todos/todo-1/checklist");
+    expect((await response.json()).data).toEqual({ uuid: "todo-1" });
+  });
+});
@@ -0,0 +1,218 @@
+import { getTodoByUuid, getChecklistForTask } from "../db/queries";
+import { getBackend } from "../backend";
+import { enqueueWrite } from "../backend/queue";
+import { invalidInput, writeFailure } from "./errors";
+import { checkFieldTypes, CHECKLIST_ITEM_FIELDS } from "./fields";
+import type {
+  ChecklistItem,
+  ChecklistItemInput,
+  CreateChecklistItemRequest,
+  UpdateChecklistItemRequest,
+} from "../types";
+
+const VALID_STATUSES: ChecklistItem["status"][] = [
+  "incomplete",
+  "completed",
+  "canceled",
+];
+
+/** Strip UUIDs so the current checklist can be rewritten */
+function toInputs(items: ChecklistItem[]): ChecklistItemInput[] {
+  return items.map(({ title, status }) => ({ title, status }));
+}
+
+/** Clamp a requested position into the checklist bounds */
+function clampIndex(index: number, length: number): number {
+  return Math.max(0, Math.min(index, length));
+}
+
+function todoNotFound(): Response {
+  return Response.json(
+    { ok: false, error: "To-do not found" },
+    { status: 404 }
+  );
+}
+
+function itemNotFound(): Response {
+  return Response.json(
+    { ok: false, error: "Checklist item not found" },
+    { status: 404 }
+  );
+}
+
+/**
+ * Write the checklist and answer with the version read back from the
+ * database — or, if Things hasn't applied it yet, `202` with the to-do's
+ * uuid and a `Location` to read the checklist from once it has.
+ */
+async function writeChecklist(
+  uuid: string,
+  items: ChecklistItemInput[],
+  action: string,
+  status = 200
+): Promise<Response> {
+  try {
+    const applied = await getBackend().setChecklist(uuid, items);
+    if (!applied) {
+      return Response.json(
+        { ok: true, data: { uuid } },
+        { status: 202, headers: { Location: `/v1/todos/${uuid}/checklist` } }
+      );
+    }
+    return Response.json(
+      { ok: true, data: getChecklistForTask(uuid) },
+      { status }
+    );
+  } catch (err) {
+    return writeFailure(`${action} checklist item`, err);
+  }
+}
+
+/**
+ * Read the to-do's checklist, edit it and write it back as one queued write,
+ * so another request's write can't land in between and be overwritten.
+ * `edit` returns the new checklist, or a response to send instead.
+ */
+function editChecklist(
+  uuid: string,
+  action: string,
+  edit: (checklist: ChecklistItem[]) => ChecklistItemInput[] | Response,
+  status = 200
+): Promise<Response> {
+  return enqueueWrite(async () => {
+    const todo = getTodoByUuid(uuid);
+    if (!todo) return todoNotFound();
+    const items = edit(todo.checklist);
+    if (items instanceof Response) return items;
+    return writeChecklist(uuid, items, action, status);
+  });
+}
+
+/** Edit one item of the checklist, answering 404 if it isn't there */
+function editChecklistItem(
+  uuid: string,
+  itemUuid: string,
+  action: string,
+  edit: (items: ChecklistItemInput[], current: number) => void
+): Promise<Response> {
+  return editChecklist(uuid, action, (checklist) => {
+    const current = checklist.findIndex((item) => item.uuid === itemUuid);
+    if (current === -1) return itemNotFound();
+    const items = toInputs(checklist);
+    edit(items, current);
+    return items;
+  });
+}
+
+/** GET /v1/todos/:uuid/checklist */
+export function handleGetChecklist(uuid: string): Response {
+  const todo = getTodoByUuid(uuid);
+  if (!todo) return todoNotFound();
+  return Response.json({ ok: true, data: todo.checklist });
+}
+
+/** POST /v1/todos/:uuid/checklist — Add a checklist item */
+export async function handleAddChecklistItem(
+  uuid: string,
+  request: Request
+): Promise<Response> {
+  let body: CreateChecklistItemRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json(
+      { ok: false, error: "Invalid JSON body" },
+      { status: 400 }
+    );
+  }
+
+  const typeError = checkFieldTypes(body, CHECKLIST_ITEM_FIELDS);
+  if (typeError) return invalidInput(typeError);
+
+  if (!body.title) {
+    return Response.json(
+      { ok: false, error: "Missing required field: title" },
+      { status: 400 }
+    );
+  }
+
+  if (body.index !== undefined && !Number.isInteger(body.index)) {
+    return invalidInput("index must be an integer");
+  }
+
+  return editChecklist(
+    uuid,
+    "add",
+    (checklist) => {
+      const items = toInputs(checklist);
+      const position =
+        body.index === undefined ? items.length : clampIndex(body.index, items.length);
+      items.splice(position, 0, { title: body.title, status: "incomplete" });
+      return items;
+    },
+    201
+  );
+}
+
+/** PATCH /v1/todos/:uuid/checklist/:itemUuid — Rename, reorder or change status */
+export async function handleUpdateChecklistItem(
+  uuid: string,
+  itemUuid: string,
+  request: Request
+): Promise<Response> {
+  let body: UpdateChecklistItemRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json(
+      { ok: false, error: "Invalid JSON body" },
+      { status: 400 }
+    );
+  }
+
+  const typeError = checkFieldTypes(body, CHECKLIST_ITEM_FIELDS);
+  if (typeError) return invalidInput(typeError);
+
+  if (body.status !== undefined && !VALID_STATUSES.includes(body.status)) {
+    return Response.json(
+      {
+        ok: false,
+        error: `Invalid status. Valid options: ${VALID_STATUSES.join(", ")}`,
+      },
+      { status: 400 }
+    );
+  }
+
+  if (body.index !== undefined && !Number.isInteger(body.index)) {
+    return invalidInput("index must be an integer");
+  }
+
+  return editChecklistItem(uuid, itemUuid, "update", (items, current) => {
+    const [item] = items.splice(current, 1);
+    if (body.title) item.title = body.title;
+    if (body.status) item.status = body.status;
+    const position =
+      body.index === undefined ? current : clampIndex(body.index, items.length);
+    items.splice(position, 0, item);
+  });
+}
+
+/** POST /v1/todos/:uuid/checklist/:itemUuid/complete */
+export function handleCompleteChecklistItem(
+  uuid: string,
+  itemUuid: string
+): Promise<Response> {
+  return editChecklistItem(uuid, itemUuid, "complete", (items, current) => {
+    items[current].status = "completed";
+  });
+}
+
+/** DELETE /v1/todos/:uuid/checklist/:itemUuid */
+export function handleDeleteChecklistItem(
+  uuid: string,
+  itemUuid: string
+): Promise<Response> {
+  return editChecklistItem(uuid, itemUuid, "delete", (items, current) => {
+    items.splice(current, 1);
+  });
+}
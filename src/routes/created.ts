@@ -0,0 +1,32 @@
+// ─── Reading Back Creates ───
+
+/** How often, and how many times, to look for a new item before answering without it */
+const READ_BACK_INTERVAL_MS = 50;
+const READ_BACK_ATTEMPTS = 20;
+
+/**
+ * Read a newly created item back, retrying while it isn't there yet:
+ * Things can hand back the new id before its database has the item.
+ */
+export async function readBack<T>(read: () => T | null): Promise<T | null> {
+  for (let attempt = 1; ; attempt++) {
+    const item = read();
+    if (item || attempt === READ_BACK_ATTEMPTS) return item;
+    await Bun.sleep(READ_BACK_INTERVAL_MS);
+  }
+}
+
+/**
+ * The response to a create: `201` with the item as GET returns it — or,
+ * if Things still hasn't saved it, `202` with only its uuid, and a
+ * `Location` to read it from once it has.
+ */
+export async function createdResponse<T>(
+  uuid: string,
+  location: string,
+  read: () => T | null
+): Promise<Response> {
+  const item = await readBack(read);
+  if (item) return Response.json({ ok: true, data: item }, { status: 201 });
+  return Response.json({ ok: true, data: { uuid } }, { status: 202, headers: { Location: location } });
+}
@@ -0,0 +1,34 @@
+import { toWriteError, WRITE_ERROR_STATUS } from "../backend/errors";
+
+/**
+ * The response for a write that failed: "Failed to <action>: ..." with the
+ * classified error `code` and its status — 503 when Things isn't running,
+ * 504 on a timeout, 404 when Things can't find the item, and so on.
+ */
+export function writeFailure(action: string, err: unknown): Response {
+  const error = toWriteError(err);
+  return Response.json(
+    { ok: false, error: `Failed to ${action}: ${error.message}`, code: error.code },
+    { status: WRITE_ERROR_STATUS[error.code] }
+  );
+}
+
+/** The response for a request whose fields are the wrong type or out of range */
+export function invalidInput(message: string): Response {
+  return Response.json(
+    { ok: false, error: message, code: "invalid_input" },
+    { status: WRITE_ERROR_STATUS.invalid_input }
+  );
+}
+
+/** The response for a sync token whose changes have been pruned from the log */
+export function syncTokenExpired(): Response {
+  return Response.json(
+    {
+      ok: false,
+      error: "Sync token has expired: sync again from scratch, without since",
+      code: "sync_token_expired",
+    },
+    { status: 410 }
+  );
+}
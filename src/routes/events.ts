@@ -0,0 +1,110 @@
+import { subscribeToEvents, toEvents, visibleEvent } from "../state/events";
+import {
+  decodeSyncToken,
+  getLoggedChanges,
+  filterVisibleChanges,
+  isSyncTokenExpired,
+  scanForChanges,
+} from "../state/changes";
+import { syncTokenExpired } from "./errors";
+import { currentToken, runAsToken } from "../auth/context";
+import type { LoggedChange } from "../state/changes";
+import type { BridgeEvent } from "../types";
+
+/** Comment line sent periodically so proxies and the server keep the stream open */
+const HEARTBEAT_MS = 15000;
+
+/** Most log entries replayed on reconnect; further behind, the client resyncs */
+const MAX_REPLAY = 1000;
+
+function formatEvent(event: BridgeEvent): string {
+  const id = event.syncToken ? `id: ${event.syncToken}\n` : "";
+  return `${id}event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * GET /v1/events — Server-Sent Events for every change to the Things database.
+ * Reconnecting clients send Last-Event-ID (or ?since=<syncToken>) to replay
+ * what they missed from the change log. A token that's been pruned, or more
+ * than MAX_REPLAY entries behind, is 410 Gone: resync through /v1/changes.
+ */
+export function handleEvents(request: Request, url: URL): Response {
+  const resumeFrom = request.headers.get("Last-Event-ID") ?? url.searchParams.get("since");
+  const afterSeq = resumeFrom === null ? null : decodeSyncToken(resumeFrom);
+  if (resumeFrom !== null && afterSeq === null) {
+    return Response.json(
+      { ok: false, error: "Last-Event-ID must be a sync token" },
+      { status: 400 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  let controller: ReadableStreamDefaultController<Uint8Array>;
+  let cleanup = () => {};
+  const send = (chunk: string) => {
+    try {
+      controller.enqueue(encoder.encode(chunk));
+    } catch {
+      cleanup(); // Stream already closed
+    }
+  };
+
+  // Catch up and start watching before answering, so a failure is a 503
+  // rather than a stream that breaks once it's open
+  let missed: LoggedChange[] = [];
+  let unsubscribe: () => void;
+  try {
+    if (afterSeq !== null) {
+      // Log whatever changed while the client was away before reading it back
+      scanForChanges();
+      missed = getLoggedChanges(afterSeq, MAX_REPLAY + 1);
+      if (isSyncTokenExpired(afterSeq) || missed.length > MAX_REPLAY) return syncTokenExpired();
+    }
+
+    // Live events arrive outside this request; filter them as its token
+    const token = currentToken();
+    unsubscribe = subscribeToEvents((event) => {
+      const visible = runAsToken(token, () => visibleEvent(event));
+      if (visible) send(formatEvent(visible));
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return Response.json(
+      { ok: false, error: `Failed to watch for changes: ${message}` },
+      { status: 503 }
+    );
+  }
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(streamController) {
+      controller = streamController;
+      send(": connected\n\n");
+      for (const event of toEvents(filterVisibleChanges(missed))) send(formatEvent(event));
+
+      const heartbeat = setInterval(() => send(": keepalive\n\n"), HEARTBEAT_MS);
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+      request.signal.addEventListener("abort", () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      });
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -0,0 +1,56 @@
+import { describe, test, expect, afterAll } from "bun:test";
+import { startTestBridge, stopTestBridge, send } from "../testing";
+
+// ─── Fixture ───
+
+const backend = await startTestBridge({
+  areas: [{ uuid: "area-home", title: "Home" }],
+  tags: [{ uuid: "tag-home", title: "Home" }],
+  tasks: [
+    {
+      uuid: "todo-1",
+      title: "Fix the gate",
+      checklist: [{ title: "Buy hinges" }],
+    },
+  ],
+});
+
+afterAll(stopTestBridge);
+
+// ─── Field Types ───
+
+describe("wrongly typed bodies", () => {
+  test.each([
+    ["POST", "/v1/areas", { title: 5 }],
+    ["PATCH", "/v1/areas/area-home", { tags: "x" }],
+    ["POST", "/v1/tags", { title: "Garden", parent: 5 }],
+    ["PATCH", "/v1/tags/Home", { shortcut: 7 }],
+    ["POST", "/v1/todos/todo-1/move", { list: 5 }],
+    ["POST", "/v1/todos/todo-1/checklist", { title: ["Buy screws"] }],
+    ["PATCH", "/v1/todos/todo-1/checklist/item-1", { title: 5 }],
+    ["POST", "/v1/webhooks", { url: "https://example.com/hook", events: "todo.*" }],
+    ["POST", "/v1/projects", { title: "Garden", todos: "Dig" }],
+    ["POST", "/v1/areas", null],
+    ["PATCH", "/v1/areas/area-home", null],
+    ["POST", "/v1/tags", null],
+    ["PATCH", "/v1/tags/Home", null],
+    ["POST", "/v1/todos", null],
+    ["PATCH", "/v1/todos/todo-1", null],
+    ["POST", "/v1/todos/todo-1/move", null],
+    ["POST", "/v1/projects", null],
+    ["POST", "/v1/webhooks", null],
+    ["PATCH", "/v1/webhooks/no-such-webhook", null],
+    ["POST", "/v1/tokens", null],
+    ["POST", "/v1/operations/undo", null],
+  ])("%s %s %j is 400 invalid_input", async (method, path, body) => {
+    const response = await send(method, path, body);
+    expect(response.status).toBe(400);
+    expect((await response.json()).code).toBe("invalid_input");
+    expect(backend.sent).toHaveLength(0);
+  });
+
+  test("null clears a tag's parent and shortcut", async () => {
+    const cleared = await send("PATCH", "/v1/tags/Home", { parent: null, shortcut: null });
+    expect(cleared.status).toBe(200);
+  });
+});
@@ -0,0 +1,75 @@
+// ─── Field Types ───
+
+/** The names of a request body's string and string-list fields */
+export interface FieldTypes {
+  strings: readonly string[];
+  /** Strings that may also be null, to clear them */
+  nullableStrings?: readonly string[];
+  lists?: readonly string[];
+}
+
+export const TODO_CREATE_FIELDS: FieldTypes = {
+  strings: ["title", "notes", "when", "deadline", "list", "heading"],
+  lists: ["tags", "checklist"],
+};
+
+export const TODO_UPDATE_FIELDS: FieldTypes = {
+  strings: ["title", "notes", "when", "deadline"],
+  lists: ["tags"],
+};
+
+export const PROJECT_CREATE_FIELDS: FieldTypes = {
+  strings: ["title", "notes", "when", "deadline", "area"],
+  lists: ["tags", "todos"],
+};
+
+export const MOVE_FIELDS: FieldTypes = { strings: ["list"] };
+
+export const CHECKLIST_ITEM_FIELDS: FieldTypes = { strings: ["title", "status"] };
+
+export const AREA_FIELDS: FieldTypes = { strings: ["title"], lists: ["tags"] };
+
+export const TAG_CREATE_FIELDS: FieldTypes = { strings: ["title", "parent", "shortcut"] };
+
+export const TAG_UPDATE_FIELDS: FieldTypes = {
+  strings: ["title"],
+  nullableStrings: ["parent", "shortcut"],
+};
+
+export const WEBHOOK_FIELDS: FieldTypes = {
+  strings: ["url", "secret"],
+  lists: ["events", "areas", "tags"],
+};
+
+export function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check that every field of `body` that's present has its declared type.
+ * Returns an error message for the first that doesn't, or null — whether a
+ * field is required is left to the caller.
+ */
+export function checkFieldTypes(body: unknown, fields: FieldTypes): string | null {
+  if (!isObject(body)) return "Request body must be a JSON object";
+  for (const field of fields.strings) {
+    if (body[field] !== undefined && typeof body[field] !== "string") {
+      return `${field} must be a string`;
+    }
+  }
+  for (const field of fields.nullableStrings ?? []) {
+    if (body[field] !== undefined && body[field] !== null && typeof body[field] !== "string") {
+      return `${field} must be a string or null`;
+    }
+  }
+  for (const field of fields.lists ?? []) {
+    const value = body[field];
+    if (
+      value !== undefined &&
+      !(Array.isArray(value) && value.every((item) => typeof item === "string"))
+    ) {
+      return `${field} must be an array of strings`;
+    }
+  }
+  return null;
+}
@@ -1,5 +1,8 @@
 import { config } from "../config";
 import { existsSync } from "fs";
+import { getWriteQueueDepth } from "../backend/queue";
+import { countPendingOperations } from "../operations/journal";
+import { servedFingerprint } from "../tls";
 
 export function handleHealth(): Response {
   const dbExists = existsSync(config.dbPath);
@@ -9,6 +12,13 @@ export function handleHealth(): Response {
     service: "things-bridge",
     version: "0.1.0",
     database: dbExists ? "connected" : "not found",
+    writeQueue: { depth: getWriteQueueDepth() },
+    offlineQueue: config.offlineQueue
+      ? { enabled: true, pending: countPendingOperations() }
+      : { enabled: false },
+    tls: servedFingerprint()
+      ? { enabled: true, fingerprint: servedFingerprint() }
+      : { enabled: false },
     timestamp: new Date().toISOString(),
   });
 }
@@ -20,8 +30,23 @@ export function handleCapabilities(): Response {
       capabilities: [
         {
           name: "things-todos",
-          description: "Read, create, update, complete, and delete Things 3 to-dos",
-          operations: ["read", "create", "update", "complete", "cancel", "delete"],
+          description: "Read, create, update, complete, move, and delete Things 3 to-dos",
+          operations: ["read", "create", "update", "complete", "cancel", "move", "delete"],
+        },
+        {
+          name: "things-batch",
+          description: "Create, update, complete, and move many to-dos in one request and one AppleScript run, optionally all-or-nothing",
+          operations: ["create", "update", "complete", "move"],
+        },
+        {
+          name: "things-operations",
+          description: "Journal of writes to Things: undo what an agent changed, and check or cancel writes queued while Things isn't running",
+          operations: ["read", "cancel", "undo"],
+        },
+        {
+          name: "things-checklists",
+          description: "Read, add, rename, reorder, complete, and remove checklist items on a to-do",
+          operations: ["read", "create", "update", "complete", "delete"],
         },
         {
           name: "things-projects",
@@ -30,14 +55,49 @@ export function handleCapabilities(): Response {
         },
         {
           name: "things-areas",
-          description: "Read Things 3 areas",
+          description: "Read, create, rename, retag, and delete Things 3 areas",
+          operations: ["read", "create", "update", "delete"],
+        },
+        {
+          name: "things-search",
+          description: "Ranked full-text search across to-dos, checklist items, projects, and areas",
           operations: ["read"],
         },
         {
-          name: "things-tags",
-          description: "Read Things 3 tags and filter to-dos by tag",
+          name: "things-changes",
+          description: "Delta sync: everything created, modified, completed, trashed, or deleted since a sync token or timestamp",
+          operations: ["read"],
+        },
+        {
+          name: "things-events",
+          description: "Server-Sent Events stream of to-do, project, area, tag and Today list changes as they happen",
+          operations: ["subscribe"],
+        },
+        {
+          name: "things-webhooks",
+          description: "Signed webhook deliveries of change events, filtered by event type, area or tag, with retries and a delivery log",
+          operations: ["read", "create", "update", "delete"],
+        },
+        {
+          name: "things-audit",
+          description: "Append-only log of every write: which token sent it, from where, what ran, and each item before and after",
+          operations: ["read"],
+        },
+        {
+          name: "things-tokens",
+          description: "Scoped API tokens (read, write, delete, admin), each optionally limited to some areas or tags",
+          operations: ["read", "create", "delete"],
+        },
+        {
+          name: "things-openapi",
+          description: "OpenAPI 3.1 description of every endpoint at /v1/openapi.json, and a docs page at /v1/docs",
           operations: ["read"],
         },
+        {
+          name: "things-tags",
+          description: "Read the Things 3 tag tree, filter to-dos by tag, and create, rename, re-parent, and delete tags",
+          operations: ["read", "create", "update", "delete"],
+        },
       ],
     },
   });
@@ -0,0 +1,14 @@
+import { openApiDocument, type DocumentedRoute } from "../openapi/spec";
+import { docsPage } from "../openapi/docs";
+
+/** GET /v1/openapi.json — OpenAPI 3.1 description of every route */
+export function handleOpenApi(url: URL, routes: DocumentedRoute[]): Response {
+  return Response.json(openApiDocument(routes, url.origin));
+}
+
+/** GET /v1/docs — the same description as a browsable page */
+export function handleDocs(url: URL, routes: DocumentedRoute[]): Response {
+  return new Response(docsPage(openApiDocument(routes, url.origin)), {
+    headers: { "Content-Type": "text/html; charset=utf-8" },
+  });
+}
@@ -0,0 +1,165 @@
+import {
+  getOperation,
+  listOperations,
+  cancelOperation,
+  listUndoableOperationIds,
+  getUndoTargets,
+} from "../operations/journal";
+import { isReplaying } from "../operations/replay";
+import { undoOperation } from "../operations/undo";
+import { currentToken } from "../auth/context";
+import { hasScope } from "../auth/tokens";
+import { parsePageParams } from "../pagination";
+import { invalidInput, writeFailure } from "./errors";
+import { isObject } from "./fields";
+import type { Operation } from "../types";
+
+const OPERATION_STATUSES: Operation["status"][] = ["pending", "succeeded", "failed", "canceled"];
+
+function notFound(id: string): Response {
+  return Response.json(
+    { ok: false, error: `Operation not found: ${id}` },
+    { status: 404 }
+  );
+}
+
+/**
+ * Undoing a create trashes what it created, so it needs the `delete` scope
+ * as well — auth only knows the path. Returns the 403, or null if allowed.
+ */
+function checkUndoScope(ids: string[]): Response | null {
+  const token = currentToken();
+  if (hasScope(token, "delete")) return null;
+  const trashes = ids.some((id) => getUndoTargets(id)?.some((target) => target.before === null));
+  if (!trashes) return null;
+  return Response.json(
+    {
+      ok: false,
+      error: `Token "${token.name}" doesn't have the "delete" scope, which undoing a create needs`,
+    },
+    { status: 403 }
+  );
+}
+
+/** GET /v1/operations?status=&limit=&cursor= — Journaled writes to Things, oldest first */
+export function handleGetOperations(url: URL): Response {
+  const page = parsePageParams(url);
+  if (page instanceof Response) return page;
+
+  const status = url.searchParams.get("status");
+  if (status !== null && !OPERATION_STATUSES.includes(status as Operation["status"])) {
+    return Response.json(
+      {
+        ok: false,
+        error: `Invalid status. Valid options: ${OPERATION_STATUSES.join(", ")}`,
+      },
+      { status: 400 }
+    );
+  }
+
+  const operations = listOperations(status as Operation["status"] | null, page);
+  return Response.json({
+    ok: true,
+    data: operations.items,
+    total: operations.total,
+    nextCursor: operations.nextCursor,
+  });
+}
+
+/** GET /v1/operations/:id — Status, and the write's response once it ran */
+export function handleGetOperation(id: string): Response {
+  const operation = getOperation(id);
+  if (!operation) return notFound(id);
+  return Response.json({ ok: true, data: operation });
+}
+
+/** DELETE /v1/operations/:id — Cancel an operation that hasn't run yet */
+export function handleCancelOperation(id: string): Response {
+  const operation = getOperation(id);
+  if (!operation) return notFound(id);
+
+  if (isReplaying(id) || !cancelOperation(id)) {
+    return Response.json(
+      {
+        ok: false,
+        error: `Operation is ${isReplaying(id) ? "running" : operation.status} and can no longer be canceled`,
+      },
+      { status: 409 }
+    );
+  }
+  return Response.json({ ok: true, data: getOperation(id) });
+}
+
+/** POST /v1/operations/:id/undo — Put back what an operation changed */
+export async function handleUndoOperation(id: string): Promise<Response> {
+  const operation = getOperation(id);
+  if (!operation) return notFound(id);
+
+  if (!operation.undoable) {
+    return Response.json(
+      {
+        ok: false,
+        error: operation.undoneAt
+          ? "Operation was already undone"
+          : `Operation is ${operation.status} and can't be undone`,
+      },
+      { status: 409 }
+    );
+  }
+  const forbidden = checkUndoScope([id]);
+  if (forbidden) return forbidden;
+
+  try {
+    await undoOperation(id);
+  } catch (err) {
+    return writeFailure("undo operation", err);
+  }
+  return Response.json({ ok: true, data: getOperation(id) });
+}
+
+/**
+ * POST /v1/operations/undo — Undo every operation since a point in time,
+ * newest first. Body: { "since": "<ISO 8601>" }. Stops at the first failure.
+ */
+export async function handleUndoOperations(request: Request): Promise<Response> {
+  let body: { since?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json(
+      { ok: false, error: "Invalid JSON body" },
+      { status: 400 }
+    );
+  }
+
+  if (!isObject(body)) return invalidInput("Request body must be a JSON object");
+
+  if (body.since === undefined) {
+    return Response.json(
+      { ok: false, error: "Missing required field: since" },
+      { status: 400 }
+    );
+  }
+  const since = typeof body.since === "string" ? Date.parse(body.since) : NaN;
+  if (Number.isNaN(since)) {
+    return Response.json(
+      { ok: false, error: "Invalid since: expected an ISO 8601 date-time" },
+      { status: 400 }
+    );
+  }
+
+  const ids = listUndoableOperationIds(since / 1000);
+  const forbidden = checkUndoScope(ids);
+  if (forbidden) return forbidden;
+
+  const undone: Operation[] = [];
+  for (const id of ids) {
+    try {
+      await undoOperation(id);
+    } catch (err) {
+      return writeFailure(`undo operation ${id}`, err);
+    }
+    undone.push(getOperation(id)!);
+  }
+  return Response.json({ ok: true, data: undone, total: undone.length });
+}
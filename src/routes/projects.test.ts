@@ -0,0 +1,25 @@
+import { describe, test, expect, afterAll } from "bun:test";
+import { startTestBridge, stopTestBridge, send } from "../testing";
+
+// ─── Fixture ───
+
+await startTestBridge({ areas: [{ uuid: "area-home", title: "Home" }] });
+
+afterAll(stopTestBridge);
+
+// ─── Create ───
+
+describe("create project", () => {
+  test("the response is the full project, as GET returns it", async () => {
+    const created = await send("POST", "/v1/projects", {
+      title: "Paint the fence",
+      area: "Home",
+      todos: ["Buy paint", "Sand"],
+    });
+    expect(created.status).toBe(201);
+    const { data } = await created.json();
+    expect(data).toEqual((await (await send("GET", `/v1/projects/${data.uuid}`)).json()).data);
+    expect(data).toMatchObject({ title: "Paint the fence", area: "area-home" });
+    expect(data.todos.map((todo: { title: string }) => todo.title)).toEqual(["Buy paint", "Sand"]);
+  });
+});
@@ -1,11 +1,24 @@
 import { getProjects, getProjectByUuid } from "../db/queries";
-import { createProject, completeProject } from "../applescript/executor";
+import { getBackend } from "../backend";
+import { checkProjectPlacement } from "../auth/visibility";
+import { parsePageParams } from "../pagination";
+import { invalidInput, writeFailure } from "./errors";
+import { createdResponse } from "./created";
+import { checkFieldTypes, PROJECT_CREATE_FIELDS } from "./fields";
 import type { CreateProjectRequest } from "../types";
 
-/** GET /v1/projects */
-export function handleGetProjects(): Response {
-  const projects = getProjects();
-  return Response.json({ ok: true, data: projects });
+/** GET /v1/projects?limit=&cursor= */
+export function handleGetProjects(url: URL): Response {
+  const page = parsePageParams(url);
+  if (page instanceof Response) return page;
+
+  const projects = getProjects(page);
+  return Response.json({
+    ok: true,
+    data: projects.items,
+    total: projects.total,
+    nextCursor: projects.nextCursor,
+  });
 }
 
 /** GET /v1/projects/:uuid */
@@ -32,6 +45,9 @@ export async function handleCreateProject(request: Request): Promise<Response> {
     );
   }
 
+  const typeError = checkFieldTypes(body, PROJECT_CREATE_FIELDS);
+  if (typeError) return invalidInput(typeError);
+
   if (!body.title) {
     return Response.json(
       { ok: false, error: "Missing required field: title" },
@@ -39,20 +55,17 @@ export async function handleCreateProject(request: Request): Promise<Response> {
     );
   }
 
+  const placement = checkProjectPlacement(body.area, body.tags ?? []);
+  if (placement) {
+    return Response.json({ ok: false, error: placement.error }, { status: placement.status });
+  }
+
   try {
-    const name = await createProject(body);
-    return Response.json(
-      { ok: true, data: { title: name, message: "Project created" } },
-      { status: 201 }
-    );
+    const uuid = await getBackend().createProject(body);
+    // Read the new project back so the caller gets the same shape as GET /v1/projects/:uuid
+    return await createdResponse(uuid, `/v1/projects/${uuid}`, () => getProjectByUuid(uuid));
   } catch (err) {
-    return Response.json(
-      {
-        ok: false,
-        error: `Failed to create project: ${err instanceof Error ? err.message : String(err)}`,
-      },
-      { status: 500 }
-    );
+    return writeFailure("create project", err);
   }
 }
 
@@ -67,18 +80,12 @@ export async function handleCompleteProject(uuid: string): Promise<Response> {
   }
 
   try {
-    await completeProject(uuid);
+    await getBackend().completeProject(uuid);
     return Response.json({
       ok: true,
       data: { message: `Completed project: ${existing.title}` },
     });
   } catch (err) {
-    return Response.json(
-      {
-        ok: false,
-        error: `Failed to complete project: ${err instanceof Error ? err.message : String(err)}`,
-      },
-      { status: 500 }
-    );
+    return writeFailure("complete project", err);
   }
 }
@@ -0,0 +1,40 @@
+import { getSearchIndex } from "../search";
+import { getVisibleUuids } from "../db/queries";
+import { parsePageParams } from "../pagination";
+import type { SearchKind } from "../types";
+
+const SEARCH_KINDS: SearchKind[] = ["to-do", "project", "area"];
+
+/** GET /v1/search?q=...&kind=to-do,project — ranked search across everything */
+export function handleSearch(url: URL): Response {
+  const query = url.searchParams.get("q");
+  if (!query) {
+    return Response.json(
+      { ok: false, error: "Missing query parameter: q" },
+      { status: 400 }
+    );
+  }
+
+  const kindParam = url.searchParams.get("kind");
+  const kinds = kindParam
+    ? (kindParam.split(",").map((kind) => kind.trim()) as SearchKind[])
+    : undefined;
+  if (kinds?.some((kind) => !SEARCH_KINDS.includes(kind))) {
+    return Response.json(
+      { ok: false, error: `Invalid kind. Valid options: ${SEARCH_KINDS.join(", ")}` },
+      { status: 400 }
+    );
+  }
+
+  const page = parsePageParams(url);
+  if (page instanceof Response) return page;
+
+  const within = getVisibleUuids() ?? undefined;
+  const results = getSearchIndex().search(query, { kinds, within }, page);
+  return Response.json({
+    ok: true,
+    data: results.items,
+    total: results.total,
+    nextCursor: results.nextCursor,
+  });
+}
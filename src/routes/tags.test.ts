@@ -0,0 +1,138 @@
+import { describe, test, expect, afterAll, spyOn } from "bun:test";
+import { startTestBridge, stopTestBridge, send } from "../testing";
+
+// ─── Fixture ───
+
+const backend = await startTestBridge({
+  tags: [
+    { uuid: "tag-home", title: "Home" },
+    { uuid: "tag-errand", title: "Errand" },
+    { uuid: "tag-groceries", title: "Groceries", parent: "tag-errand" },
+    { uuid: "tag-dairy", title: "Dairy", parent: "tag-groceries" },
+  ],
+  tasks: [{ uuid: "todo-milk", title: "Buy milk", tags: ["Dairy", "Home"] }],
+});
+const queries = await import("../db/queries");
+
+afterAll(stopTestBridge);
+
+// ─── Tags ───
+
+describe("tags", () => {
+  test("a tag is created under a parent, with a shortcut", async () => {
+    const created = await send("POST", "/v1/tags", {
+      title: "Hardware",
+      parent: "Errand",
+      shortcut: "h",
+    });
+    expect(created.status).toBe(201);
+    expect((await created.json()).data).toMatchObject({
+      title: "Hardware",
+      shortcut: "h",
+      parent: "tag-errand",
+      parentTitle: "Errand",
+    });
+  });
+
+  test("a tag Things hasn't saved yet is answered 202 with a Location to read it from", async () => {
+    const reads = spyOn(queries, "getTagByTitle").mockImplementation(() => null);
+    let missing: Response;
+    try {
+      missing = await send("POST", "/v1/tags", { title: "Bike & Tools" });
+    } finally {
+      reads.mockRestore();
+    }
+    expect(missing.status).toBe(202);
+    const { data } = await missing.json();
+    expect(Object.keys(data)).toEqual(["uuid"]);
+    const location = missing.headers.get("Location")!;
+    expect(location).toBe("/v1/tags/Bike%20%26%20Tools");
+
+    const saved = await send("GET", location);
+    expect(saved.status).toBe(200);
+    expect((await saved.json()).data).toMatchObject({ uuid: data.uuid, title: "Bike & Tools" });
+  });
+
+  test("creating a tag that exists is a conflict; a missing parent or long shortcut is refused", async () => {
+    const sentBefore = backend.sent.length;
+    const duplicate = await send("POST", "/v1/tags", { title: "Home" });
+    expect(duplicate.status).toBe(409);
+    expect((await duplicate.json()).error).toBe("Tag already exists: Home");
+
+    const orphan = await send("POST", "/v1/tags", { title: "Paint", parent: "No such tag" });
+    expect(orphan.status).toBe(400);
+    expect((await orphan.json()).error).toBe("Parent tag not found: No such tag");
+    expect((await send("POST", "/v1/tags", { title: "Paint", shortcut: "pt" })).status).toBe(400);
+    expect((await send("POST", "/v1/tags", {})).status).toBe(400);
+    expect(backend.sent).toHaveLength(sentBefore);
+  });
+
+  test("a tag is renamed and re-parented, but not into a name that's taken or under itself", async () => {
+    const renamed = await send("PATCH", "/v1/tags/Home", { title: "House", parent: "Errand" });
+    expect(renamed.status).toBe(200);
+    expect((await renamed.json()).data).toMatchObject({
+      uuid: "tag-home",
+      title: "House",
+      parentTitle: "Errand",
+    });
+    expect(queries.getTodoByUuid("todo-milk")?.tags).toContain("House");
+
+    const topLevel = await send("PATCH", "/v1/tags/House", { parent: null, shortcut: null });
+    expect((await topLevel.json()).data).toMatchObject({ parent: null, shortcut: null });
+
+    const sentBefore = backend.sent.length;
+    const taken = await send("PATCH", "/v1/tags/House", { title: "Errand" });
+    expect(taken.status).toBe(409);
+    expect((await taken.json()).error).toBe("Tag already exists: Errand");
+
+    const cycle = await send("PATCH", "/v1/tags/Errand", { parent: "Dairy" });
+    expect(cycle.status).toBe(400);
+    expect((await cycle.json()).error).toBe(
+      "A tag can't be nested under itself or its own descendants"
+    );
+    expect((await send("PATCH", "/v1/tags/Errand", { parent: "Errand" })).status).toBe(400);
+    expect(backend.sent).toHaveLength(sentBefore);
+  });
+
+  test("deleting a tag deletes the tags nested under it and untags their to-dos", async () => {
+    const deleted = await send("DELETE", "/v1/tags/Groceries");
+    expect(deleted.status).toBe(200);
+    expect((await deleted.json()).data).toEqual({
+      message: "Deleted tag: Groceries",
+      deletedTags: ["Groceries", "Dairy"],
+    });
+    expect(queries.getTagByTitle("Dairy")).toBeNull();
+    expect(queries.getTagByTitle("Errand")).not.toBeNull();
+    expect(queries.getTodoByUuid("todo-milk")?.tags).toEqual(["House"]);
+  });
+
+  test("unknown tags are 404", async () => {
+    const sentBefore = backend.sent.length;
+    expect((await send("GET", "/v1/tags/No%20such%20tag")).status).toBe(404);
+    expect((await send("PATCH", "/v1/tags/No%20such%20tag", { title: "x" })).status).toBe(404);
+    expect((await send("DELETE", "/v1/tags/No%20such%20tag")).status).toBe(404);
+    expect(backend.sent).toHaveLength(sentBefore);
+  });
+});
+
+// ─── Tag Names ───
+
+describe("tag names in paths", () => {
+  test("percent-encoded names are decoded", async () => {
+    const response = await send("GET", "/v1/tags/Err%61nd/todos");
+    expect(response.status).toBe(200);
+  });
+
+  test.each([
+    ["GET", "/v1/tags/%E0%A4%A/todos"],
+    ["GET", "/v1/tags/%E0%A4%A"],
+    ["PATCH", "/v1/tags/%E0%A4%A"],
+    ["DELETE", "/v1/tags/%E0%A4%A"],
+  ])("%s %s with a malformed escape is 400 invalid_input", async (method, path) => {
+    const sentBefore = backend.sent.length;
+    const response = await send(method, path, method === "PATCH" ? { title: "x" } : undefined);
+    expect(response.status).toBe(400);
+    expect((await response.json()).code).toBe("invalid_input");
+    expect(backend.sent).toHaveLength(sentBefore);
+  });
+});
@@ -1,19 +1,227 @@
-import { getTags, getAreas, getTodosByTag } from "../db/queries";
+import {
+  getTags,
+  getTagTree,
+  getTagByTitle,
+  getTagDescendants,
+  getTodosByTag,
+} from "../db/queries";
+import { getBackend } from "../backend";
+import { parsePageParams } from "../pagination";
+import { invalidInput, writeFailure } from "./errors";
+import { createdResponse } from "./created";
+import { checkFieldTypes, TAG_CREATE_FIELDS, TAG_UPDATE_FIELDS } from "./fields";
+import type { CreateTagRequest, UpdateTagRequest } from "../types";
 
-/** GET /v1/tags */
-export function handleGetTags(): Response {
-  const tags = getTags();
-  return Response.json({ ok: true, data: tags });
+/** GET /v1/tags?limit=&cursor= or GET /v1/tags?tree=true (the tree isn't paged) */
+export function handleGetTags(url: URL): Response {
+  if (url.searchParams.get("tree") === "true") {
+    return Response.json({ ok: true, data: getTagTree() });
+  }
+
+  const page = parsePageParams(url);
+  if (page instanceof Response) return page;
+
+  const tags = getTags(page);
+  return Response.json({
+    ok: true,
+    data: tags.items,
+    total: tags.total,
+    nextCursor: tags.nextCursor,
+  });
+}
+
+/** A tag name from the path, or a 400 when its percent-encoding is malformed */
+function decodeTagName(tagName: string): string | Response {
+  try {
+    return decodeURIComponent(tagName);
+  } catch {
+    return invalidInput("Tag name is not validly percent-encoded");
+  }
+}
+
+/** GET /v1/tags/:name */
+export function handleGetTag(tagName: string): Response {
+  const title = decodeTagName(tagName);
+  if (title instanceof Response) return title;
+  const tag = getTagByTitle(title);
+  if (!tag) {
+    return Response.json(
+      { ok: false, error: "Tag not found" },
+      { status: 404 }
+    );
+  }
+  return Response.json({ ok: true, data: tag });
+}
+
+/** GET /v1/tags/:name/todos?descendants=true&limit=&cursor= */
+export function handleGetTodosByTag(tagName: string, url: URL): Response {
+  const page = parsePageParams(url);
+  if (page instanceof Response) return page;
+  const title = decodeTagName(tagName);
+  if (title instanceof Response) return title;
+
+  const todos = getTodosByTag(
+    title,
+    { includeDescendants: url.searchParams.get("descendants") === "true" },
+    page
+  );
+  return Response.json({
+    ok: true,
+    data: todos.items,
+    total: todos.total,
+    nextCursor: todos.nextCursor,
+  });
+}
+
+/** Things keyboard shortcuts are a single character */
+function invalidShortcut(shortcut: string | null | undefined): boolean {
+  return typeof shortcut === "string" && [...shortcut].length > 1;
 }
 
-/** GET /v1/areas */
-export function handleGetAreas(): Response {
-  const areas = getAreas();
-  return Response.json({ ok: true, data: areas });
+/** POST /v1/tags — Create a tag, optionally nested under a parent */
+export async function handleCreateTag(request: Request): Promise<Response> {
+  let body: CreateTagRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json(
+      { ok: false, error: "Invalid JSON body" },
+      { status: 400 }
+    );
+  }
+
+  const typeError = checkFieldTypes(body, TAG_CREATE_FIELDS);
+  if (typeError) return invalidInput(typeError);
+
+  if (!body.title) {
+    return Response.json(
+      { ok: false, error: "Missing required field: title" },
+      { status: 400 }
+    );
+  }
+  if (getTagByTitle(body.title)) {
+    return Response.json(
+      { ok: false, error: `Tag already exists: ${body.title}` },
+      { status: 409 }
+    );
+  }
+  if (body.parent && !getTagByTitle(body.parent)) {
+    return Response.json(
+      { ok: false, error: `Parent tag not found: ${body.parent}` },
+      { status: 400 }
+    );
+  }
+  if (invalidShortcut(body.shortcut)) {
+    return Response.json(
+      { ok: false, error: "shortcut must be a single character" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const uuid = await getBackend().createTag(body);
+    // Read the new tag back so the caller gets the same shape as GET /v1/tags/:name
+    const title = body.title;
+    return await createdResponse(uuid, `/v1/tags/${encodeURIComponent(title)}`, () =>
+      getTagByTitle(title)
+    );
+  } catch (err) {
+    return writeFailure("create tag", err);
+  }
 }
 
-/** GET /v1/tags/:name/todos */
-export function handleGetTodosByTag(tagName: string): Response {
-  const todos = getTodosByTag(decodeURIComponent(tagName));
-  return Response.json({ ok: true, data: todos });
+/** PATCH /v1/tags/:name — Rename, re-parent, or change a tag's shortcut */
+export async function handleUpdateTag(
+  tagName: string,
+  request: Request
+): Promise<Response> {
+  let body: UpdateTagRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json(
+      { ok: false, error: "Invalid JSON body" },
+      { status: 400 }
+    );
+  }
+
+  const typeError = checkFieldTypes(body, TAG_UPDATE_FIELDS);
+  if (typeError) return invalidInput(typeError);
+
+  const title = decodeTagName(tagName);
+  if (title instanceof Response) return title;
+  const existing = getTagByTitle(title);
+  if (!existing) {
+    return Response.json(
+      { ok: false, error: "Tag not found" },
+      { status: 404 }
+    );
+  }
+
+  if (body.title && body.title !== existing.title && getTagByTitle(body.title)) {
+    return Response.json(
+      { ok: false, error: `Tag already exists: ${body.title}` },
+      { status: 409 }
+    );
+  }
+  if (body.parent) {
+    if (!getTagByTitle(body.parent)) {
+      return Response.json(
+        { ok: false, error: `Parent tag not found: ${body.parent}` },
+        { status: 400 }
+      );
+    }
+    const descendants = getTagDescendants(existing.title);
+    if (
+      body.parent === existing.title ||
+      descendants.some((tag) => tag.title === body.parent)
+    ) {
+      return Response.json(
+        { ok: false, error: "A tag can't be nested under itself or its own descendants" },
+        { status: 400 }
+      );
+    }
+  }
+  if (invalidShortcut(body.shortcut)) {
+    return Response.json(
+      { ok: false, error: "shortcut must be a single character" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    await getBackend().updateTag(existing.uuid, body);
+    const tag = getTagByTitle(body.title ?? existing.title);
+    return Response.json({ ok: true, data: tag ?? existing });
+  } catch (err) {
+    return writeFailure("update tag", err);
+  }
+}
+
+/** DELETE /v1/tags/:name — Things deletes the nested tags along with it */
+export async function handleDeleteTag(tagName: string): Promise<Response> {
+  const title = decodeTagName(tagName);
+  if (title instanceof Response) return title;
+  const existing = getTagByTitle(title);
+  if (!existing) {
+    return Response.json(
+      { ok: false, error: "Tag not found" },
+      { status: 404 }
+    );
+  }
+
+  const descendants = getTagDescendants(existing.title);
+
+  try {
+    await getBackend().deleteTag(existing.uuid);
+    return Response.json({
+      ok: true,
+      data: {
+        message: `Deleted tag: ${existing.title}`,
+        deletedTags: [existing.title, ...descendants.map((tag) => tag.title)],
+      },
+    });
+  } catch (err) {
+    return writeFailure("delete tag", err);
+  }
 }
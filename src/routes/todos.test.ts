@@ -0,0 +1,130 @@
+import { describe, test, expect, afterAll, spyOn } from "bun:test";
+import { startTestBridge, stopTestBridge, send } from "../testing";
+
+// ─── Fixture ───
+
+const backend = await startTestBridge({
+  tasks: [
+    { uuid: "project-1", title: "Renovation", type: "project" },
+    { uuid: "heading-1", title: "Phase 1", type: "heading", project: "project-1" },
+  ],
+});
+const queries = await import("../db/queries");
+
+afterAll(stopTestBridge);
+
+// ─── Create ───
+
+describe("create to-do", () => {
+  test("checklists and headings are written through the fake backend without THINGS_AUTH_TOKEN", async () => {
+    const sentBefore = backend.sent.length;
+    const created = await send("POST", "/v1/todos", {
+      title: "Pick paint",
+      list: "Renovation",
+      heading: "Phase 1",
+      checklist: ["Samples", "Rollers"],
+    });
+    expect(created.status).toBe(201);
+    const { data } = await created.json();
+
+    expect(backend.sent.slice(sentBefore).map((command) => command.kind)).toEqual([
+      "applescript",
+      "url",
+      "url",
+    ]);
+    const [script, heading, checklist] = backend.sent.slice(sentBefore);
+    expect(script.body).toContain("Pick paint");
+    expect(heading.body).toContain("heading-1");
+    expect(checklist.body).toContain("Samples");
+
+    const todo = queries.getTodoByUuid(data.uuid)!;
+    expect(todo.heading).toBe("heading-1");
+    expect(todo.checklist.map((item) => item.title)).toEqual(["Samples", "Rollers"]);
+  });
+
+  test("the response is the full to-do, as GET returns it", async () => {
+    const created = await send("POST", "/v1/todos", {
+      title: "Order tiles",
+      notes: "Bathroom",
+      list: "Renovation",
+      tags: ["urgent"],
+    });
+    expect(created.status).toBe(201);
+    const { data } = await created.json();
+    expect(data).toEqual((await (await send("GET", `/v1/todos/${data.uuid}`)).json()).data);
+    expect(data).toMatchObject({ notes: "Bathroom", project: "project-1", tags: ["urgent"] });
+  });
+
+  test("a to-do Things hasn't saved yet is read again, then answered 202 with a Location", async () => {
+    const reads = spyOn(queries, "getTodoByUuid");
+    try {
+      // Missing on the first read only
+      reads.mockImplementationOnce(() => null);
+      const late = await send("POST", "/v1/todos", { title: "Measure walls" });
+      expect(late.status).toBe(201);
+      expect((await late.json()).data.title).toBe("Measure walls");
+
+      reads.mockImplementation(() => null);
+      const missing = await send("POST", "/v1/todos", { title: "Measure doors" });
+      expect(missing.status).toBe(202);
+      const { data } = await missing.json();
+      expect(Object.keys(data)).toEqual(["uuid"]);
+      expect(missing.headers.get("Location")).toBe(`/v1/todos/${data.uuid}`);
+      expect(missing.headers.get("Operation-Id")).toBeTruthy();
+    } finally {
+      reads.mockRestore();
+    }
+  });
+
+  test("batch creates can carry checklists too", async () => {
+    const sentBefore = backend.sent.length;
+    const response = await send("POST", "/v1/batch", {
+      operations: [{ op: "create", data: { title: "Buy brushes", checklist: ["Wide", "Narrow"] } }],
+    });
+    const { data } = await response.json();
+    expect(data.results[0].status).toBe("ok");
+    expect(backend.sent.slice(sentBefore).map((command) => command.kind)).toEqual([
+      "applescript",
+      "url",
+    ]);
+    expect(queries.getTodoByUuid(data.results[0].uuid)?.checklist).toHaveLength(2);
+  });
+});
+
+// ─── Validation ───
+
+describe("field types", () => {
+  test.each([
+    [{ title: 5 }, "title must be a string"],
+    [{ title: "x", notes: 7 }, "notes must be a string"],
+    [{ title: "x", tags: "urgent" }, "tags must be an array of strings"],
+    [{ title: "x", checklist: ["ok", 2] }, "checklist must be an array of strings"],
+  ])("POST /v1/todos rejects %j with 400 invalid_input", async (body, error) => {
+    const sentBefore = backend.sent.length;
+    const response = await send("POST", "/v1/todos", body);
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ ok: false, error, code: "invalid_input" });
+    expect(backend.sent).toHaveLength(sentBefore);
+  });
+
+  test("PATCH /v1/todos/:uuid and batch operations check types too", async () => {
+    const created = await (await send("POST", "/v1/todos", { title: "Sand walls" })).json();
+    const patched = await send("PATCH", `/v1/todos/${created.data.uuid}`, { when: 3 });
+    expect(patched.status).toBe(400);
+    expect((await patched.json()).code).toBe("invalid_input");
+
+    const sentBefore = backend.sent.length;
+    const batch = await send("POST", "/v1/batch", {
+      operations: [
+        { op: "create", data: { title: "x", notes: 7 } },
+        { op: "update", uuid: created.data.uuid, data: { tags: "urgent" } },
+      ],
+    });
+    const { data } = await batch.json();
+    expect(data.results.map((r: { error: string }) => r.error)).toEqual([
+      "data.notes must be a string",
+      "data.tags must be an array of strings",
+    ]);
+    expect(backend.sent).toHaveLength(sentBefore);
+  });
+});
@@ -2,27 +2,31 @@ import {
   getTodosByList,
   getTodoByUuid,
   searchTodos,
+  filterTodos,
+  findHeading,
 } from "../db/queries";
-import {
-  createTodo,
-  completeTodo,
-  cancelTodo,
-  deleteTodo,
-  updateTodo,
-} from "../applescript/executor";
-import type { ThingsList, CreateTodoRequest, UpdateTodoRequest } from "../types";
-
-const VALID_LISTS: ThingsList[] = [
-  "inbox",
-  "today",
-  "upcoming",
-  "anytime",
-  "someday",
-  "logbook",
-];
-
-/** GET /v1/todos?list=today or GET /v1/todos/search?q=... */
+import { parseTodoFilter, THINGS_LISTS } from "../db/filters";
+import { checkTodoPlacement } from "../auth/visibility";
+import { getBackend } from "../backend";
+import { parsePageParams } from "../pagination";
+import { invalidInput, writeFailure } from "./errors";
+import { createdResponse } from "./created";
+import { checkFieldTypes, MOVE_FIELDS, TODO_CREATE_FIELDS, TODO_UPDATE_FIELDS } from "./fields";
+import type {
+  ThingsList,
+  CreateTodoRequest,
+  UpdateTodoRequest,
+  MoveTodoRequest,
+} from "../types";
+
+/**
+ * GET /v1/todos?list=today, GET /v1/todos?tags=...&area=... (filters), or
+ * GET /v1/todos/search?q=... (all paged)
+ */
 export function handleGetTodos(url: URL): Response {
+  const page = parsePageParams(url);
+  if (page instanceof Response) return page;
+
   // Search
   const searchQuery = url.searchParams.get("q");
   if (url.pathname.endsWith("/search")) {
@@ -32,24 +36,49 @@ export function handleGetTodos(url: URL): Response {
         { status: 400 }
       );
     }
-    const results = searchTodos(searchQuery);
-    return Response.json({ ok: true, data: results });
+    const results = searchTodos(searchQuery, page);
+    return Response.json({
+      ok: true,
+      data: results.items,
+      total: results.total,
+      nextCursor: results.nextCursor,
+    });
+  }
+
+  // Filters — `list` joins in as `inList` when combined with any of them
+  const filter = parseTodoFilter(url.searchParams);
+  if (typeof filter === "string") {
+    return Response.json({ ok: false, error: filter }, { status: 400 });
+  }
+  if (filter) {
+    const results = filterTodos(filter, page);
+    return Response.json({
+      ok: true,
+      data: results.items,
+      total: results.total,
+      nextCursor: results.nextCursor,
+    });
   }
 
   // List view
   const list = (url.searchParams.get("list") ?? "today") as ThingsList;
-  if (!VALID_LISTS.includes(list)) {
+  if (!THINGS_LISTS.includes(list)) {
     return Response.json(
       {
         ok: false,
-        error: `Invalid list. Valid options: ${VALID_LISTS.join(", ")}`,
+        error: `Invalid list. Valid options: ${THINGS_LISTS.join(", ")}`,
       },
       { status: 400 }
     );
   }
 
-  const todos = getTodosByList(list);
-  return Response.json({ ok: true, data: todos });
+  const todos = getTodosByList(list, page);
+  return Response.json({
+    ok: true,
+    data: todos.items,
+    total: todos.total,
+    nextCursor: todos.nextCursor,
+  });
 }
 
 /** GET /v1/todos/:uuid */
@@ -76,6 +105,9 @@ export async function handleCreateTodo(request: Request): Promise<Response> {
     );
   }
 
+  const typeError = checkFieldTypes(body, TODO_CREATE_FIELDS);
+  if (typeError) return invalidInput(typeError);
+
   if (!body.title) {
     return Response.json(
       { ok: false, error: "Missing required field: title" },
@@ -83,21 +115,41 @@ export async function handleCreateTodo(request: Request): Promise<Response> {
     );
   }
 
-  try {
-    const name = await createTodo(body);
+  // Refuse up front rather than creating the to-do without its checklist/heading
+  const writesChecklist =
+    (body.checklist && body.checklist.length > 0) || body.heading;
+  if (writesChecklist && !getBackend().canWriteChecklists) {
     return Response.json(
-      { ok: true, data: { title: name, message: "To-do created" } },
-      { status: 201 }
+      {
+        ok: false,
+        error: "Checklist items and headings require THINGS_AUTH_TOKEN to be configured",
+      },
+      { status: 400 }
     );
-  } catch (err) {
+  }
+
+  if (body.heading && !(body.list && findHeading(body.list, body.heading))) {
     return Response.json(
       {
         ok: false,
-        error: `Failed to create to-do: ${err instanceof Error ? err.message : String(err)}`,
+        error: `Heading "${body.heading}" not found in project "${body.list ?? ""}"`,
       },
-      { status: 500 }
+      { status: 400 }
     );
   }
+
+  const placement = checkTodoPlacement(body.list, body.tags ?? []);
+  if (placement) {
+    return Response.json({ ok: false, error: placement.error }, { status: placement.status });
+  }
+
+  try {
+    const uuid = await getBackend().createTodo(body);
+    // Read the new to-do back so the caller gets the same shape as GET /v1/todos/:uuid
+    return await createdResponse(uuid, `/v1/todos/${uuid}`, () => getTodoByUuid(uuid));
+  } catch (err) {
+    return writeFailure("create to-do", err);
+  }
 }
 
 /** PATCH /v1/todos/:uuid — Update a to-do */
@@ -115,6 +167,9 @@ export async function handleUpdateTodo(
     );
   }
 
+  const typeError = checkFieldTypes(body, TODO_UPDATE_FIELDS);
+  if (typeError) return invalidInput(typeError);
+
   // Verify to-do exists
   const existing = getTodoByUuid(uuid);
   if (!existing) {
@@ -124,17 +179,18 @@ export async function handleUpdateTodo(
     );
   }
 
+  if (body.tags !== undefined) {
+    const placement = checkTodoPlacement(undefined, body.tags, existing);
+    if (placement) {
+      return Response.json({ ok: false, error: placement.error }, { status: placement.status });
+    }
+  }
+
   try {
-    await updateTodo(uuid, body);
+    await getBackend().updateTodo(uuid, body);
     return Response.json({ ok: true, data: { message: "To-do updated" } });
   } catch (err) {
-    return Response.json(
-      {
-        ok: false,
-        error: `Failed to update to-do: ${err instanceof Error ? err.message : String(err)}`,
-      },
-      { status: 500 }
-    );
+    return writeFailure("update to-do", err);
   }
 }
 
@@ -149,19 +205,13 @@ export async function handleCompleteTodo(uuid: string): Promise<Response> {
   }
 
   try {
-    await completeTodo(uuid);
+    await getBackend().completeTodo(uuid);
     return Response.json({
       ok: true,
       data: { message: `Completed: ${existing.title}` },
     });
   } catch (err) {
-    return Response.json(
-      {
-        ok: false,
-        error: `Failed to complete to-do: ${err instanceof Error ? err.message : String(err)}`,
-      },
-      { status: 500 }
-    );
+    return writeFailure("complete to-do", err);
   }
 }
 
@@ -176,19 +226,13 @@ export async function handleCancelTodo(uuid: string): Promise<Response> {
   }
 
   try {
-    await cancelTodo(uuid);
+    await getBackend().cancelTodo(uuid);
     return Response.json({
       ok: true,
       data: { message: `Canceled: ${existing.title}` },
     });
   } catch (err) {
-    return Response.json(
-      {
-        ok: false,
-        error: `Failed to cancel to-do: ${err instanceof Error ? err.message : String(err)}`,
-      },
-      { status: 500 }
-    );
+    return writeFailure("cancel to-do", err);
   }
 }
 
@@ -203,18 +247,61 @@ export async function handleDeleteTodo(uuid: string): Promise<Response> {
   }
 
   try {
-    await deleteTodo(uuid);
+    await getBackend().deleteTodo(uuid);
     return Response.json({
       ok: true,
       data: { message: `Deleted: ${existing.title}` },
     });
   } catch (err) {
+    return writeFailure("delete to-do", err);
+  }
+}
+
+/** POST /v1/todos/:uuid/move — Move to a built-in list or a project */
+export async function handleMoveTodo(
+  uuid: string,
+  request: Request
+): Promise<Response> {
+  let body: MoveTodoRequest;
+  try {
+    body = await request.json();
+  } catch {
     return Response.json(
-      {
-        ok: false,
-        error: `Failed to delete to-do: ${err instanceof Error ? err.message : String(err)}`,
-      },
-      { status: 500 }
+      { ok: false, error: "Invalid JSON body" },
+      { status: 400 }
+    );
+  }
+
+  const typeError = checkFieldTypes(body, MOVE_FIELDS);
+  if (typeError) return invalidInput(typeError);
+
+  if (!body.list) {
+    return Response.json(
+      { ok: false, error: "Missing required field: list" },
+      { status: 400 }
     );
   }
+
+  const existing = getTodoByUuid(uuid);
+  if (!existing) {
+    return Response.json(
+      { ok: false, error: "To-do not found" },
+      { status: 404 }
+    );
+  }
+
+  const placement = checkTodoPlacement(body.list, existing.tags, existing);
+  if (placement) {
+    return Response.json({ ok: false, error: placement.error }, { status: placement.status });
+  }
+
+  try {
+    await getBackend().moveTodo(uuid, body.list);
+    return Response.json({
+      ok: true,
+      data: { message: `Moved: ${existing.title} → ${body.list}` },
+    });
+  } catch (err) {
+    return writeFailure("move to-do", err);
+  }
 }
@@ -0,0 +1,142 @@
+import {
+  listTokens,
+  getToken,
+  getTokenByName,
+  createToken,
+  deleteToken,
+  isRestricted,
+  ROOT_TOKEN,
+  TOKEN_SCOPES,
+} from "../auth/tokens";
+import { parsePageParams } from "../pagination";
+import { invalidInput } from "./errors";
+import { isObject } from "./fields";
+import type { CreateTokenRequest, TokenScope } from "../types";
+
+// ─── Validation ───
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === "string");
+}
+
+/** Check a new token's fields; returns an error message */
+function validateToken(body: Required<CreateTokenRequest>): string | null {
+  if (typeof body.name !== "string" || body.name.length > 100) {
+    return "name must be a string of up to 100 characters";
+  }
+  if (body.name === ROOT_TOKEN.name) {
+    return `${ROOT_TOKEN.name} is reserved`;
+  }
+  if (!isStringArray(body.scopes) || body.scopes.length === 0) {
+    return "scopes must be a non-empty array";
+  }
+  const unknown = body.scopes.find((scope) => !TOKEN_SCOPES.includes(scope as TokenScope));
+  if (unknown !== undefined) {
+    return `Unknown scope: ${unknown}. Valid options: ${TOKEN_SCOPES.join(", ")}`;
+  }
+  for (const field of ["areas", "excludeAreas", "tags", "excludeTags"] as const) {
+    if (!isStringArray(body[field])) {
+      return `${field} must be an array of strings`;
+    }
+  }
+  if (typeof body.rateLimits !== "object" || body.rateLimits === null) {
+    return "rateLimits must be an object";
+  }
+  for (const [kind, limit] of Object.entries(body.rateLimits)) {
+    if (kind !== "reads" && kind !== "writes") {
+      return `Unknown rate limit: ${kind}. Valid options: reads, writes`;
+    }
+    if (!Number.isInteger(limit) || (limit as number) < 0) {
+      return `rateLimits.${kind} must be a whole number of requests per minute (0: unlimited)`;
+    }
+  }
+  // An admin can mint tokens and see every webhook event — no hiding from it
+  if (body.scopes.includes("admin") && isRestricted(body)) {
+    return "A token limited to areas or tags can't have the admin scope";
+  }
+  return null;
+}
+
+function notFound(id: string): Response {
+  return Response.json(
+    { ok: false, error: `Token not found: ${id}` },
+    { status: 404 }
+  );
+}
+
+// ─── Handlers ───
+
+/** GET /v1/tokens?limit=&cursor= — Registered tokens, without their secrets */
+export function handleGetTokens(url: URL): Response {
+  const page = parsePageParams(url);
+  if (page instanceof Response) return page;
+
+  const tokens = listTokens(page);
+  return Response.json({
+    ok: true,
+    data: tokens.items,
+    total: tokens.total,
+    nextCursor: tokens.nextCursor,
+  });
+}
+
+/** GET /v1/tokens/:id */
+export function handleGetToken(id: string): Response {
+  const token = getToken(id);
+  if (!token) return notFound(id);
+  return Response.json({ ok: true, data: token });
+}
+
+/** POST /v1/tokens — Create a token; the response is the only time its secret is shown */
+export async function handleCreateToken(request: Request): Promise<Response> {
+  let body: CreateTokenRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json(
+      { ok: false, error: "Invalid JSON body" },
+      { status: 400 }
+    );
+  }
+
+  if (!isObject(body)) return invalidInput("Request body must be a JSON object");
+
+  if (!body.name) {
+    return Response.json(
+      { ok: false, error: "Missing required field: name" },
+      { status: 400 }
+    );
+  }
+  if (body.scopes === undefined) {
+    return Response.json(
+      { ok: false, error: "Missing required field: scopes" },
+      { status: 400 }
+    );
+  }
+  const invalid = validateToken({
+    ...body,
+    areas: body.areas ?? [],
+    excludeAreas: body.excludeAreas ?? [],
+    tags: body.tags ?? [],
+    excludeTags: body.excludeTags ?? [],
+    rateLimits: body.rateLimits ?? {},
+  });
+  if (invalid) {
+    return Response.json({ ok: false, error: invalid }, { status: 400 });
+  }
+  if (getTokenByName(body.name)) {
+    return Response.json(
+      { ok: false, error: `Token name already in use: ${body.name}` },
+      { status: 409 }
+    );
+  }
+
+  const { token, secret } = createToken(body);
+  return Response.json({ ok: true, data: { ...token, secret } }, { status: 201 });
+}
+
+/** DELETE /v1/tokens/:id — Revoke a token */
+export function handleDeleteToken(id: string): Response {
+  if (!deleteToken(id)) return notFound(id);
+  return Response.json({ ok: true, data: { message: `Revoked token: ${id}` } });
+}
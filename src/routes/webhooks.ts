@@ -0,0 +1,181 @@
+import {
+  listWebhooks,
+  getWebhook,
+  createWebhook,
+  updateWebhook,
+  deleteWebhook,
+  getDeliveries,
+  publicWebhook,
+} from "../webhooks/store";
+import { pingWebhook, syncWebhookListener } from "../webhooks/dispatcher";
+import { EVENT_TYPES } from "../state/events";
+import { parsePageParams } from "../pagination";
+import { invalidInput } from "./errors";
+import { checkFieldTypes, WEBHOOK_FIELDS } from "./fields";
+import type { CreateWebhookRequest, UpdateWebhookRequest } from "../types";
+
+// ─── Validation ───
+
+const EVENT_PREFIXES = new Set(EVENT_TYPES.map((type) => type.split(".")[0]));
+
+function isHttpUrl(value: unknown): boolean {
+  if (typeof value !== "string") return false;
+  try {
+    const { protocol } = new URL(value);
+    return protocol === "http:" || protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check the fields shared by create and update, once their types are known
+ * to be right; returns an error message
+ */
+function validateWebhookFields(body: UpdateWebhookRequest): string | null {
+  if (body.url !== undefined && !isHttpUrl(body.url)) {
+    return "url must be an http(s) URL";
+  }
+  const unknown = body.events?.find((pattern) =>
+    pattern.endsWith(".*")
+      ? !EVENT_PREFIXES.has(pattern.slice(0, -2))
+      : !EVENT_TYPES.includes(pattern as (typeof EVENT_TYPES)[number])
+  );
+  if (unknown !== undefined) {
+    return `Unknown event type: ${unknown}. Valid options: ${EVENT_TYPES.join(", ")}, or a prefix like todo.*`;
+  }
+  if (body.active !== undefined && typeof body.active !== "boolean") {
+    return "active must be true or false";
+  }
+  return null;
+}
+
+function notFound(id: string): Response {
+  return Response.json(
+    { ok: false, error: `Webhook not found: ${id}` },
+    { status: 404 }
+  );
+}
+
+// ─── Handlers ───
+
+/** GET /v1/webhooks?limit=&cursor= — Registrations, without their secrets */
+export function handleGetWebhooks(url: URL): Response {
+  const page = parsePageParams(url);
+  if (page instanceof Response) return page;
+
+  const webhooks = listWebhooks(page);
+  return Response.json({
+    ok: true,
+    data: webhooks.items.map(publicWebhook),
+    total: webhooks.total,
+    nextCursor: webhooks.nextCursor,
+  });
+}
+
+/** GET /v1/webhooks/:id */
+export function handleGetWebhook(id: string): Response {
+  const webhook = getWebhook(id);
+  if (!webhook) return notFound(id);
+  return Response.json({ ok: true, data: publicWebhook(webhook) });
+}
+
+/** POST /v1/webhooks — Register a URL; the response is the only time the secret is shown */
+export async function handleCreateWebhook(request: Request): Promise<Response> {
+  let body: CreateWebhookRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json(
+      { ok: false, error: "Invalid JSON body" },
+      { status: 400 }
+    );
+  }
+
+  const typeError = checkFieldTypes(body, WEBHOOK_FIELDS);
+  if (typeError) return invalidInput(typeError);
+
+  if (!body.url) {
+    return Response.json(
+      { ok: false, error: "Missing required field: url" },
+      { status: 400 }
+    );
+  }
+  const invalid = validateWebhookFields(body);
+  if (invalid) {
+    return Response.json({ ok: false, error: invalid }, { status: 400 });
+  }
+  if (body.secret !== undefined && (typeof body.secret !== "string" || body.secret.length < 16)) {
+    return Response.json(
+      { ok: false, error: "secret must be at least 16 characters" },
+      { status: 400 }
+    );
+  }
+
+  const webhook = createWebhook(body);
+  syncWebhookListener();
+  return Response.json({ ok: true, data: webhook }, { status: 201 });
+}
+
+/** PATCH /v1/webhooks/:id — Change the URL or filters, or pause with active: false */
+export async function handleUpdateWebhook(
+  id: string,
+  request: Request
+): Promise<Response> {
+  let body: UpdateWebhookRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json(
+      { ok: false, error: "Invalid JSON body" },
+      { status: 400 }
+    );
+  }
+
+  const typeError = checkFieldTypes(body, WEBHOOK_FIELDS);
+  if (typeError) return invalidInput(typeError);
+
+  const invalid = validateWebhookFields(body);
+  if (invalid) {
+    return Response.json({ ok: false, error: invalid }, { status: 400 });
+  }
+
+  const webhook = updateWebhook(id, body);
+  if (!webhook) return notFound(id);
+  syncWebhookListener();
+  return Response.json({ ok: true, data: publicWebhook(webhook) });
+}
+
+/** DELETE /v1/webhooks/:id — Remove a registration and its delivery log */
+export function handleDeleteWebhook(id: string): Response {
+  if (!deleteWebhook(id)) return notFound(id);
+  syncWebhookListener();
+  return Response.json({ ok: true, data: { message: `Deleted webhook: ${id}` } });
+}
+
+/** GET /v1/webhooks/:id/deliveries?limit=&cursor= — Delivery log, newest first */
+export function handleGetWebhookDeliveries(id: string, url: URL): Response {
+  if (!getWebhook(id)) return notFound(id);
+
+  const page = parsePageParams(url);
+  if (page instanceof Response) return page;
+
+  const deliveries = getDeliveries(id, page);
+  return Response.json({
+    ok: true,
+    data: deliveries.items,
+    total: deliveries.total,
+    nextCursor: deliveries.nextCursor,
+  });
+}
+
+/** POST /v1/webhooks/:id/ping — Send a test delivery, ignoring filters */
+export function handlePingWebhook(id: string): Response {
+  const webhook = getWebhook(id);
+  if (!webhook) return notFound(id);
+  const deliveryId = pingWebhook(webhook);
+  return Response.json(
+    { ok: true, data: { message: "Ping queued", deliveryId } },
+    { status: 202 }
+  );
+}
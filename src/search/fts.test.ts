@@ -0,0 +1,92 @@
+import { describe, test, expect, afterAll } from "bun:test";
+import { Database } from "bun:sqlite";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { buildThingsFixture } from "../db/fixture";
+import { createSearchIndex } from "./fts";
+
+// ─── Fixture ───
+
+const dir = mkdtempSync(join(tmpdir(), "things-bridge-search-"));
+const thingsPath = join(dir, "main.sqlite");
+
+buildThingsFixture(thingsPath, {
+  areas: [{ uuid: "area-health", title: "Health" }],
+  tasks: [
+    { uuid: "dentist-title", title: "Call the dentist", area: "area-health" },
+    { uuid: "dentist-notes", title: "Insurance paperwork", notes: "Claim for the dentist visit" },
+    {
+      uuid: "dentist-checklist",
+      title: "Errands",
+      checklist: [{ title: "Pick up prescription" }, { title: "Drop form at dentist" }],
+    },
+    { uuid: "dentist-done", title: "Book dentist", status: "completed" },
+    { uuid: "dentist-trashed", title: "Dentist (old)", trashed: true },
+    { uuid: "project-clinic", title: "Clinic café move", type: "project", area: "area-health" },
+    { uuid: "clinic-todo", title: "Pack boxes", project: "project-clinic" },
+  ],
+});
+
+const index = createSearchIndex(thingsPath, join(dir, "data", "search.sqlite"));
+
+afterAll(() => {
+  index.close();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+const uuids = (query: string, kinds?: ("to-do" | "project" | "area")[]) =>
+  index.search(query, { kinds }).items.map((hit) => hit.uuid);
+
+// ─── Matching & Ranking ───
+
+describe("search", () => {
+  test("title hits outrank notes and checklist hits; closed items rank last", () => {
+    expect(uuids("dentist")).toEqual([
+      "dentist-title",
+      "dentist-checklist",
+      "dentist-notes",
+      "dentist-done",
+    ]);
+  });
+
+  test("natural-language queries drop filler words", () => {
+    expect(uuids("find that thing about the dentist")[0]).toBe("dentist-title");
+  });
+
+  test("prefixes, misspellings and accents still match", () => {
+    expect(uuids("dent")).toContain("dentist-title");
+    expect(uuids("dentst")).toContain("dentist-title");
+    expect(uuids("cafe")[0]).toBe("project-clinic");
+  });
+
+  test("projects and areas are searchable, and match through context", () => {
+    expect(uuids("health", ["area"])).toEqual(["area-health"]);
+    expect(uuids("clinic")).toEqual(["project-clinic", "clinic-todo"]);
+  });
+
+  test("hits carry snippets and match reasons", () => {
+    const [hit] = index.search("dentst", { kinds: ["to-do"] }).items;
+    expect(hit.snippets.title).toBe("Call the **dentist**");
+    expect(hit.reasons).toEqual(['title matches "dentist" (fuzzy for "dentst")']);
+    expect(hit.context).toBe("Health");
+    expect(hit.status).toBe("incomplete");
+  });
+
+  test("results page like every other collection", () => {
+    const first = index.search("dentist", {}, { limit: 2, after: null });
+    expect(first.total).toBe(4);
+    expect(first.items).toHaveLength(2);
+    expect(first.nextCursor).not.toBeNull();
+  });
+
+  test("the index rebuilds when the Things database changes", () => {
+    expect(uuids("orthodontist")).toEqual([]);
+    const things = new Database(thingsPath);
+    things
+      .query(`INSERT INTO TMTask (uuid, title, type, status, trashed) VALUES (?, ?, 0, 0, 0)`)
+      .run("ortho", "See the orthodontist");
+    things.close();
+    expect(uuids("orthodontist")).toEqual(["ortho"]);
+  });
+});
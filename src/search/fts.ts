@@ -0,0 +1,369 @@
+import { Database, type SQLQueryBindings } from "bun:sqlite";
+import { mkdirSync } from "fs";
+import { dirname } from "path";
+import { queryPage } from "../pagination";
+import { databaseFingerprint } from "../db/fingerprint";
+import type {
+  Page,
+  PageRequest,
+  SearchField,
+  SearchHit,
+  SearchKind,
+  Todo,
+} from "../types";
+
+// ─── Index Schema ───
+
+/** Bump when the schema or tokenizer changes — the index is rebuilt from scratch */
+const INDEX_VERSION = 1;
+
+const INDEX_SCHEMA = `
+  CREATE TABLE meta (key TEXT PRIMARY KEY, value TEXT);
+  CREATE VIRTUAL TABLE docs USING fts5(
+    uuid UNINDEXED, kind UNINDEXED, status UNINDEXED,
+    title, notes, checklist, tags, context,
+    tokenize = 'unicode61 remove_diacritics 2',
+    prefix = '2 3'
+  );
+  CREATE VIRTUAL TABLE vocab USING fts5vocab(docs, row);
+`;
+
+/** Searchable columns, in table order after the three UNINDEXED ones */
+const FIELDS: SearchField[] = ["title", "notes", "checklist", "tags", "context"];
+
+/** bm25 column weights: a title hit beats a notes hit beats a context hit */
+const WEIGHTS = "0, 0, 0, 10, 2, 3, 4, 1";
+
+/** Completed and canceled items rank below open ones */
+const CLOSED_PENALTY = 0.5;
+
+/** Highlight markers inside SQLite; swapped for ** on the way out */
+const MARK_OPEN = "\u0002";
+const MARK_CLOSE = "\u0003";
+
+/** Filler words dropped from natural-language queries ("find that thing about ...") */
+const STOPWORDS = new Set([
+  "a", "about", "an", "and", "any", "are", "at", "be", "by", "find", "for",
+  "from", "how", "i", "in", "is", "it", "me", "my", "of", "on", "or", "so",
+  "that", "the", "thing", "things", "this", "to", "was", "what", "where",
+  "which", "with",
+]);
+
+const STATUS_NAMES: Record<number, Todo["status"]> = {
+  0: "incomplete",
+  2: "canceled",
+  3: "completed",
+};
+
+// ─── Query Parsing ───
+
+/** Lowercase and strip diacritics, like the unicode61 tokenizer */
+function normalize(text: string): string {
+  return text.normalize("NFKD").replace(/\p{M}/gu, "").toLowerCase();
+}
+
+function tokenize(query: string): string[] {
+  const tokens = normalize(query).match(/[\p{L}\p{N}]+/gu) ?? [];
+  const meaningful = tokens.filter((token) => !STOPWORDS.has(token));
+  return [...new Set(meaningful.length > 0 ? meaningful : tokens)];
+}
+
+/** Levenshtein distance, giving up once it exceeds `max` */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function quote(term: string): string {
+  return `"${term.replace(/"/g, '""')}"`;
+}
+
+// ─── Search Index ───
+
+export interface SearchIndex {
+  /** Rebuild the index if the Things database changed since the last build */
+  refresh(): void;
+  search(
+    query: string,
+    options?: { kinds?: SearchKind[]; within?: string[] },
+    page?: PageRequest
+  ): Page<SearchHit>;
+  close(): void;
+}
+
+interface IndexRow {
+  uuid: string;
+  kind: SearchKind;
+  status: string;
+  title: string;
+  context: string;
+  rank: number;
+  title_mark: string;
+  notes_mark: string;
+  checklist_mark: string;
+  tags_mark: string;
+  context_mark: string;
+}
+
+/**
+ * Open (or create) a full-text index over the Things database at
+ * `thingsDbPath`, kept in its own SQLite file at `indexPath`. The index is
+ * rebuilt from the Things database whenever that file changes, checked
+ * lazily before each search — Things itself is never written to.
+ */
+export function createSearchIndex(thingsDbPath: string, indexPath: string): SearchIndex {
+  mkdirSync(dirname(indexPath), { recursive: true });
+  const db = new Database(indexPath, { create: true });
+  db.exec("PRAGMA journal_mode = WAL");
+
+  const { user_version } = db
+    .query<{ user_version: number }, []>("PRAGMA user_version")
+    .get()!;
+  if (user_version !== INDEX_VERSION) {
+    db.exec(`DROP TABLE IF EXISTS vocab; DROP TABLE IF EXISTS docs; DROP TABLE IF EXISTS meta;`);
+    db.exec(INDEX_SCHEMA);
+    db.exec(`PRAGMA user_version = ${INDEX_VERSION}`);
+  }
+
+  let things: Database | null = null;
+
+  const fingerprint = () => databaseFingerprint(thingsDbPath);
+
+  function rebuild(): void {
+    things ??= new Database(thingsDbPath, { readonly: true });
+
+    const tasks = things
+      .query<
+        {
+          uuid: string;
+          type: number;
+          status: number;
+          title: string | null;
+          notes: string | null;
+          checklist: string | null;
+          tags: string | null;
+          areaTitle: string | null;
+          projectTitle: string | null;
+          headingTitle: string | null;
+        },
+        []
+      >(
+        `SELECT t.uuid, t.type, t.status, t.title, t.notes,
+           (SELECT group_concat(c.title, ' · ') FROM TMChecklistItem c WHERE c.task = t.uuid) AS checklist,
+           (SELECT group_concat(tag.title, ' ') FROM TMTaskTag tt
+            JOIN TMTag tag ON tt.tags = tag.uuid WHERE tt.tasks = t.uuid) AS tags,
+           a.title AS areaTitle, p.title AS projectTitle, h.title AS headingTitle
+         FROM TMTask t
+         LEFT JOIN TMTask h ON t.heading = h.uuid
+         LEFT JOIN TMTask p ON COALESCE(t.project, h.project) = p.uuid
+         LEFT JOIN TMArea a ON COALESCE(t.area, p.area) = a.uuid
+         WHERE t.trashed = 0 AND t.type IN (0, 1)`
+      )
+      .all();
+
+    const areas = things
+      .query<{ uuid: string; title: string | null; tags: string | null }, []>(
+        `SELECT a.uuid, a.title,
+           (SELECT group_concat(tag.title, ' ') FROM TMAreaTag at
+            JOIN TMTag tag ON at.tags = tag.uuid WHERE at.areas = a.uuid) AS tags
+         FROM TMArea a`
+      )
+      .all();
+
+    const insert = db.query(
+      `INSERT INTO docs (uuid, kind, status, title, notes, checklist, tags, context)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    );
+
+    db.transaction(() => {
+      db.exec("DELETE FROM docs");
+      for (const task of tasks) {
+        const context = [task.areaTitle, task.projectTitle, task.headingTitle]
+          .filter(Boolean)
+          .join(" › ");
+        insert.run(
+          task.uuid,
+          task.type === 1 ? "project" : "to-do",
+          STATUS_NAMES[task.status] ?? "incomplete",
+          task.title ?? "",
+          task.notes ?? "",
+          task.checklist ?? "",
+          task.tags ?? "",
+          context
+        );
+      }
+      for (const area of areas) {
+        insert.run(area.uuid, "area", "", area.title ?? "", "", "", area.tags ?? "", "");
+      }
+      db.query(`INSERT OR REPLACE INTO meta (key, value) VALUES ('fingerprint', ?)`).run(
+        fingerprint()
+      );
+    })();
+  }
+
+  function refresh(): void {
+    const built = db
+      .query<{ value: string }, []>(`SELECT value FROM meta WHERE key = 'fingerprint'`)
+      .get();
+    if (built?.value !== fingerprint()) rebuild();
+  }
+
+  /**
+   * Expand each query token into a prefix match plus close spellings from
+   * the index vocabulary. Returns the FTS5 expression and, for reasons, which
+   * indexed terms were fuzzy stand-ins for which tokens.
+   */
+  function expand(tokens: string[]): { match: string; fuzzy: Map<string, string> } {
+    const terms: string[] = [];
+    const fuzzy = new Map<string, string>();
+
+    for (const token of tokens) {
+      terms.push(token.length > 1 ? `${quote(token)}*` : quote(token));
+      if (token.length < 4) continue;
+
+      const maxDistance = token.length >= 8 ? 2 : 1;
+      const candidates = db
+        .query<{ term: string }, [number, number]>(
+          `SELECT term FROM vocab WHERE length(term) BETWEEN ? AND ? ORDER BY doc DESC`
+        )
+        .all(token.length - maxDistance, token.length + maxDistance);
+      let added = 0;
+      for (const { term } of candidates) {
+        if (added === 5) break;
+        if (term.startsWith(token) || fuzzy.has(term)) continue;
+        if (editDistance(token, term, maxDistance) <= maxDistance) {
+          terms.push(quote(term));
+          fuzzy.set(term, token);
+          added++;
+        }
+      }
+    }
+
+    return { match: terms.join(" OR "), fuzzy };
+  }
+
+  /** Explain a hit: which field matched which term, and how */
+  function reasonsFor(
+    marked: Record<SearchField, string>,
+    tokens: string[],
+    fuzzy: Map<string, string>
+  ): string[] {
+    const reasons = new Set<string>();
+    const markedTerm = new RegExp(`${MARK_OPEN}(.*?)${MARK_CLOSE}`, "g");
+    for (const field of FIELDS) {
+      for (const [, text] of marked[field].matchAll(markedTerm)) {
+        const term = normalize(text);
+        if (tokens.includes(term)) {
+          reasons.add(`${field} matches "${term}"`);
+        } else if (fuzzy.has(term)) {
+          reasons.add(`${field} matches "${term}" (fuzzy for "${fuzzy.get(term)}")`);
+        } else {
+          const prefix = tokens.find((token) => term.startsWith(token));
+          reasons.add(
+            prefix
+              ? `${field} matches "${term}" (prefix "${prefix}")`
+              : `${field} matches "${term}"`
+          );
+        }
+      }
+    }
+    return [...reasons];
+  }
+
+  function search(
+    query: string,
+    options: { kinds?: SearchKind[]; within?: string[] } = {},
+    page?: PageRequest
+  ): Page<SearchHit> {
+    refresh();
+
+    const tokens = tokenize(query);
+    if (tokens.length === 0) return { items: [], total: 0, nextCursor: null };
+    const { match, fuzzy } = expand(tokens);
+
+    const params: SQLQueryBindings[] = [match];
+    let where = `docs MATCH ?`;
+    if (options.kinds && options.kinds.length > 0) {
+      where += ` AND kind IN (${options.kinds.map(() => "?").join(", ")})`;
+      params.push(...options.kinds);
+    }
+    if (options.within) {
+      // Only these UUIDs (what a restricted token may see)
+      where += ` AND uuid IN (SELECT value FROM json_each(?))`;
+      params.push(JSON.stringify(options.within));
+    }
+
+    const marks = FIELDS.map((field, i) =>
+      field === "title"
+        ? `highlight(docs, ${i + 3}, char(2), char(3)) AS title_mark`
+        : `snippet(docs, ${i + 3}, char(2), char(3), '…', 16) AS ${field}_mark`
+    ).join(",\n             ");
+
+    const rows = queryPage<IndexRow>(
+      db,
+      `SELECT uuid, kind, status, title, context,
+           bm25(docs, ${WEIGHTS})
+             * (CASE WHEN status IN ('completed', 'canceled') THEN ${CLOSED_PENALTY} ELSE 1 END)
+             AS rank,
+           ${marks}
+       FROM docs
+       WHERE ${where}`,
+      [{ column: "rank" }, { column: "uuid" }],
+      params,
+      page
+    );
+
+    const hits = rows.items.map((row): SearchHit => {
+      const marked = {
+        title: row.title_mark,
+        notes: row.notes_mark,
+        checklist: row.checklist_mark,
+        tags: row.tags_mark,
+        context: row.context_mark,
+      };
+      const snippets: Partial<Record<SearchField, string>> = {};
+      for (const field of FIELDS) {
+        if (marked[field].includes(MARK_OPEN)) {
+          snippets[field] = marked[field].replaceAll(MARK_OPEN, "**").replaceAll(MARK_CLOSE, "**");
+        }
+      }
+      return {
+        kind: row.kind,
+        uuid: row.uuid,
+        title: row.title,
+        status: row.kind === "area" ? null : (row.status as Todo["status"]),
+        context: row.context || null,
+        score: Number((-row.rank).toPrecision(4)),
+        snippets,
+        reasons: reasonsFor(marked, tokens, fuzzy),
+      };
+    });
+
+    return { ...rows, items: hits };
+  }
+
+  return {
+    refresh,
+    search,
+    close(): void {
+      things?.close();
+      things = null;
+      db.close();
+    },
+  };
+}
@@ -0,0 +1,24 @@
+import { join } from "path";
+import { config } from "../config";
+import { createSearchIndex, type SearchIndex } from "./fts";
+
+let index: SearchIndex | null = null;
+
+/**
+ * Get the search index for the configured Things database, kept in
+ * THINGS_BRIDGE_DATA_DIR. Lazily opened and reused, like the read connection.
+ */
+export function getSearchIndex(): SearchIndex {
+  if (!index) {
+    index = createSearchIndex(config.dbPath, join(config.dataDir, "search.sqlite"));
+  }
+  return index;
+}
+
+/** Close the search index (for graceful shutdown) */
+export function closeSearchIndex(): void {
+  if (index) {
+    index.close();
+    index = null;
+  }
+}
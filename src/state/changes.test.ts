@@ -0,0 +1,155 @@
+import { describe, test, expect, afterAll, setSystemTime } from "bun:test";
+import { Database } from "bun:sqlite";
+import { startTestBridge, stopTestBridge, send, THINGS_PATH } from "../testing";
+import { daysFromToday } from "../db/fixture";
+import { decodeCursor } from "../pagination";
+
+// ─── Fixture ───
+
+await startTestBridge({
+  areas: [{ uuid: "area-home", title: "Home" }],
+  tags: [{ uuid: "tag-urgent", title: "Urgent" }],
+  tasks: [
+    { uuid: "inbox-1", title: "Call the dentist", tags: ["Urgent"] },
+    { uuid: "inbox-trashed", title: "Old idea", trashed: true },
+    { uuid: "anytime-1", title: "Read a book", start: "anytime", area: "area-home" },
+    { uuid: "someday-1", title: "Learn piano", start: "someday" },
+    { uuid: "upcoming-1", title: "Dentist appointment", start: "someday", startDate: daysFromToday(3) },
+    { uuid: "upcoming-2", title: "Conference", start: "someday", startDate: daysFromToday(10) },
+    { uuid: "project-1", title: "Renovation", type: "project", area: "area-home" },
+  ],
+});
+const { getChangesSince, parseSince, encodeSyncToken } = await import("./changes");
+const { getStateDb } = await import("./db");
+
+afterAll(stopTestBridge);
+
+// ─── Delta Sync ───
+
+describe("delta sync", () => {
+  const changed = (since: string) => {
+    const point = parseSince(since);
+    if (point === null || typeof point === "string") throw new Error("bad sync token");
+    return getChangesSince(point)!;
+  };
+
+  test("a sync from nothing returns everything outside the Trash as created", () => {
+    const { changes } = getChangesSince(null)!;
+    const kinds = new Set(changes.items.map((change) => change.kind));
+    expect(kinds).toEqual(new Set(["to-do", "project", "area", "tag"]));
+    expect(changes.items.every((change) => change.change === "created")).toBe(true);
+    expect(changes.items.map((change) => change.uuid)).not.toContain("inbox-trashed");
+    expect(changes.items.find((change) => change.uuid === "inbox-1")?.data).toMatchObject({
+      title: "Call the dentist",
+    });
+  });
+
+  test("a sync token returns only what changed after it", () => {
+    const { syncToken } = getChangesSince(null)!;
+    expect(changed(syncToken).changes.items).toEqual([]);
+
+    const things = new Database(THINGS_PATH);
+    things.query(`UPDATE TMTask SET title = 'Call the dentist today' WHERE uuid = 'inbox-1'`).run();
+    things.query(`DELETE FROM TMTag WHERE uuid = 'tag-urgent'`).run();
+    things.query(`INSERT INTO TMTag (uuid, title) VALUES ('tag-new', 'Errands')`).run();
+    things.close();
+
+    const { changes, syncToken: next } = changed(syncToken);
+    const summary = changes.items.map(({ kind, uuid, change }) => ({ kind, uuid, change }));
+    expect(summary).toContainEqual({ kind: "to-do", uuid: "inbox-1", change: "modified" });
+    expect(summary).toContainEqual({ kind: "tag", uuid: "tag-urgent", change: "deleted" });
+    expect(summary).toContainEqual({ kind: "tag", uuid: "tag-new", change: "created" });
+    expect(changes.items.find((change) => change.uuid === "tag-urgent")?.data).toBeNull();
+
+    expect(changed(next).changes.items).toEqual([]);
+  });
+
+  test("paging a window holds it still while things keep changing", () => {
+    const { syncToken } = getChangesSince(null)!;
+    const touch = (...uuids: string[]) => {
+      const things = new Database(THINGS_PATH);
+      for (const uuid of uuids) {
+        things.query(`UPDATE TMTask SET notes = ? WHERE uuid = ?`).run(crypto.randomUUID(), uuid);
+        // One scan per update, so each lands in the log in this order
+        getChangesSince(null, { limit: 1, after: null });
+      }
+      things.close();
+    };
+    touch("anytime-1", "someday-1", "upcoming-1", "upcoming-2");
+
+    const since = parseSince(syncToken) as { seq: number };
+    const first = getChangesSince(since, { limit: 2, after: null })!;
+    expect(first.changes.items.map((change) => change.uuid)).toEqual(["anytime-1", "someday-1"]);
+
+    touch("anytime-1");
+    const second = getChangesSince(since, { limit: 2, ...decodeCursor(first.changes.nextCursor!)! })!;
+    expect(second.changes.items.map((change) => change.uuid)).toEqual(["upcoming-1", "upcoming-2"]);
+    expect(second.changes.nextCursor).toBeNull();
+    expect(second.syncToken).toBe(first.syncToken);
+
+    // The change made mid-walk waits for the next sync
+    expect(changed(second.syncToken).changes.items.map((change) => change.uuid)).toEqual([
+      "anytime-1",
+    ]);
+  });
+
+  test("since must be a sync token or a timestamp", () => {
+    expect(parseSince("yesterday-ish")).toBeString();
+    expect(parseSince(new Date().toISOString())).toHaveProperty("timestamp");
+  });
+});
+
+// ─── Retention ───
+
+describe("change log retention", () => {
+  const syncToken = async (since = "") =>
+    (await (await send("GET", `/v1/changes?limit=1${since && `&since=${since}`}`)).json()).syncToken;
+  const touch = (uuid: string) => {
+    const things = new Database(THINGS_PATH);
+    things.query(`UPDATE TMTask SET notes = ? WHERE uuid = ?`).run(crypto.randomUUID(), uuid);
+    things.close();
+  };
+  const resume = (token: string) =>
+    send("GET", "/v1/events", undefined, { headers: { "Last-Event-ID": token } });
+
+  test("a sync token from before the retained log is 410 Gone", async () => {
+    const old = await syncToken();
+    touch("inbox-1");
+    const recent = await syncToken(old);
+
+    // A month on, the next change prunes everything logged before it
+    setSystemTime(Date.now() + 31 * 86400 * 1000);
+    try {
+      touch("anytime-1");
+      const gone = await send("GET", `/v1/changes?since=${old}`);
+      expect(gone.status).toBe(410);
+      expect((await gone.json()).code).toBe("sync_token_expired");
+      expect((await resume(old)).status).toBe(410);
+
+      const kept = await (await send("GET", `/v1/changes?since=${recent}`)).json();
+      expect(kept.data.map((change: { uuid: string }) => change.uuid)).toEqual(["anytime-1"]);
+    } finally {
+      setSystemTime();
+    }
+  });
+
+  test("events replay what was missed, but not too long a backlog", async () => {
+    const before = await syncToken();
+    touch("someday-1");
+    const replay = await resume(before);
+    expect(replay.status).toBe(200);
+    const reader = replay.body!.getReader();
+    let text = "";
+    while (!text.includes("someday-1")) text += new TextDecoder().decode((await reader.read()).value);
+    await reader.cancel();
+    expect(text).toContain("event: todo.updated");
+
+    const state = getStateDb();
+    const { seq } = state.query<{ seq: number }, []>(`SELECT MAX(seq) AS seq FROM change_log`).get()!;
+    const log = state.query(
+      `INSERT INTO change_log (kind, uuid, change, at) VALUES ('to-do', 'someday-1', 'modified', ?)`
+    );
+    for (let i = 0; i < 1001; i++) log.run(Date.now() / 1000);
+    expect((await resume(encodeSyncToken(seq))).status).toBe(410);
+  });
+});
@@ -0,0 +1,394 @@
+import { config } from "../config";
+import { getStateDb } from "./db";
+import { compareKeys, slicePage } from "../pagination";
+import {
+  getEntityFingerprints,
+  getTaskActivitySince,
+  getTodoByUuid,
+  getProjectSummary,
+  getAreas,
+  getTags,
+  filterVisible,
+} from "../db/queries";
+import { currentToken, runAsToken } from "../auth/context";
+import { isRestricted, ROOT_TOKEN } from "../auth/tokens";
+import type {
+  Change,
+  ChangeType,
+  EntityKind,
+  Page,
+  PageRequest,
+  SortKey,
+} from "../types";
+
+// ─── Change Detection ───
+
+/** A change without its data — what the log stores */
+export interface ChangeRef {
+  kind: EntityKind;
+  uuid: string;
+  change: ChangeType;
+  at: number; // Unix seconds
+}
+
+/** A change as logged; seq orders the log and backs sync tokens */
+export interface LoggedChange extends ChangeRef {
+  seq: number;
+}
+
+type ChangeListener = (changes: LoggedChange[]) => void;
+
+const listeners = new Set<ChangeListener>();
+
+/**
+ * Hear about every change as a scan logs it, whichever caller triggered the
+ * scan. Returns a function that stops listening.
+ */
+export function onChanges(listener: ChangeListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function nowUnix(): number {
+  return Date.now() / 1000;
+}
+
+/** Name a fingerprint change by how the task's state moved */
+function classify(before: string, after: string): ChangeType {
+  if (before !== after) {
+    if (after === "trashed") return "trashed";
+    if (after === "completed") return "completed";
+    if (after === "canceled") return "canceled";
+  }
+  return "modified";
+}
+
+/**
+ * Diff the Things database against the last snapshot, log what changed, and
+ * move the snapshot forward. Returns the newly logged changes, oldest first,
+ * after handing them to every onChanges listener.
+ *
+ * The first scan of a database only records the baseline — nothing is
+ * reported as "created" just because the bridge hadn't seen it yet.
+ */
+export function scanForChanges(): LoggedChange[] {
+  const state = getStateDb();
+  const now = nowUnix();
+
+  const source = state
+    .query<{ value: string }, []>(`SELECT value FROM meta WHERE key = 'snapshotOf'`)
+    .get();
+  const baseline = source?.value !== config.dbPath;
+
+  const previous = new Map(
+    (baseline
+      ? []
+      : state
+          .query<{ kind: EntityKind; uuid: string; state: string; hash: string }, []>(
+            `SELECT kind, uuid, state, hash FROM snapshot`
+          )
+          .all()
+    ).map((row) => [`${row.kind}:${row.uuid}`, row])
+  );
+
+  const changes: ChangeRef[] = [];
+  const upserts: { kind: EntityKind; uuid: string; state: string; hash: string }[] = [];
+
+  for (const entity of getEntityFingerprints()) {
+    const key = `${entity.kind}:${entity.uuid}`;
+    const before = previous.get(key);
+    previous.delete(key);
+
+    if (!before) {
+      if (!baseline) {
+        changes.push({ kind: entity.kind, uuid: entity.uuid, change: "created", at: now });
+      }
+      upserts.push(entity);
+    } else if (before.hash !== entity.hash) {
+      changes.push({
+        kind: entity.kind,
+        uuid: entity.uuid,
+        change: classify(before.state, entity.state),
+        at: now,
+      });
+      upserts.push(entity);
+    }
+  }
+
+  // Whatever is left in the old snapshot no longer exists
+  for (const gone of previous.values()) {
+    changes.push({ kind: gone.kind, uuid: gone.uuid, change: "deleted", at: now });
+  }
+
+  if (changes.length === 0 && upserts.length === 0 && !baseline) return [];
+
+  const logged: LoggedChange[] = [];
+  state.transaction(() => {
+    if (baseline) state.exec(`DELETE FROM snapshot`);
+    const upsert = state.query(
+      `INSERT OR REPLACE INTO snapshot (kind, uuid, state, hash) VALUES (?, ?, ?, ?)`
+    );
+    for (const entity of upserts) {
+      upsert.run(entity.kind, entity.uuid, entity.state, entity.hash);
+    }
+    const remove = state.query(`DELETE FROM snapshot WHERE kind = ? AND uuid = ?`);
+    const log = state.query(
+      `INSERT INTO change_log (kind, uuid, change, at) VALUES (?, ?, ?, ?)`
+    );
+    for (const change of changes) {
+      if (change.change === "deleted") remove.run(change.kind, change.uuid);
+      const { lastInsertRowid } = log.run(change.kind, change.uuid, change.change, change.at);
+      logged.push({ ...change, seq: Number(lastInsertRowid) });
+    }
+    if (logged.length > 0) pruneChangeLog(now);
+    state
+      .query(`INSERT OR REPLACE INTO meta (key, value) VALUES ('snapshotOf', ?)`)
+      .run(config.dbPath);
+  })();
+
+  if (logged.length > 0) {
+    // Listeners feed every subscriber, so they see everything whichever
+    // token's request happened to trigger the scan
+    runAsToken(ROOT_TOKEN, () => {
+      for (const listener of listeners) listener(logged);
+    });
+  }
+  return logged;
+}
+
+// ─── Retention ───
+
+/**
+ * Drop log entries older than THINGS_BRIDGE_CHANGE_LOG_RETENTION_DAYS as new
+ * ones are logged, remembering the last seq dropped: tokens from before it
+ * can no longer be caught up.
+ */
+function pruneChangeLog(now: number): void {
+  if (config.changeLogRetentionDays === 0) return;
+  const state = getStateDb();
+  const { seq } = state
+    .query<{ seq: number | null }, [number]>(
+      `SELECT MAX(seq) AS seq FROM change_log WHERE at < ?`
+    )
+    .get(now - config.changeLogRetentionDays * 86400)!;
+  if (seq === null) return;
+  state.query(`DELETE FROM change_log WHERE seq <= ?`).run(seq);
+  state
+    .query(`INSERT OR REPLACE INTO meta (key, value) VALUES ('changeLogPrunedThrough', ?)`)
+    .run(String(seq));
+}
+
+/** Whether changes after `seq` have been pruned, so a client there must sync from scratch */
+export function isSyncTokenExpired(seq: number): boolean {
+  const pruned = getStateDb()
+    .query<{ value: string }, []>(`SELECT value FROM meta WHERE key = 'changeLogPrunedThrough'`)
+    .get();
+  return pruned !== null && seq < Number(pruned.value);
+}
+
+// ─── Sync Points ───
+
+/** Where a client's cache is up to: a sync token, a timestamp, or nowhere */
+export type SyncPoint = { seq: number } | { timestamp: number };
+
+export function encodeSyncToken(seq: number): string {
+  return Buffer.from(JSON.stringify({ seq })).toString("base64url");
+}
+
+/** Decode a sync token back to a log position; null if it isn't one of ours */
+export function decodeSyncToken(token: string): number | null {
+  try {
+    const { seq } = JSON.parse(Buffer.from(token, "base64url").toString());
+    return Number.isInteger(seq) && seq >= 0 ? seq : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read the `since` parameter: a sync token from an earlier response, or an
+ * ISO 8601 timestamp. Returns null when absent, or an error message.
+ */
+export function parseSince(value: string | null): SyncPoint | null | string {
+  if (value === null) return null;
+  const seq = decodeSyncToken(value);
+  if (seq !== null) return { seq };
+  const time = Date.parse(value);
+  if (!Number.isNaN(time)) return { timestamp: time / 1000 };
+  return "since must be a sync token or an ISO 8601 timestamp";
+}
+
+// ─── Change Feed ───
+
+/**
+ * Collapse several log entries for one entity into the change a cache needs:
+ * the latest one, except that anything created in the window stays
+ * "created" — and something created and deleted in it never happened.
+ */
+function coalesce<R extends ChangeRef>(entries: R[]): R[] {
+  const byEntity = new Map<string, { first: R; last: R }>();
+  for (const entry of entries) {
+    const key = `${entry.kind}:${entry.uuid}`;
+    const seen = byEntity.get(key);
+    // Re-insert so the map stays ordered by each entity's latest change
+    byEntity.delete(key);
+    byEntity.set(key, { first: seen?.first ?? entry, last: entry });
+  }
+
+  const result: R[] = [];
+  for (const { first, last } of byEntity.values()) {
+    if (first.change === "created") {
+      if (last.change !== "deleted") result.push({ ...last, change: "created" });
+    } else {
+      result.push(last);
+    }
+  }
+  return result;
+}
+
+function loggedWhere(where: string, ...params: number[]): LoggedChange[] {
+  return getStateDb()
+    .query<LoggedChange, number[]>(
+      `SELECT seq, kind, uuid, change, at FROM change_log WHERE ${where} ORDER BY seq`
+    )
+    .all(...params);
+}
+
+/**
+ * Logged changes after a sync token's position, oldest first, uncoalesced —
+ * at most `limit` of them.
+ */
+export function getLoggedChanges(afterSeq: number, limit: number): LoggedChange[] {
+  return getStateDb()
+    .query<LoggedChange, [number, number]>(
+      `SELECT seq, kind, uuid, change, at FROM change_log WHERE seq > ? ORDER BY seq LIMIT ?`
+    )
+    .all(afterSeq, limit);
+}
+
+/**
+ * Only the changes the current token may see. Deletions leave nothing to
+ * check, so restricted tokens don't get them.
+ */
+export function filterVisibleChanges<R extends ChangeRef>(refs: R[]): R[] {
+  if (!isRestricted(currentToken())) return refs;
+  const visible = new Map<EntityKind, Set<string>>();
+  for (const kind of new Set(refs.map((ref) => ref.kind))) {
+    const uuids = refs.filter((ref) => ref.kind === kind).map((ref) => ref.uuid);
+    visible.set(kind, filterVisible(kind, uuids));
+  }
+  return refs.filter((ref) => visible.get(ref.kind)!.has(ref.uuid));
+}
+
+/** Attach each change's current data; anything gone by now counts as deleted */
+export function hydrateChanges(refs: ChangeRef[]): Change[] {
+  const areas = new Map(getAreas().items.map((area) => [area.uuid, area]));
+  const tags = new Map(getTags().items.map((tag) => [tag.uuid, tag]));
+
+  return refs.map((ref) => {
+    const data =
+      ref.change === "deleted"
+        ? null
+        : ref.kind === "to-do"
+          ? getTodoByUuid(ref.uuid)
+          : ref.kind === "project"
+            ? getProjectSummary(ref.uuid)
+            : ref.kind === "area"
+              ? (areas.get(ref.uuid) ?? null)
+              : (tags.get(ref.uuid) ?? null);
+    return {
+      kind: ref.kind,
+      uuid: ref.uuid,
+      change: data ? ref.change : "deleted",
+      at: new Date(ref.at * 1000).toISOString(),
+      data,
+    };
+  });
+}
+
+/** A change with its place in the feed's order */
+type FeedEntry = ChangeRef & { key: SortKey };
+
+/**
+ * Everything that changed since a sync point, oldest first, plus a token for
+ * the next call. Without a sync point, every to-do, project, area and tag
+ * that isn't in the Trash comes back as "created" — a full initial sync.
+ *
+ * With a timestamp, to-dos and projects come from Things' own dates; area
+ * and tag changes and deletions are only known from the bridge's snapshots,
+ * so they reach back as far as the bridge has been running, within the log's
+ * retention. A sync token from before the retained log returns null.
+ *
+ * The first page pins the end of the log into its cursor, so later pages of
+ * the same walk read the same window — anything that changes mid-walk is
+ * left for the next sync — and every page returns the same sync token.
+ */
+export function getChangesSince(
+  since: SyncPoint | null,
+  page?: PageRequest
+): { changes: Page<Change>; syncToken: string } | null {
+  // Scan first: it may prune what the token needs
+  scanForChanges();
+  if (since && "seq" in since && isSyncTokenExpired(since.seq)) return null;
+
+  const upTo =
+    page?.upTo ??
+    getStateDb()
+      .query<{ seq: number }, []>(`SELECT COALESCE(MAX(seq), 0) AS seq FROM change_log`)
+      .get()!.seq;
+
+  let entries: FeedEntry[];
+  if (since === null) {
+    const now = nowUnix();
+    entries = getEntityFingerprints()
+      .filter((entity) => entity.state !== "trashed")
+      .map((entity) => ({
+        kind: entity.kind,
+        uuid: entity.uuid,
+        change: "created",
+        at: now,
+        key: [entity.kind, entity.uuid],
+      }));
+  } else if ("seq" in since) {
+    entries = coalesce(loggedWhere(`seq > ? AND seq <= ?`, since.seq, upTo)).map(
+      ({ seq, ...ref }) => ({ ...ref, key: [seq] })
+    );
+  } else {
+    const tasks: ChangeRef[] = getTaskActivitySince(since.timestamp).map((task) => ({
+      kind: task.kind,
+      uuid: task.uuid,
+      change:
+        task.state === "trashed"
+          ? "trashed"
+          : task.createdAt >= since.timestamp
+            ? "created"
+            : task.state === "completed" || task.state === "canceled"
+              ? task.state
+              : "modified",
+      at: task.changedAt,
+    }));
+    const untracked = coalesce(loggedWhere(`at >= ? AND seq <= ?`, since.timestamp, upTo)).filter(
+      (ref) => ref.kind === "area" || ref.kind === "tag" || ref.change === "deleted"
+    );
+    entries = [...tasks, ...untracked].map(({ kind, uuid, change, at }) => ({
+      kind,
+      uuid,
+      change,
+      at,
+      key: [at, kind, uuid],
+    }));
+  }
+
+  entries.sort((a, b) => compareKeys(a.key, b.key));
+  const window = slicePage(
+    filterVisibleChanges(entries),
+    page && { ...page, upTo },
+    (entry) => entry.key
+  );
+  return {
+    changes: { ...window, items: hydrateChanges(window.items) },
+    syncToken: encodeSyncToken(upTo),
+  };
+}
@@ -0,0 +1,157 @@
+import { Database } from "bun:sqlite";
+import { mkdirSync } from "fs";
+import { join } from "path";
+import { config } from "../config";
+
+// ─── Bridge State Database ───
+
+/**
+ * The bridge's own tables. Things' database is only ever opened read-only;
+ * anything the bridge needs to remember lives here instead.
+ */
+const STATE_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS meta (
+    key   TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+
+  -- Last seen fingerprint of every to-do, project, area and tag
+  CREATE TABLE IF NOT EXISTS snapshot (
+    kind  TEXT NOT NULL,
+    uuid  TEXT NOT NULL,
+    state TEXT NOT NULL,
+    hash  TEXT NOT NULL,
+    PRIMARY KEY (kind, uuid)
+  );
+
+  -- Every difference found between snapshots; seq doubles as the sync token
+  CREATE TABLE IF NOT EXISTS change_log (
+    seq    INTEGER PRIMARY KEY AUTOINCREMENT,
+    kind   TEXT NOT NULL,
+    uuid   TEXT NOT NULL,
+    change TEXT NOT NULL,
+    at     REAL NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_change_log_at ON change_log(at);
+
+  -- Webhook registrations; filters are JSON arrays, empty meaning "any"
+  CREATE TABLE IF NOT EXISTS webhooks (
+    id         TEXT PRIMARY KEY,
+    url        TEXT NOT NULL,
+    secret     TEXT NOT NULL,
+    events     TEXT NOT NULL DEFAULT '[]',
+    areas      TEXT NOT NULL DEFAULT '[]',
+    tags       TEXT NOT NULL DEFAULT '[]',
+    active     INTEGER NOT NULL DEFAULT 1,
+    created_at REAL NOT NULL
+  );
+
+  -- One row per event sent to a webhook, updated as attempts are made
+  CREATE TABLE IF NOT EXISTS webhook_deliveries (
+    id              INTEGER PRIMARY KEY AUTOINCREMENT,
+    webhook_id      TEXT NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+    event           TEXT NOT NULL,
+    payload         TEXT NOT NULL,
+    status          TEXT NOT NULL DEFAULT 'pending', -- pending | succeeded | failed
+    attempts        INTEGER NOT NULL DEFAULT 0,
+    response_status INTEGER,
+    error           TEXT,
+    created_at      REAL NOT NULL,
+    next_attempt_at REAL
+  );
+  CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook
+    ON webhook_deliveries(webhook_id, id);
+
+  -- Responses to POSTs sent with an Idempotency-Key, replayed on retry
+  CREATE TABLE IF NOT EXISTS idempotency_keys (
+    scope        TEXT NOT NULL, -- hash of the credentials the key was sent with
+    key          TEXT NOT NULL,
+    fingerprint  TEXT NOT NULL, -- hash of the original method, path and body
+    status       INTEGER NOT NULL,
+    content_type TEXT NOT NULL,
+    body         TEXT NOT NULL,
+    created_at   REAL NOT NULL,
+    PRIMARY KEY (scope, key)
+  );
+  CREATE INDEX IF NOT EXISTS idx_idempotency_keys_created ON idempotency_keys(created_at);
+
+  -- Every write to Things, with what it changed; pending ones were journaled
+  -- while Things was unreachable (or deferred) and replay in seq order
+  CREATE TABLE IF NOT EXISTS operations (
+    seq             INTEGER PRIMARY KEY AUTOINCREMENT,
+    id              TEXT NOT NULL UNIQUE,
+    method          TEXT NOT NULL,
+    path            TEXT NOT NULL, -- with any query string
+    body            TEXT NOT NULL,
+    status          TEXT NOT NULL DEFAULT 'pending', -- pending | succeeded | failed | canceled
+    attempts        INTEGER NOT NULL DEFAULT 0,
+    response_status INTEGER,
+    response        TEXT, -- JSON body of the response once it ran
+    targets         TEXT, -- JSON: each to-do/project touched and its state before; NULL if not undoable
+    token_id        TEXT, -- API token that sent it; NULL for THINGS_BRIDGE_TOKEN
+    created_at      REAL NOT NULL,
+    completed_at    REAL,
+    undone_at       REAL
+  );
+  CREATE INDEX IF NOT EXISTS idx_operations_status ON operations(status, seq);
+
+  -- The audit log, indexed for GET /v1/audit; the append-only record is the
+  -- monthly audit-YYYY-MM.jsonl files. Filtered fields are copied out of entry
+  CREATE TABLE IF NOT EXISTS audit_log (
+    seq    INTEGER PRIMARY KEY AUTOINCREMENT,
+    at     REAL NOT NULL, -- Unix seconds
+    token  TEXT NOT NULL, -- the token's name
+    method TEXT NOT NULL,
+    result TEXT NOT NULL, -- succeeded | failed | queued
+    entry  TEXT NOT NULL  -- JSON AuditEntry
+  );
+  CREATE INDEX IF NOT EXISTS idx_audit_log_at ON audit_log(at);
+
+  -- Each to-do and project an audit entry touched or names in its path
+  CREATE TABLE IF NOT EXISTS audit_subjects (
+    seq  INTEGER NOT NULL REFERENCES audit_log(seq) ON DELETE CASCADE,
+    uuid TEXT NOT NULL,
+    PRIMARY KEY (uuid, seq)
+  );
+
+  -- API tokens besides THINGS_BRIDGE_TOKEN; only a hash of each secret is kept.
+  -- Area and tag lists are JSON arrays, empty meaning "no restriction"
+  CREATE TABLE IF NOT EXISTS api_tokens (
+    id            TEXT PRIMARY KEY,
+    name          TEXT NOT NULL UNIQUE,
+    secret_hash   TEXT NOT NULL UNIQUE,
+    scopes        TEXT NOT NULL,
+    areas         TEXT NOT NULL DEFAULT '[]',
+    exclude_areas TEXT NOT NULL DEFAULT '[]',
+    tags          TEXT NOT NULL DEFAULT '[]',
+    exclude_tags  TEXT NOT NULL DEFAULT '[]',
+    rate_limits   TEXT NOT NULL DEFAULT '{}',
+    created_at    REAL NOT NULL,
+    last_used_at  REAL
+  );
+`;
+
+let db: Database | null = null;
+
+/**
+ * Get the read-write connection to the bridge's state database
+ * (THINGS_BRIDGE_DATA_DIR/state.sqlite). Lazily created and reused.
+ */
+export function getStateDb(): Database {
+  if (!db) {
+    mkdirSync(config.dataDir, { recursive: true });
+    db = new Database(join(config.dataDir, "state.sqlite"), { create: true });
+    db.exec("PRAGMA journal_mode = WAL");
+    db.exec("PRAGMA foreign_keys = ON");
+    db.exec(STATE_SCHEMA);
+  }
+  return db;
+}
+
+/** Close the state database (for graceful shutdown) */
+export function closeStateDb(): void {
+  if (db) {
+    db.close();
+    db = null;
+  }
+}
@@ -0,0 +1,66 @@
+import { describe, test, expect, afterAll, spyOn } from "bun:test";
+import { Database } from "bun:sqlite";
+import { startTestBridge, stopTestBridge, send, THINGS_PATH } from "../testing";
+import type { BridgeEvent } from "../types";
+
+// ─── Fixture ───
+
+await startTestBridge({
+  tags: [{ uuid: "tag-places", title: "Places" }],
+  tasks: [{ uuid: "inbox-1", title: "Call the dentist" }],
+});
+const { subscribeToEvents } = await import("./events");
+const changes = await import("./changes");
+
+afterAll(stopTestBridge);
+
+// ─── Events ───
+
+describe("events", () => {
+  test("changes to the database are pushed as typed events", async () => {
+    const events: BridgeEvent[] = [];
+    const unsubscribe = subscribeToEvents((event) => events.push(event));
+
+    const things = new Database(THINGS_PATH);
+    things.query(`UPDATE TMTask SET status = 3, stopDate = unixepoch() WHERE uuid = 'inbox-1'`).run();
+    things.query(`UPDATE TMTag SET title = 'Nearby' WHERE uuid = 'tag-places'`).run();
+    things.close();
+
+    // The watcher debounces before it scans
+    for (let waited = 0; events.length < 2 && waited < 3000; waited += 50) {
+      await Bun.sleep(50);
+    }
+    unsubscribe();
+
+    expect(events).toContainEqual(
+      expect.objectContaining({ type: "todo.completed", uuid: "inbox-1" })
+    );
+    expect(events).toContainEqual(
+      expect.objectContaining({ type: "tag.renamed", uuid: "tag-places", previousTitle: "Places" })
+    );
+  });
+
+  test("a watcher that fails to start is a 503 and leaves nothing behind", async () => {
+    const scan = spyOn(changes, "scanForChanges").mockImplementationOnce(() => {
+      throw new Error("disk I/O error");
+    });
+    const failed = await send("GET", "/v1/events");
+    scan.mockRestore();
+    expect(failed.status).toBe(503);
+    expect((await failed.json()).error).toBe("Failed to watch for changes: disk I/O error");
+
+    // A listener left over from the failed start would publish everything twice
+    const events: BridgeEvent[] = [];
+    const unsubscribe = subscribeToEvents((event) => events.push(event));
+    const things = new Database(THINGS_PATH);
+    things.query(`UPDATE TMTask SET title = 'Call the dentist again' WHERE uuid = 'inbox-1'`).run();
+    things.close();
+    for (let waited = 0; events.length < 1 && waited < 3000; waited += 50) {
+      await Bun.sleep(50);
+    }
+    await Bun.sleep(200);
+    unsubscribe();
+
+    expect(events.filter((event) => event.type === "todo.updated")).toHaveLength(1);
+  });
+});
@@ -0,0 +1,189 @@
+import { watch, type FSWatcher } from "fs";
+import { basename, dirname } from "path";
+import { config } from "../config";
+import {
+  scanForChanges,
+  onChanges,
+  hydrateChanges,
+  encodeSyncToken,
+  type LoggedChange,
+} from "./changes";
+import { getTags, getTodosByList, filterVisible } from "../db/queries";
+import { currentToken } from "../auth/context";
+import { isRestricted } from "../auth/tokens";
+import type { BridgeEvent, Change, EventType, Tag } from "../types";
+
+// ─── Constants ───
+
+/** Things writes in bursts; wait for it to settle before diffing */
+const SCAN_DEBOUNCE_MS = 250;
+
+const EVENT_PREFIX: Record<Change["kind"], string> = {
+  "to-do": "todo",
+  project: "project",
+  area: "area",
+  tag: "tag",
+};
+
+/** Every event type the stream can carry */
+export const EVENT_TYPES: EventType[] = [
+  ...(["todo", "project"] as const).flatMap((prefix) =>
+    (["created", "updated", "completed", "canceled", "trashed", "deleted"] as const).map(
+      (verb) => `${prefix}.${verb}` as const
+    )
+  ),
+  ...(["area", "tag"] as const).flatMap((prefix) =>
+    (["created", "updated", "deleted"] as const).map((verb) => `${prefix}.${verb}` as const)
+  ),
+  "tag.renamed",
+  "today.changed",
+];
+
+// ─── Event Building ───
+
+/**
+ * An event as the current token may see it: null if it's about something
+ * hidden (or deleted), and today.changed cut down to visible to-dos.
+ */
+export function visibleEvent(event: BridgeEvent): BridgeEvent | null {
+  if (!isRestricted(currentToken())) return event;
+  if (event.kind && event.uuid) {
+    return filterVisible(event.kind, [event.uuid]).size > 0 ? event : null;
+  }
+  if (event.type === "today.changed") {
+    const { added, removed } = event.data as { added: string[]; removed: string[] };
+    const visible = filterVisible("to-do", [...added, ...removed]);
+    const data = {
+      added: added.filter((uuid) => visible.has(uuid)),
+      removed: removed.filter((uuid) => visible.has(uuid)),
+    };
+    return data.added.length + data.removed.length > 0 ? { ...event, data } : null;
+  }
+  return null;
+}
+
+/**
+ * Turn logged changes into events. `tagTitles` holds each tag's title from
+ * before the changes, so a retitled tag can be reported as a rename.
+ */
+export function toEvents(
+  changes: LoggedChange[],
+  tagTitles: Map<string, string> = new Map()
+): BridgeEvent[] {
+  return hydrateChanges(changes).map((change, i) => {
+    const verb = change.change === "modified" ? "updated" : change.change;
+    const event: BridgeEvent = {
+      type: `${EVENT_PREFIX[change.kind]}.${verb}` as EventType,
+      at: change.at,
+      syncToken: encodeSyncToken(changes[i].seq),
+      kind: change.kind,
+      uuid: change.uuid,
+      data: change.data,
+    };
+    const previousTitle = tagTitles.get(change.uuid);
+    if (
+      change.kind === "tag" &&
+      change.change === "modified" &&
+      previousTitle !== undefined &&
+      previousTitle !== (change.data as Tag).title
+    ) {
+      event.type = "tag.renamed";
+      event.previousTitle = previousTitle;
+    }
+    return event;
+  });
+}
+
+function todayUuids(): Set<string> {
+  return new Set(getTodosByList("today").items.map((todo) => todo.uuid));
+}
+
+function tagTitleMap(): Map<string, string> {
+  return new Map(getTags().items.map((tag) => [tag.uuid, tag.title]));
+}
+
+// ─── Watcher ───
+
+type EventListener = (event: BridgeEvent) => void;
+
+const subscribers = new Set<EventListener>();
+let watcher: FSWatcher | null = null;
+let stopListening: (() => void) | null = null;
+let pending: ReturnType<typeof setTimeout> | null = null;
+let tagTitles = new Map<string, string>();
+let today = new Set<string>();
+
+function publish(event: BridgeEvent): void {
+  for (const subscriber of subscribers) subscriber(event);
+}
+
+/** Publish events for a batch of changes, plus Today membership if it moved */
+function publishChanges(changes: LoggedChange[]): void {
+  for (const event of toEvents(changes, tagTitles)) publish(event);
+  if (changes.some((change) => change.kind === "tag")) tagTitles = tagTitleMap();
+
+  if (changes.some((change) => change.kind === "to-do" || change.kind === "project")) {
+    const now = todayUuids();
+    const added = [...now].filter((uuid) => !today.has(uuid));
+    const removed = [...today].filter((uuid) => !now.has(uuid));
+    today = now;
+    if (added.length > 0 || removed.length > 0) {
+      publish({ type: "today.changed", at: new Date().toISOString(), data: { added, removed } });
+    }
+  }
+}
+
+function scheduleScan(): void {
+  if (pending) clearTimeout(pending);
+  pending = setTimeout(() => {
+    pending = null;
+    try {
+      scanForChanges();
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      console.error(`Failed to scan for changes: ${msg}`);
+    }
+  }, SCAN_DEBOUNCE_MS);
+}
+
+/**
+ * Watch the Things database (and its -wal/-shm files) while anyone is
+ * subscribed. Scans from GET /v1/changes publish events too, so nothing is
+ * missed if a client polls in between.
+ */
+function startWatching(): void {
+  // Catch up first, so the first event isn't a backlog from before connecting
+  scanForChanges();
+  tagTitles = tagTitleMap();
+  today = todayUuids();
+
+  const file = basename(config.dbPath);
+  watcher = watch(dirname(config.dbPath), (_event, filename) => {
+    if (filename?.startsWith(file)) scheduleScan();
+  });
+  // Only once nothing above has thrown, or a failed start would leave it behind
+  stopListening = onChanges(publishChanges);
+}
+
+function stopWatching(): void {
+  watcher?.close();
+  watcher = null;
+  stopListening?.();
+  stopListening = null;
+  if (pending) clearTimeout(pending);
+  pending = null;
+}
+
+/**
+ * Receive an event for every change to the Things database from now on.
+ * Returns a function that unsubscribes; the watcher stops with the last one.
+ * Throws if the first subscriber can't start the watcher.
+ */
+export function subscribeToEvents(listener: EventListener): () => void {
+  if (subscribers.size === 0) startWatching();
+  subscribers.add(listener);
+  return () => {
+    if (!subscribers.delete(listener)) return;
+    if (subscribers.size === 0) stopWatching();
+  };
+}
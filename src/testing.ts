@@ -0,0 +1,111 @@
+import { mkdirSync, mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { buildThingsFixture, DEFAULT_EPOCH_OFFSET, type FixtureSeed } from "./db/fixture";
+import type { FakeBackend } from "./backend/fake";
+
+// ─── Test Bridge ───
+
+// `bun test` runs every test file in one process with one module registry,
+// and config reads the environment once. So the environment is set here, as
+// this module loads — import it before anything that reads config — and each
+// test file starts its own bridge on a fresh fixture with startTestBridge().
+
+const root = mkdtempSync(join(tmpdir(), "things-bridge-"));
+
+/** The fixture database every test file's bridge reads and writes */
+export const THINGS_PATH = join(root, "main.sqlite");
+export const TEST_TOKEN = "test-token";
+
+/** A non-default offset proves startDate calibration, not the fallback, is used */
+export const EPOCH_OFFSET = DEFAULT_EPOCH_OFFSET + 30 * 86400;
+
+process.env.THINGS_DB_PATH = THINGS_PATH;
+process.env.THINGS_BRIDGE_DATA_DIR = join(root, "data");
+process.env.THINGS_BRIDGE_TOKEN = TEST_TOKEN;
+process.env.THINGS_BRIDGE_OFFLINE_QUEUE = "true";
+// Tests write faster than any agent; the rate limit tests give their tokens limits
+process.env.THINGS_BRIDGE_RATE_LIMIT_READS = "0";
+process.env.THINGS_BRIDGE_RATE_LIMIT_WRITES = "0";
+
+/**
+ * Build a fresh Things database from `seed`, with an empty data directory,
+ * and write to it through a fake backend — returned so tests can check what
+ * it sent. Pair with `afterAll(stopTestBridge)`.
+ */
+export async function startTestBridge(seed: FixtureSeed): Promise<FakeBackend> {
+  await stopTestBridge();
+  mkdirSync(root, { recursive: true });
+  buildThingsFixture(THINGS_PATH, seed, { epochOffset: EPOCH_OFFSET });
+
+  const { setBackend } = await import("./backend");
+  const { createFakeBackend } = await import("./backend/fake");
+  const backend = createFakeBackend(THINGS_PATH);
+  setBackend(backend);
+  return backend;
+}
+
+/** Stop timers, close every connection and delete the fixture */
+export async function stopTestBridge(): Promise<void> {
+  const { stopWebhooks } = await import("./webhooks/dispatcher");
+  const { stopOperations } = await import("./operations/replay");
+  const { closeSearchIndex } = await import("./search");
+  const { closeDb } = await import("./db/connection");
+  const { closeStateDb } = await import("./state/db");
+
+  stopWebhooks();
+  stopOperations();
+  closeSearchIndex();
+  closeDb();
+  closeStateDb();
+  rmSync(root, { recursive: true, force: true });
+}
+
+// ─── Settings ───
+
+type Config = typeof import("./config").config;
+
+/**
+ * Change settings as if they'd been in the environment — config reads it
+ * once, for every test file. Returns a function that puts them back.
+ */
+export async function overrideConfig(values: Partial<Config>): Promise<() => void> {
+  const { config } = await import("./config");
+  const saved = Object.fromEntries(
+    Object.keys(values).map((key) => [key, config[key as keyof Config]])
+  );
+  Object.assign(config, values);
+  return () => Object.assign(config, saved);
+}
+
+// ─── Requests ───
+
+export interface SendOptions {
+  /** Bearer token; null sends no Authorization header (default: TEST_TOKEN) */
+  token?: string | null;
+  headers?: Record<string, string>;
+  /** Client IP, for auth lockouts and the audit log */
+  ip?: string;
+}
+
+/** Send a request through the whole bridge — auth, middleware and routing */
+export async function send(
+  method: string,
+  path: string,
+  body?: unknown,
+  options: SendOptions = {}
+): Promise<Response> {
+  const { handleRequest } = await import("./router");
+  const token = options.token === undefined ? TEST_TOKEN : options.token;
+  return handleRequest(
+    new Request(`http://bridge${path}`, {
+      method,
+      headers: {
+        ...(token === null ? {} : { Authorization: `Bearer ${token}` }),
+        ...options.headers,
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    }),
+    options.ip
+  );
+}
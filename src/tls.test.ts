@@ -0,0 +1,101 @@
+import { describe, test, expect, afterAll } from "bun:test";
+import { X509Certificate, createPrivateKey } from "crypto";
+import { mkdtempSync, readFileSync, rmSync, statSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { startTestBridge, stopTestBridge, send, overrideConfig } from "./testing";
+import { validateConfig } from "./config";
+import { certificateFingerprint, initTls, loadTls, servedFingerprint, tlsEnabled } from "./tls";
+
+// ─── Fixture ───
+
+await startTestBridge({});
+const dir = mkdtempSync(join(tmpdir(), "things-bridge-tls-"));
+let generated = initTls({ dir, hosts: ["things.example.test", "10.0.0.9"], force: false });
+
+afterAll(async () => {
+  rmSync(dir, { recursive: true, force: true });
+  await stopTestBridge();
+});
+
+// ─── init-tls ───
+
+describe("init-tls", () => {
+  test("the server certificate is signed by the CA, covers every host and matches its key", () => {
+    const ca = new X509Certificate(readFileSync(generated.caCert, "utf8"));
+    const server = new X509Certificate(readFileSync(generated.cert, "utf8"));
+    expect(server.verify(ca.publicKey)).toBe(true);
+    expect(server.checkPrivateKey(createPrivateKey(readFileSync(generated.key, "utf8")))).toBe(true);
+    expect(server.subjectAltName).toContain("DNS:things.example.test");
+    expect(server.subjectAltName).toContain("IP Address:10.0.0.9");
+    expect(server.subjectAltName).toContain("DNS:localhost");
+    expect(generated.fingerprint).toBe(server.fingerprint256);
+    expect(generated.caFingerprint).toBe(ca.fingerprint256);
+  });
+
+  test("private keys are readable by their owner only", () => {
+    for (const key of ["ca.key", "server.key"]) {
+      expect(statSync(join(dir, key)).mode & 0o777).toBe(0o600);
+    }
+  });
+
+  test("existing certificates are only replaced with force", () => {
+    expect(() => initTls({ dir, hosts: [], force: false })).toThrow("already exist");
+    expect(certificateFingerprint(readFileSync(generated.cert, "utf8"))).toBe(generated.fingerprint);
+
+    // A key left world-readable is recreated owner-only
+    writeFileSync(join(dir, "server.key"), "", { mode: 0o644 });
+    const replaced = initTls({ dir, hosts: [], force: true });
+    expect(replaced.fingerprint).not.toBe(generated.fingerprint);
+    expect(statSync(replaced.key).mode & 0o777).toBe(0o600);
+    generated = replaced;
+  });
+});
+
+// ─── Serving ───
+
+describe("serving HTTPS", () => {
+  test("without a certificate the bridge serves plain HTTP", async () => {
+    expect(tlsEnabled()).toBe(false);
+    expect(loadTls()).toBeUndefined();
+    expect((await (await send("GET", "/health")).json()).tls).toEqual({ enabled: false });
+  });
+
+  test("the configured certificate and key are loaded, and /health reports the fingerprint", async () => {
+    const restore = await overrideConfig({ tlsCert: generated.cert, tlsKey: generated.key });
+    try {
+      expect(validateConfig()).toEqual([]);
+      expect(loadTls()).toEqual({
+        cert: readFileSync(generated.cert, "utf8"),
+        key: readFileSync(generated.key, "utf8"),
+      });
+      expect(servedFingerprint()).toBe(generated.fingerprint);
+      const health = await (await send("GET", "/health")).json();
+      expect(health.tls).toEqual({ enabled: true, fingerprint: generated.fingerprint });
+    } finally {
+      restore();
+    }
+  });
+
+  test("a certificate without its key, or one that isn't there, is a configuration error", async () => {
+    const halfRestore = await overrideConfig({ tlsCert: generated.cert });
+    try {
+      expect(validateConfig()).toContain(
+        "THINGS_BRIDGE_TLS_CERT and THINGS_BRIDGE_TLS_KEY must be set together"
+      );
+    } finally {
+      halfRestore();
+    }
+
+    const missing = join(dir, "missing.key");
+    const restore = await overrideConfig({ tlsCert: generated.cert, tlsKey: missing });
+    try {
+      const errors = validateConfig();
+      expect(errors.some((error) => error.startsWith(`THINGS_BRIDGE_TLS_KEY not found: ${missing}`))).toBe(
+        true
+      );
+    } finally {
+      restore();
+    }
+  });
+});
@@ -0,0 +1,153 @@
+import { randomBytes, X509Certificate } from "crypto";
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { hostname, networkInterfaces } from "os";
+import { join } from "path";
+import { config } from "./config";
+
+// ─── Serving ───
+
+let served: { cert: string; fingerprint: string } | null = null;
+
+/** SHA-256 fingerprint of a PEM certificate, as clients pin it (AB:CD:…) */
+export function certificateFingerprint(pem: string): string {
+  return new X509Certificate(pem).fingerprint256;
+}
+
+/** Whether the server is configured for HTTPS (THINGS_BRIDGE_TLS_CERT/KEY) */
+export function tlsEnabled(): boolean {
+  return config.tlsCert !== "" && config.tlsKey !== "";
+}
+
+/** Bun.serve's `tls` option, or undefined to serve plain HTTP */
+export function loadTls(): { cert: string; key: string } | undefined {
+  if (!tlsEnabled()) return undefined;
+  return { cert: readFileSync(config.tlsCert, "utf8"), key: readFileSync(config.tlsKey, "utf8") };
+}
+
+/** Fingerprint of the certificate being served; null without TLS */
+export function servedFingerprint(): string | null {
+  if (!tlsEnabled()) return null;
+  if (served?.cert !== config.tlsCert) {
+    served = {
+      cert: config.tlsCert,
+      fingerprint: certificateFingerprint(readFileSync(config.tlsCert, "utf8")),
+    };
+  }
+  return served.fingerprint;
+}
+
+// ─── init-tls ───
+
+// A private CA and a server certificate it signs, made with the system's
+// openssl. Clients trust the CA (or pin the server fingerprint) instead of
+// a public authority, which can't issue for a LAN address anyway.
+
+const CA_DAYS = 3650;
+const SERVER_DAYS = 825; // the longest Apple platforms accept for a server certificate
+
+function openssl(args: string[]): void {
+  const result = Bun.spawnSync(["openssl", ...args], { stdout: "pipe", stderr: "pipe" });
+  if (result.exitCode !== 0) {
+    throw new Error(`openssl ${args[0]} failed: ${result.stderr.toString().trim()}`);
+  }
+}
+
+/**
+ * Create an empty file only the owner can read, for openssl to write a
+ * private key into — so the key is never readable by anyone else, even briefly.
+ */
+function createKeyFile(path: string): void {
+  rmSync(path, { force: true });
+  writeFileSync(path, "", { mode: 0o600, flag: "wx" });
+}
+
+/** Names the server is reachable by: this host, .local, localhost and its IPv4 addresses */
+function defaultHosts(): string[] {
+  const name = hostname().replace(/\.local$/, "");
+  const addresses = Object.values(networkInterfaces())
+    .flat()
+    .filter((address) => address && address.family === "IPv4")
+    .map((address) => address!.address);
+  return [...new Set([name, `${name}.local`, "localhost", "127.0.0.1", ...addresses])];
+}
+
+function opensslConfig(hosts: string[]): string {
+  const isIp = (host: string) => /^\d{1,3}(\.\d{1,3}){3}$/.test(host) || host.includes(":");
+  const dns = hosts.filter((host) => !isIp(host));
+  const ips = hosts.filter(isIp);
+  return [
+    "[req]",
+    "distinguished_name = dn",
+    "prompt = no",
+    "[dn]",
+    "CN = Things Bridge CA",
+    "[ca]",
+    "basicConstraints = critical, CA:TRUE, pathlen:0",
+    "keyUsage = critical, keyCertSign, cRLSign",
+    "subjectKeyIdentifier = hash",
+    "[server]",
+    "basicConstraints = critical, CA:FALSE",
+    "keyUsage = critical, digitalSignature, keyEncipherment",
+    "extendedKeyUsage = serverAuth",
+    "subjectAltName = @alt",
+    "[alt]",
+    ...dns.map((host, i) => `DNS.${i + 1} = ${host}`),
+    ...ips.map((host, i) => `IP.${i + 1} = ${host}`),
+    "",
+  ].join("\n");
+}
+
+export interface InitTlsResult {
+  caCert: string;
+  cert: string;
+  key: string;
+  hosts: string[];
+  caFingerprint: string;
+  fingerprint: string;
+}
+
+/**
+ * Generate a self-signed CA and a server certificate for `hosts` (plus the
+ * defaults) in `dir`. Refuses to replace existing files unless `force`.
+ */
+export function initTls(options: { dir: string; hosts: string[]; force: boolean }): InitTlsResult {
+  const path = (name: string) => join(options.dir, name);
+  const files = ["ca.crt", "ca.key", "server.crt", "server.key"];
+  if (!options.force && files.some((name) => existsSync(path(name)))) {
+    throw new Error(`Certificates already exist in ${options.dir} (use --force to replace them)`);
+  }
+
+  const hosts = [...new Set([...defaultHosts(), ...options.hosts])];
+  mkdirSync(options.dir, { recursive: true });
+  const cnf = path("openssl.cnf");
+  writeFileSync(cnf, opensslConfig(hosts));
+  try {
+    createKeyFile(path("ca.key"));
+    createKeyFile(path("server.key"));
+    openssl([
+      "req", "-x509", "-config", cnf, "-extensions", "ca", "-newkey", "rsa:2048", "-nodes",
+      "-keyout", path("ca.key"), "-out", path("ca.crt"), "-days", String(CA_DAYS),
+    ]);
+    openssl([
+      "req", "-new", "-config", cnf, "-newkey", "rsa:2048", "-nodes", "-subj", "/CN=things-bridge",
+      "-keyout", path("server.key"), "-out", path("server.csr"),
+    ]);
+    openssl([
+      "x509", "-req", "-in", path("server.csr"), "-CA", path("ca.crt"), "-CAkey", path("ca.key"),
+      "-set_serial", `0x${randomBytes(16).toString("hex")}`, "-days", String(SERVER_DAYS),
+      "-extfile", cnf, "-extensions", "server", "-out", path("server.crt"),
+    ]);
+  } finally {
+    rmSync(cnf, { force: true });
+    rmSync(path("server.csr"), { force: true });
+  }
+
+  return {
+    caCert: path("ca.crt"),
+    cert: path("server.crt"),
+    key: path("server.key"),
+    hosts,
+    caFingerprint: certificateFingerprint(readFileSync(path("ca.crt"), "utf8")),
+    fingerprint: certificateFingerprint(readFileSync(path("server.crt"), "utf8")),
+  };
+}
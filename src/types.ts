@@ -14,6 +14,8 @@ export interface Todo {
   completedAt: string | null;
   project: string | null;
   projectTitle: string | null;
+  heading: string | null;
+  headingTitle: string | null;
   area: string | null;
   areaTitle: string | null;
   tags: string[];
@@ -30,6 +32,9 @@ export interface ChecklistItem {
   status: "incomplete" | "completed" | "canceled";
 }
 
+/** A checklist item as written by the API — UUIDs are assigned by Things */
+export type ChecklistItemInput = Omit<ChecklistItem, "uuid">;
+
 export interface Project {
   uuid: string;
   title: string;
@@ -47,15 +52,169 @@ export interface Project {
   todoCount: number;
 }
 
+/** A heading inside a project, with the to-dos filed under it */
+export interface ProjectHeading {
+  uuid: string;
+  title: string;
+  todos: Todo[];
+}
+
+export interface ProjectDetail extends Project {
+  todos: Todo[]; // to-dos not under a heading
+  headings: ProjectHeading[];
+}
+
 export interface Area {
   uuid: string;
   title: string;
+  tags: string[];
+}
+
+export interface AreaDetail extends Area {
+  projects: Project[]; // open projects in the area
+  todos: Todo[]; // open to-dos filed directly in the area
 }
 
 export interface Tag {
   uuid: string;
   title: string;
   shortcut: string | null;
+  parent: string | null; // parent tag UUID
+  parentTitle: string | null;
+}
+
+export interface TagNode extends Tag {
+  children: TagNode[];
+}
+
+export type SearchKind = "to-do" | "project" | "area";
+
+/** Everything the bridge tracks changes for */
+export type EntityKind = "to-do" | "project" | "area" | "tag";
+
+export type ChangeType =
+  | "created"
+  | "modified"
+  | "completed"
+  | "canceled"
+  | "trashed"
+  | "deleted";
+
+export interface Change {
+  kind: EntityKind;
+  uuid: string;
+  change: ChangeType;
+  at: string; // ISO 8601 — when Things recorded it, or when the bridge noticed
+  data: Todo | Project | Area | Tag | null; // current state; null once deleted
+}
+
+/** SSE event names: `todo.completed`, `project.updated`, `tag.renamed`, … */
+export type EventType =
+  | `${"todo" | "project"}.${"created" | "updated" | "completed" | "canceled" | "trashed" | "deleted"}`
+  | `${"area" | "tag"}.${"created" | "updated" | "deleted"}`
+  | "tag.renamed"
+  | "today.changed";
+
+export interface BridgeEvent {
+  type: EventType;
+  at: string; // ISO 8601
+  syncToken?: string; // position in the change log; sent as the SSE id
+  kind?: EntityKind;
+  uuid?: string;
+  data: Todo | Project | Area | Tag | { added: string[]; removed: string[] } | null;
+  previousTitle?: string; // tag.renamed only
+}
+
+export interface Webhook {
+  id: string;
+  url: string;
+  events: string[]; // event types or "todo.*"-style prefixes; empty = all
+  areas: string[]; // area UUIDs or titles; empty = any
+  tags: string[]; // tag titles; empty = any
+  active: boolean;
+  createdAt: string;
+}
+
+export interface WebhookDelivery {
+  id: number;
+  webhookId: string;
+  event: string;
+  status: "pending" | "succeeded" | "failed";
+  attempts: number;
+  responseStatus: number | null;
+  error: string | null;
+  createdAt: string;
+  nextAttemptAt: string | null;
+}
+
+/**
+ * A write to Things as journaled by the bridge (see src/operations): run
+ * straight away, or pending until Things is reachable. Undoable when every
+ * to-do and project it touched was recorded beforehand.
+ */
+export interface Operation {
+  id: string;
+  method: string;
+  path: string;
+  body: unknown; // the request body, as sent
+  status: "pending" | "succeeded" | "failed" | "canceled";
+  attempts: number;
+  createdAt: string;
+  completedAt: string | null;
+  response: { status: number; body: unknown } | null; // what the write returned once it ran
+  undoable: boolean;
+  undoneAt: string | null;
+}
+
+/** A to-do or project an operation touched, and its state before (null: the operation created it) */
+export type UndoTarget =
+  | { kind: "to-do"; uuid: string; before: Todo | null }
+  | { kind: "project"; uuid: string; before: Project | null };
+
+/** A to-do or project as a write found it and left it (null: didn't exist) */
+export type AuditChange =
+  | { kind: "to-do"; uuid: string; before: Todo | null; after: Todo | null; trashed: boolean }
+  | { kind: "project"; uuid: string; before: Project | null; after: Project | null; trashed: boolean };
+
+/** One line of the audit log: a write, who sent it, and what it did */
+export interface AuditEntry {
+  at: string;
+  token: string; // the token's name
+  ip: string | null; // null for replayed operations
+  method: string;
+  path: string;
+  body: unknown;
+  writes: string[]; // the write backend calls it made, e.g. "completeTodo(<uuid>)"
+  outcome: {
+    result: "succeeded" | "failed" | "queued";
+    status: number;
+    error: string | null;
+  };
+  operationId: string | null;
+  changes: AuditChange[];
+}
+
+/** One operation's outcome in a POST /v1/batch response, in request order */
+export interface BatchOperationResult {
+  index: number;
+  op: BatchOperation["op"];
+  status: "ok" | "error" | "skipped"; // skipped: not run because the batch stopped
+  uuid?: string; // the to-do operated on (or created)
+  error?: string;
+  code?: string; // failures while running: see WriteErrorCode in src/backend/errors.ts
+}
+
+export type SearchField = "title" | "notes" | "checklist" | "tags" | "context";
+
+export interface SearchHit {
+  kind: SearchKind;
+  uuid: string;
+  title: string;
+  status: Todo["status"] | null; // null for areas
+  context: string | null; // where it lives, e.g. "Work › Launch › Phase 1"
+  score: number; // higher is better; only comparable within one search
+  snippets: Partial<Record<SearchField, string>>; // matched fields, terms in **bold**
+  reasons: string[]; // e.g. 'notes matches "dentist" (fuzzy for "dentst")'
 }
 
 // ─── API Request/Response Types ───
@@ -67,9 +226,25 @@ export interface CreateTodoRequest {
   deadline?: string; // YYYY-MM-DD
   tags?: string[];
   list?: string; // project or area title
+  heading?: string; // heading title inside the `list` project
   checklist?: string[];
 }
 
+export interface MoveTodoRequest {
+  list: string; // built-in list ("inbox", "today", "anytime", "someday") or project title
+}
+
+export interface CreateChecklistItemRequest {
+  title: string;
+  index?: number; // position in the checklist (default: append)
+}
+
+export interface UpdateChecklistItemRequest {
+  title?: string;
+  status?: ChecklistItem["status"];
+  index?: number; // move to this position
+}
+
 export interface UpdateTodoRequest {
   title?: string;
   notes?: string;
@@ -88,6 +263,96 @@ export interface CreateProjectRequest {
   todos?: string[]; // titles of to-dos to create inside
 }
 
+export interface CreateAreaRequest {
+  title: string;
+  tags?: string[];
+}
+
+export interface UpdateAreaRequest {
+  title?: string;
+  tags?: string[]; // replaces the area's tags
+}
+
+export interface CreateTagRequest {
+  title: string;
+  parent?: string; // parent tag title
+  shortcut?: string; // single-character keyboard shortcut
+}
+
+export interface UpdateTagRequest {
+  title?: string;
+  parent?: string | null; // parent tag title; null moves the tag to the top level
+  shortcut?: string | null; // null clears the shortcut
+}
+
+export interface CreateWebhookRequest {
+  url: string;
+  events?: string[];
+  areas?: string[];
+  tags?: string[];
+  secret?: string; // generated when omitted
+}
+
+export interface UpdateWebhookRequest {
+  url?: string;
+  events?: string[];
+  areas?: string[];
+  tags?: string[];
+  active?: boolean;
+}
+
+/**
+ * What a token may do: `read` (GET), `write` (create, update, complete, move,
+ * undo), `delete`, and `admin` (tokens, webhooks and the audit log; implies the others)
+ */
+export type TokenScope = "read" | "write" | "delete" | "admin";
+
+/** Requests per minute, for reads (GET) and for everything else; 0 is unlimited */
+export interface RateLimits {
+  reads: number;
+  writes: number;
+}
+
+/**
+ * An API token. `areas` and `tags` (area UUIDs or titles, tag titles) limit
+ * it to to-dos and projects in those areas or with one of those tags;
+ * `excludeAreas` and `excludeTags` hide them. Empty lists don't restrict.
+ */
+export interface ApiToken {
+  id: string;
+  name: string;
+  scopes: TokenScope[];
+  areas: string[];
+  excludeAreas: string[];
+  tags: string[];
+  excludeTags: string[];
+  rateLimits: Partial<RateLimits>; // overrides THINGS_BRIDGE_RATE_LIMIT_*
+  createdAt: string;
+  lastUsedAt: string | null;
+}
+
+export interface CreateTokenRequest {
+  name: string;
+  scopes: TokenScope[];
+  areas?: string[];
+  excludeAreas?: string[];
+  tags?: string[];
+  excludeTags?: string[];
+  rateLimits?: Partial<RateLimits>;
+}
+
+/** One step of POST /v1/batch; every operation targets a to-do */
+export type BatchOperation =
+  | { op: "create"; data: CreateTodoRequest }
+  | { op: "update"; uuid: string; data: UpdateTodoRequest }
+  | { op: "complete"; uuid: string }
+  | { op: "move"; uuid: string; list: string };
+
+export interface BatchRequest {
+  operations: BatchOperation[];
+  atomic?: boolean; // all-or-nothing: validate everything first, stop at the first failure
+}
+
 export type ThingsList =
   | "inbox"
   | "today"
@@ -96,8 +361,45 @@ export type ThingsList =
   | "someday"
   | "logbook";
 
+/** Filters for GET /v1/todos — every field given must match (see src/db/filters.ts) */
+export interface TodoFilter {
+  tags?: string[]; // tag titles
+  tagMatch?: "any" | "all"; // default "any"
+  area?: string; // area title or UUID (includes to-dos in the area's projects)
+  project?: string; // project title or UUID (includes to-dos under its headings)
+  status?: Todo["status"][]; // default ["incomplete"] unless inList decides
+  deadlineBefore?: string; // YYYY-MM-DD, inclusive
+  deadlineAfter?: string; // YYYY-MM-DD, inclusive
+  startFrom?: string; // YYYY-MM-DD, inclusive
+  startTo?: string; // YYYY-MM-DD, inclusive
+  modifiedSince?: string; // ISO 8601
+  hasDeadline?: boolean;
+  repeating?: boolean;
+  inList?: ThingsList;
+}
+
 export interface ApiResponse<T = unknown> {
   ok: boolean;
   data?: T;
   error?: string;
+  code?: string; // failed writes: things_not_running, timeout, not_found, ... (src/backend/errors.ts)
+  total?: number; // collection endpoints: size of the whole collection
+  nextCursor?: string | null; // collection endpoints: pass as ?cursor= for the next page
+  syncToken?: string; // /v1/changes: pass as ?since= next time
+}
+
+/** A row's position in a collection's ordering: its ORDER BY values, ending with a unique tiebreak */
+export type SortKey = (string | number | null)[];
+
+/** Which slice of a collection to return (see src/pagination.ts) */
+export interface PageRequest {
+  limit: number;
+  after: SortKey | null; // sort key of the last item on the previous page; null for the first
+  upTo?: number; // /v1/changes: the change log position the whole walk is pinned to
+}
+
+export interface Page<T> {
+  items: T[];
+  total: number;
+  nextCursor: string | null;
 }
@@ -0,0 +1,102 @@
+import { describe, test, expect, afterAll } from "bun:test";
+import { startTestBridge, stopTestBridge } from "../testing";
+import type { BridgeEvent } from "../types";
+
+// ─── Fixture ───
+
+await startTestBridge({
+  tags: [{ uuid: "tag-urgent", title: "Urgent" }],
+  tasks: [{ uuid: "inbox-1", title: "Call the dentist", tags: ["Urgent"] }],
+});
+const queries = await import("../db/queries");
+const webhooks = await import("./store");
+const { dispatchEvent, signPayload } = await import("./dispatcher");
+
+afterAll(stopTestBridge);
+
+/** A local receiver answering every delivery with `status` */
+function startReceiver(status = 200) {
+  const received: { headers: Headers; body: string }[] = [];
+  const server = Bun.serve({
+    port: 0,
+    async fetch(request) {
+      received.push({ headers: request.headers, body: await request.text() });
+      return new Response("ok", { status });
+    },
+  });
+  return { received, url: `http://localhost:${server.port}/hook`, stop: () => server.stop(true) };
+}
+
+/** Wait for the first attempt of each delivery to be recorded */
+async function settled(webhookId: string, count = 1) {
+  for (let waited = 0; waited < 3000; waited += 50) {
+    const deliveries = webhooks.getDeliveries(webhookId).items;
+    if (deliveries.filter((delivery) => delivery.attempts > 0).length >= count) return deliveries;
+    await Bun.sleep(50);
+  }
+  throw new Error("deliveries never attempted");
+}
+
+function completed(uuid: string, tags: string[]): BridgeEvent {
+  const todo = queries.getTodoByUuid(uuid)!;
+  return {
+    type: "todo.completed",
+    at: new Date().toISOString(),
+    kind: "to-do",
+    uuid,
+    data: { ...todo, tags },
+  };
+}
+
+// ─── Delivery ───
+
+describe("webhooks", () => {
+  test("matching events are POSTed with a verifiable signature and logged", async () => {
+    const receiver = startReceiver();
+    const webhook = webhooks.createWebhook({ url: receiver.url, events: ["todo.*"], tags: ["Urgent"] });
+
+    dispatchEvent(completed("inbox-1", ["Urgent"]));
+    dispatchEvent(completed("inbox-1", []));
+    dispatchEvent({ type: "project.completed", at: new Date().toISOString(), kind: "project", uuid: "x", data: null });
+
+    const [delivery] = await settled(webhook.id);
+    receiver.stop();
+
+    expect(receiver.received).toHaveLength(1);
+    const [{ headers, body }] = receiver.received;
+    const timestamp = headers.get("X-Things-Bridge-Timestamp")!;
+    expect(headers.get("X-Things-Bridge-Event")).toBe("todo.completed");
+    expect(headers.get("X-Things-Bridge-Signature")).toBe(
+      signPayload(webhook.secret, timestamp, body)
+    );
+    expect(JSON.parse(body)).toMatchObject({ type: "todo.completed", uuid: "inbox-1" });
+    expect(delivery).toMatchObject({ status: "succeeded", attempts: 1, responseStatus: 200 });
+    expect(webhooks.deleteWebhook(webhook.id)).toBe(true);
+  });
+
+  test("a signature doesn't verify with another secret, body or timestamp", () => {
+    const signature = signPayload("secret", "1700000000", '{"type":"todo.completed"}');
+    expect(signature).toMatch(/^sha256=[0-9a-f]{64}$/);
+    expect(signPayload("other", "1700000000", '{"type":"todo.completed"}')).not.toBe(signature);
+    expect(signPayload("secret", "1700000000", '{"type":"todo.canceled"}')).not.toBe(signature);
+    expect(signPayload("secret", "1700000001", '{"type":"todo.completed"}')).not.toBe(signature);
+  });
+
+  test("server errors are retried later; other rejections fail for good", async () => {
+    const flaky = startReceiver(503);
+    const refusing = startReceiver(410);
+    const retried = webhooks.createWebhook({ url: flaky.url });
+    const refused = webhooks.createWebhook({ url: refusing.url });
+
+    dispatchEvent(completed("inbox-1", []));
+    const [retry] = await settled(retried.id);
+    const [failure] = await settled(refused.id);
+    flaky.stop();
+    refusing.stop();
+
+    expect(retry).toMatchObject({ status: "pending", attempts: 1, responseStatus: 503, error: "HTTP 503" });
+    expect(retry.nextAttemptAt).not.toBeNull();
+    expect(failure).toMatchObject({ status: "failed", attempts: 1, responseStatus: 410 });
+    expect(failure.nextAttemptAt).toBeNull();
+  });
+});
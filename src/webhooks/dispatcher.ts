@@ -0,0 +1,197 @@
+import { createHmac } from "crypto";
+import { subscribeToEvents } from "../state/events";
+import {
+  listWebhooks,
+  getWebhook,
+  recordDelivery,
+  recordAttempt,
+  getPendingDeliveries,
+  type PendingDelivery,
+} from "./store";
+import type { BridgeEvent, Webhook } from "../types";
+
+// ─── Constants ───
+
+/** Attempts per delivery, the first included; retries wait 2s, 4s, 8s, 16s, 32s */
+const MAX_ATTEMPTS = 6;
+const RETRY_BASE_MS = 2000;
+const DELIVERY_TIMEOUT_MS = 10000;
+
+export const SIGNATURE_HEADER = "X-Things-Bridge-Signature";
+export const TIMESTAMP_HEADER = "X-Things-Bridge-Timestamp";
+
+// ─── Matching & Signing ───
+
+/** "todo.completed" matches itself, "todo.*" and, with no filter, everything */
+function matchesType(patterns: string[], type: string): boolean {
+  return (
+    patterns.length === 0 ||
+    patterns.some((pattern) =>
+      pattern.endsWith(".*") ? type.startsWith(pattern.slice(0, -1)) : pattern === type
+    )
+  );
+}
+
+/**
+ * Whether a webhook wants an event. Area and tag filters look at the event's
+ * data, so events without any (deletions, today.changed) only reach webhooks
+ * that don't filter on them.
+ */
+export function matchesWebhook(webhook: Webhook, event: BridgeEvent): boolean {
+  if (!matchesType(webhook.events, event.type)) return false;
+
+  const data = (event.data ?? {}) as {
+    uuid?: string;
+    title?: string;
+    area?: string | null;
+    areaTitle?: string | null;
+    tags?: string[];
+  };
+
+  if (webhook.areas.length > 0) {
+    const area =
+      event.kind === "area"
+        ? [data.uuid, data.title]
+        : [data.area, data.areaTitle];
+    if (!webhook.areas.some((wanted) => area.includes(wanted))) return false;
+  }
+
+  if (webhook.tags.length > 0) {
+    const tags = event.kind === "tag" ? [data.title] : (data.tags ?? []);
+    if (!webhook.tags.some((wanted) => tags.includes(wanted))) return false;
+  }
+
+  return true;
+}
+
+/**
+ * HMAC-SHA256 over `<timestamp>.<body>`, hex-encoded. Receivers recompute it
+ * with the webhook's secret and compare; the timestamp guards against replays.
+ */
+export function signPayload(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+// ─── Delivery ───
+
+const timers = new Map<number, ReturnType<typeof setTimeout>>();
+
+function schedule(delivery: PendingDelivery): void {
+  const delay = Math.max(0, delivery.nextAttemptAt * 1000 - Date.now());
+  timers.set(
+    delivery.id,
+    setTimeout(() => {
+      timers.delete(delivery.id);
+      void attempt(delivery);
+    }, delay)
+  );
+}
+
+/** POST a delivery once; on a network error, timeout, 408, 429 or 5xx, retry later */
+async function attempt(delivery: PendingDelivery): Promise<void> {
+  // Deleting a webhook deletes its deliveries too
+  const webhook = getWebhook(delivery.webhookId);
+  if (!webhook) return;
+
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+
+  try {
+    const response = await fetch(webhook.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "things-bridge",
+        "X-Things-Bridge-Event": delivery.event,
+        "X-Things-Bridge-Delivery": String(delivery.id),
+        [TIMESTAMP_HEADER]: timestamp,
+        [SIGNATURE_HEADER]: signPayload(webhook.secret, timestamp, delivery.payload),
+      },
+      body: delivery.payload,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+    responseStatus = response.status;
+    if (response.ok) {
+      recordAttempt(delivery.id, {
+        status: "succeeded",
+        responseStatus,
+        error: null,
+        nextAttemptAt: null,
+      });
+      return;
+    }
+    error = `HTTP ${response.status}`;
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  const attempts = delivery.attempts + 1;
+  const retryable =
+    responseStatus === null ||
+    responseStatus >= 500 ||
+    responseStatus === 408 ||
+    responseStatus === 429;
+
+  if (retryable && attempts < MAX_ATTEMPTS) {
+    const nextAttemptAt = Date.now() / 1000 + (RETRY_BASE_MS * 2 ** (attempts - 1)) / 1000;
+    recordAttempt(delivery.id, { status: "pending", responseStatus, error, nextAttemptAt });
+    schedule({ ...delivery, attempts, nextAttemptAt });
+  } else {
+    recordAttempt(delivery.id, { status: "failed", responseStatus, error, nextAttemptAt: null });
+  }
+}
+
+/** Queue a delivery of `event` to every active webhook that wants it */
+export function dispatchEvent(event: BridgeEvent): void {
+  const payload = JSON.stringify(event);
+  for (const webhook of listWebhooks().items) {
+    if (webhook.active && matchesWebhook(webhook, event)) {
+      schedule(recordDelivery(webhook.id, event.type, payload));
+    }
+  }
+}
+
+/** Send a `webhook.ping` to one webhook regardless of its filters */
+export function pingWebhook(webhook: Webhook): number {
+  const payload = JSON.stringify({
+    type: "webhook.ping",
+    at: new Date().toISOString(),
+    webhookId: webhook.id,
+  });
+  const delivery = recordDelivery(webhook.id, "webhook.ping", payload);
+  schedule(delivery);
+  return delivery.id;
+}
+
+// ─── Lifecycle ───
+
+let unsubscribe: (() => void) | null = null;
+
+/**
+ * Listen for database events only while some webhook is active, so the file
+ * watcher isn't kept running for nothing. Call after registrations change.
+ */
+export function syncWebhookListener(): void {
+  const anyActive = listWebhooks().items.some((webhook) => webhook.active);
+  if (anyActive && !unsubscribe) {
+    unsubscribe = subscribeToEvents(dispatchEvent);
+  } else if (!anyActive && unsubscribe) {
+    unsubscribe();
+    unsubscribe = null;
+  }
+}
+
+/** Resume deliveries left pending by the last run, then start listening */
+export function startWebhooks(): void {
+  for (const delivery of getPendingDeliveries()) schedule(delivery);
+  syncWebhookListener();
+}
+
+/** Stop listening and drop scheduled retries (they resume on next start) */
+export function stopWebhooks(): void {
+  unsubscribe?.();
+  unsubscribe = null;
+  for (const timer of timers.values()) clearTimeout(timer);
+  timers.clear();
+}
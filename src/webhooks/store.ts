@@ -0,0 +1,229 @@
+import { randomBytes, randomUUID } from "crypto";
+import { getStateDb } from "../state/db";
+import { queryPage } from "../pagination";
+import type {
+  Webhook,
+  WebhookDelivery,
+  CreateWebhookRequest,
+  UpdateWebhookRequest,
+  Page,
+  PageRequest,
+} from "../types";
+
+// ─── Row Mapping ───
+
+interface WebhookRow {
+  id: string;
+  url: string;
+  secret: string;
+  events: string;
+  areas: string;
+  tags: string;
+  active: number;
+  created_at: number;
+}
+
+interface DeliveryRow {
+  id: number;
+  webhook_id: string;
+  event: string;
+  payload: string;
+  status: WebhookDelivery["status"];
+  attempts: number;
+  response_status: number | null;
+  error: string | null;
+  created_at: number;
+  next_attempt_at: number | null;
+}
+
+/** A registration plus its signing secret — never returned after creation */
+export interface WebhookWithSecret extends Webhook {
+  secret: string;
+}
+
+/** A delivery with what's needed to (re)send it */
+export interface PendingDelivery {
+  id: number;
+  webhookId: string;
+  event: string;
+  payload: string;
+  attempts: number;
+  nextAttemptAt: number; // Unix seconds
+}
+
+function isoFromUnix(unix: number | null): string | null {
+  return unix === null ? null : new Date(unix * 1000).toISOString();
+}
+
+function mapWebhook(row: WebhookRow): WebhookWithSecret {
+  return {
+    id: row.id,
+    url: row.url,
+    events: JSON.parse(row.events),
+    areas: JSON.parse(row.areas),
+    tags: JSON.parse(row.tags),
+    active: row.active === 1,
+    createdAt: isoFromUnix(row.created_at)!,
+    secret: row.secret,
+  };
+}
+
+/** Drop the secret for listings */
+export function publicWebhook({ secret: _secret, ...webhook }: WebhookWithSecret): Webhook {
+  return webhook;
+}
+
+function mapDelivery(row: DeliveryRow): WebhookDelivery {
+  return {
+    id: row.id,
+    webhookId: row.webhook_id,
+    event: row.event,
+    status: row.status,
+    attempts: row.attempts,
+    responseStatus: row.response_status,
+    error: row.error,
+    createdAt: isoFromUnix(row.created_at)!,
+    nextAttemptAt: isoFromUnix(row.next_attempt_at),
+  };
+}
+
+const nowUnix = () => Date.now() / 1000;
+
+// ─── Registrations ───
+
+export function listWebhooks(page?: PageRequest): Page<WebhookWithSecret> {
+  const rows = queryPage<WebhookRow>(
+    getStateDb(),
+    `SELECT * FROM webhooks`,
+    [{ column: "created_at" }, { column: "id" }],
+    [],
+    page
+  );
+  return { ...rows, items: rows.items.map(mapWebhook) };
+}
+
+export function getWebhook(id: string): WebhookWithSecret | null {
+  const row = getStateDb()
+    .query<WebhookRow, [string]>(`SELECT * FROM webhooks WHERE id = ?`)
+    .get(id);
+  return row ? mapWebhook(row) : null;
+}
+
+export function createWebhook(input: CreateWebhookRequest): WebhookWithSecret {
+  const id = randomUUID();
+  getStateDb()
+    .query(
+      `INSERT INTO webhooks (id, url, secret, events, areas, tags, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(
+      id,
+      input.url,
+      input.secret ?? randomBytes(32).toString("base64url"),
+      JSON.stringify(input.events ?? []),
+      JSON.stringify(input.areas ?? []),
+      JSON.stringify(input.tags ?? []),
+      nowUnix()
+    );
+  return getWebhook(id)!;
+}
+
+/** Apply the fields present in `input`; null if there's no such webhook */
+export function updateWebhook(
+  id: string,
+  input: UpdateWebhookRequest
+): WebhookWithSecret | null {
+  const sets: string[] = [];
+  const params: (string | number)[] = [];
+  if (input.url !== undefined) {
+    sets.push("url = ?");
+    params.push(input.url);
+  }
+  for (const field of ["events", "areas", "tags"] as const) {
+    if (input[field] !== undefined) {
+      sets.push(`${field} = ?`);
+      params.push(JSON.stringify(input[field]));
+    }
+  }
+  if (input.active !== undefined) {
+    sets.push("active = ?");
+    params.push(input.active ? 1 : 0);
+  }
+  if (sets.length > 0) {
+    getStateDb()
+      .query(`UPDATE webhooks SET ${sets.join(", ")} WHERE id = ?`)
+      .run(...params, id);
+  }
+  return getWebhook(id);
+}
+
+/** Delete a webhook and its delivery log; false if there was no such webhook */
+export function deleteWebhook(id: string): boolean {
+  const { changes } = getStateDb().query(`DELETE FROM webhooks WHERE id = ?`).run(id);
+  return changes > 0;
+}
+
+// ─── Delivery Log ───
+
+/** Finished deliveries kept per webhook; older ones are pruned as new ones arrive */
+const DELIVERY_LOG_SIZE = 500;
+
+export function recordDelivery(webhookId: string, event: string, payload: string): PendingDelivery {
+  const db = getStateDb();
+  const now = nowUnix();
+  const { lastInsertRowid } = db
+    .query(
+      `INSERT INTO webhook_deliveries (webhook_id, event, payload, created_at, next_attempt_at)
+       VALUES (?, ?, ?, ?, ?)`
+    )
+    .run(webhookId, event, payload, now, now);
+  db.query(
+    `DELETE FROM webhook_deliveries
+     WHERE webhook_id = ?1 AND status != 'pending' AND id <= (
+       SELECT id FROM webhook_deliveries WHERE webhook_id = ?1
+       ORDER BY id DESC LIMIT 1 OFFSET ${DELIVERY_LOG_SIZE}
+     )`
+  ).run(webhookId);
+  return { id: Number(lastInsertRowid), webhookId, event, payload, attempts: 0, nextAttemptAt: now };
+}
+
+/** Record one attempt's outcome; `nextAttemptAt` null means no more retries */
+export function recordAttempt(
+  id: number,
+  outcome: {
+    status: WebhookDelivery["status"];
+    responseStatus: number | null;
+    error: string | null;
+    nextAttemptAt: number | null;
+  }
+): void {
+  getStateDb()
+    .query(
+      `UPDATE webhook_deliveries
+       SET status = ?, attempts = attempts + 1, response_status = ?, error = ?, next_attempt_at = ?
+       WHERE id = ?`
+    )
+    .run(outcome.status, outcome.responseStatus, outcome.error, outcome.nextAttemptAt, id);
+}
+
+/** Deliveries still waiting on an attempt — resumed on startup */
+export function getPendingDeliveries(): PendingDelivery[] {
+  return getStateDb()
+    .query<PendingDelivery, []>(
+      `SELECT id, webhook_id AS webhookId, event, payload, attempts, next_attempt_at AS nextAttemptAt
+       FROM webhook_deliveries WHERE status = 'pending' ORDER BY id`
+    )
+    .all();
+}
+
+/** A webhook's deliveries, newest first */
+export function getDeliveries(webhookId: string, page?: PageRequest): Page<WebhookDelivery> {
+  const rows = queryPage<DeliveryRow>(
+    getStateDb(),
+    `SELECT * FROM webhook_deliveries WHERE webhook_id = ?`,
+    [{ column: "id", desc: true }],
+    [webhookId],
+    page
+  );
+  return { ...rows, items: rows.items.map(mapDelivery) };
+}